@@ -0,0 +1,280 @@
+import { describe, it, expect } from 'vitest';
+import { loadConfig, ConfigError } from './index.js';
+
+const production = {
+  NODE_ENV: 'production',
+  CDN_BASE_URL: 'https://cdn.example.com',
+  BUILD_VERSION: 'v1.2.3',
+  AUTH_ISSUER: 'https://auth.example.com',
+};
+
+const problemsFor = (env: NodeJS.ProcessEnv): string[] => {
+  try {
+    loadConfig(env);
+  } catch (error) {
+    if (error instanceof ConfigError) return error.problems;
+    throw error;
+  }
+  return [];
+};
+
+describe('Configuration', () => {
+  describe('Defaults', () => {
+    it('should use development defaults when no environment variables are set', () => {
+      const config = loadConfig({});
+
+      expect(config.environment).toBe('development');
+      expect(config.isDevelopment).toBe(true);
+      expect(config.isProduction).toBe(false);
+      expect(config.server.port).toBe(4000);
+      expect(config.assets).toEqual({
+        cdnEnabled: false,
+        baseUrl: 'http://localhost:4000/assets',
+        version: 'dev',
+      });
+    });
+
+    it('should use default service URLs when not specified', () => {
+      const config = loadConfig({});
+
+      expect(config.services.accountService).toBe('http://account-service:8080');
+      expect(config.services.customerService).toBe('http://customer-service:8080');
+      expect(config.services.authService).toBe('http://auth-service:8080');
+      expect(config.services.userService).toBe('http://user-service:8080');
+    });
+
+    it('should treat empty values as unset', () => {
+      const config = loadConfig({ CDN_BASE_URL: '', PORT: '' });
+
+      expect(config.assets.baseUrl).toBe('http://localhost:4000/assets');
+      expect(config.server.port).toBe(4000);
+    });
+  });
+
+  describe('Parsing', () => {
+    it('should parse typed values', () => {
+      const config = loadConfig({
+        PORT: '8080',
+        CIRCUIT_BREAKER_FAILURE_RATE: '0.25',
+        CUSTOMER_SERVICE_BATCH_ENABLED: 'TRUE',
+        CIRCUIT_BREAKER_ENABLED: '0',
+        ACCOUNT_SERVICE_URL: 'http://custom-account:9000/',
+      });
+
+      expect(config.server.port).toBe(8080);
+      expect(config.circuitBreaker.failureRateThreshold).toBe(0.25);
+      expect(config.batching.customerService).toBe(true);
+      expect(config.circuitBreaker.enabled).toBe(false);
+      expect(config.services.accountService).toBe('http://custom-account:9000');
+    });
+
+    it('should serve GraphiQL in development or when the playground is enabled', () => {
+      expect(loadConfig({}).graphql).toEqual({ endpoint: '/graphql', playground: true });
+      expect(loadConfig({ NODE_ENV: 'test' }).graphql.playground).toBe(false);
+      expect(loadConfig({ NODE_ENV: 'test', GRAPHQL_PLAYGROUND: 'true', GRAPHQL_ENDPOINT: '/api/graphql' }).graphql)
+        .toEqual({ endpoint: '/api/graphql', playground: true });
+      expect(problemsFor({ GRAPHQL_ENDPOINT: 'graphql' })).toEqual(['GRAPHQL_ENDPOINT must be a path like /graphql, got "graphql"']);
+    });
+
+    it('should parse trust proxy as a boolean, hop count or address list', () => {
+      expect(loadConfig({}).server.trustProxy).toBe(1);
+      expect(loadConfig({ TRUST_PROXY: 'true' }).server.trustProxy).toBe(true);
+      expect(loadConfig({ TRUST_PROXY: 'false' }).server.trustProxy).toBe(false);
+      expect(loadConfig({ TRUST_PROXY: '2' }).server.trustProxy).toBe(2);
+      expect(loadConfig({ TRUST_PROXY: 'loopback, 10.0.0.0/8' }).server.trustProxy).toBe('loopback, 10.0.0.0/8');
+    });
+
+    it('should accept deprecated aliases', () => {
+      const config = loadConfig({ ASSETS_CDN_URL: 'https://legacy-cdn.example.com' });
+
+      expect(config.assets.baseUrl).toBe('https://legacy-cdn.example.com');
+    });
+
+    it('should prefer the canonical name over an alias', () => {
+      const config = loadConfig({
+        CDN_BASE_URL: 'https://cdn.example.com',
+        ASSETS_CDN_URL: 'https://legacy-cdn.example.com',
+      });
+
+      expect(config.assets.baseUrl).toBe('https://cdn.example.com');
+    });
+  });
+
+  describe('Production', () => {
+    it('should enable the CDN by default', () => {
+      const config = loadConfig(production);
+
+      expect(config.isProduction).toBe(true);
+      expect(config.assets).toEqual({
+        cdnEnabled: true,
+        baseUrl: 'https://cdn.example.com',
+        version: 'v1.2.3',
+      });
+    });
+
+    it('should allow the CDN to be disabled explicitly', () => {
+      expect(loadConfig({ ...production, CDN_ENABLED: 'false' }).assets.cdnEnabled).toBe(false);
+    });
+
+    it('should require variables without a production default', () => {
+      const problems = problemsFor({ NODE_ENV: 'production' });
+
+      expect(problems).toEqual([
+        expect.stringContaining('CDN_BASE_URL is required in production'),
+        expect.stringContaining('BUILD_VERSION is required in production'),
+        expect.stringContaining('AUTH_ISSUER is required in production'),
+      ]);
+    });
+
+    it('should only require AUTH_ISSUER while tokens are verified', () => {
+      const { AUTH_ISSUER: _issuer, ...withoutIssuer } = production;
+
+      expect(problemsFor({ ...withoutIssuer, AUTH_ENABLED: 'false' })).toEqual([]);
+      expect(problemsFor(withoutIssuer)).toEqual([
+        'AUTH_ISSUER is required in production while AUTH_ENABLED=true (Expected iss claim)',
+      ]);
+    });
+  });
+
+  describe('Validation', () => {
+    it('should reject an invalid port', () => {
+      expect(problemsFor({ PORT: 'invalid' })).toEqual(['PORT must be an integer, got "invalid"']);
+      expect(problemsFor({ PORT: '70000' })).toEqual(['PORT must be at most 65535, got 70000']);
+    });
+
+    it('should reject invalid URLs', () => {
+      expect(problemsFor({ USER_SERVICE_URL: 'user-service:8080' })).toEqual([
+        'USER_SERVICE_URL must be an http(s) URL, got "user-service:8080"',
+      ]);
+      expect(problemsFor({ AUTH_SERVICE_URL: 'not a url' })).toEqual([
+        'AUTH_SERVICE_URL must be an absolute URL, got "not a url"',
+      ]);
+    });
+
+    it('should report problems under the name that was set', () => {
+      expect(problemsFor({ ASSETS_CDN_URL: 'nope' })).toEqual([
+        'ASSETS_CDN_URL must be an absolute URL, got "nope"',
+      ]);
+    });
+
+    it('should reject out-of-range numbers, bad booleans and unknown values', () => {
+      expect(problemsFor({
+        CIRCUIT_BREAKER_FAILURE_RATE: '1.5',
+        DATALOADER_MAX_BATCH_SIZE: '0',
+        CDN_ENABLED: 'yes',
+        LOG_LEVEL: 'verbose',
+      })).toEqual([
+        'CDN_ENABLED must be true or false, got "yes"',
+        'DATALOADER_MAX_BATCH_SIZE must be at least 1, got 0',
+        'LOG_LEVEL must be one of debug, info, warn, error, got "verbose"',
+        'CIRCUIT_BREAKER_FAILURE_RATE must be at most 1, got 1.5',
+      ]);
+    });
+
+    it('should validate CORS origin entries', () => {
+      expect(problemsFor({
+        CORS_ORIGINS: 'https://shell.example.com,https://*.mfe.example.com,/^http:\\/\\/localhost:\\d+$/',
+      })).toEqual([]);
+      expect(problemsFor({ CORS_ORIGINS: 'shell.example.com,https://a.example.com/app,/(/', CORS_ASSETS_ORIGINS: 'https://cdn.*.com' })).toEqual([
+        'CORS_ORIGINS entry "shell.example.com" must be an origin like https://app.example.com',
+        'CORS_ORIGINS entry "https://a.example.com/app" must be an origin like https://app.example.com',
+        'CORS_ORIGINS has an invalid pattern /(/',
+        'CORS_ASSETS_ORIGINS entry "https://cdn.*.com" must be an origin like https://app.example.com',
+      ]);
+    });
+
+    it('should reject credentials with a wildcard origin', () => {
+      expect(problemsFor({ CORS_CREDENTIALS: 'true' })).toEqual([
+        'CORS_CREDENTIALS=true cannot be combined with a * entry in CORS_ORIGINS - list the allowed origins',
+      ]);
+      expect(loadConfig({ CORS_CREDENTIALS: 'true', CORS_ORIGIN: 'https://shell.example.com' }).cors).toMatchObject({
+        origins: ['https://shell.example.com'],
+        credentials: true,
+      });
+    });
+
+    it('should reject invalid redaction patterns', () => {
+      expect(problemsFor({ REDACT_EMAIL_PATTERN: '[a-z' })).toEqual([
+        'REDACT_EMAIL_PATTERN must be a valid regular expression, got "[a-z"',
+      ]);
+      expect(loadConfig({ REDACT_FIELDS: 'email, customer.name' }).redaction.fields).toEqual(['email', 'customer.name']);
+    });
+
+    it('should reject a span queue smaller than the export batch', () => {
+      expect(problemsFor({ TRACING_EXPORT_BATCH_SIZE: '100', TRACING_MAX_QUEUE_SIZE: '50' })).toEqual([
+        'TRACING_MAX_QUEUE_SIZE must be at least TRACING_EXPORT_BATCH_SIZE',
+      ]);
+      expect(problemsFor({ TRACING_EXPORTER: 'jaeger' })).toHaveLength(1);
+    });
+
+    it('should only accept asymmetric JWT algorithms', () => {
+      expect(problemsFor({ AUTH_ALGORITHMS: 'RS256,HS256' })).toEqual([
+        expect.stringContaining('AUTH_ALGORITHMS must list algorithms from RS256'),
+      ]);
+      expect(loadConfig({ AUTH_ALGORITHMS: 'ES256, EdDSA' }).auth.algorithms).toEqual(['ES256', 'EdDSA']);
+    });
+
+    it('should check downstream credential policies', () => {
+      expect(problemsFor({ ACCOUNT_SERVICE_CREDENTIALS: 'static', CUSTOMER_SERVICE_CREDENTIALS: 'exchange', AUTH_ENABLED: 'false' })).toEqual([
+        'ACCOUNT_SERVICE_CREDENTIALS=static requires ACCOUNT_SERVICE_TOKEN',
+        'CUSTOMER_SERVICE_CREDENTIALS=exchange requires AUTH_ENABLED=true - only verified tokens are sent downstream',
+      ]);
+      expect(loadConfig({
+        ACCOUNT_SERVICE_CREDENTIALS: 'exchange',
+        CUSTOMER_SERVICE_CREDENTIALS: 'passthrough',
+        USER_SERVICE_CREDENTIALS: 'static',
+        USER_SERVICE_TOKEN: 'service-token',
+      }).downstreamCredentials).toEqual({
+        accountService: { mode: 'exchange', audience: 'account-service' },
+        customerService: { mode: 'passthrough' },
+        userService: { mode: 'static', token: 'service-token' },
+        productService: { mode: 'none' },
+        notificationService: { mode: 'none' },
+      });
+    });
+
+    it('should check browser session settings', () => {
+      expect(problemsFor({ SESSION_ENABLED: 'true', SESSION_SECRET: 'too-short', AUTH_ENABLED: 'false', SESSION_COOKIE_SAME_SITE: 'none' })).toEqual([
+        'SESSION_ENABLED=true requires a SESSION_SECRET of at least 32 characters',
+        'SESSION_ENABLED=true requires AUTH_ENABLED=true - session tokens are verified like bearer tokens',
+        'SESSION_COOKIE_SAME_SITE=none requires SESSION_COOKIE_SECURE=true',
+      ]);
+      expect(problemsFor({ ...production, SESSION_ENABLED: 'true', SESSION_SECRET: 'x'.repeat(32) })).toEqual([
+        'SESSION_ENABLED=true requires SHARED_STORE_URL in production - sessions must be visible to every replica and survive restarts',
+      ]);
+      expect(problemsFor({ SHARED_STORE_URL: 'http://redis:6379' })).toEqual([
+        'SHARED_STORE_URL must be a redis:// or rediss:// URL, got "http://redis:6379"',
+      ]);
+      expect(loadConfig({ ...production, SESSION_ENABLED: 'true', SESSION_SECRET: 'x'.repeat(32), SHARED_STORE_URL: 'redis://redis:6379' }).session).toMatchObject({
+        enabled: true,
+        cookieSecure: true,
+        cookieSameSite: 'lax',
+      });
+      expect(loadConfig({}).oidc.scopes).toEqual(['openid', 'profile', 'offline_access']);
+    });
+
+    it('should reject header-only CSRF protection with a wildcard origin', () => {
+      const sessions = { SESSION_ENABLED: 'true', SESSION_SECRET: 'x'.repeat(32), AUTH_ENABLED: 'true', CORS_ORIGINS: '*' };
+      expect(problemsFor({ ...sessions, CSRF_MODE: 'header' })).toContain(
+        'CSRF_MODE=header cannot be combined with a * entry in CORS_ORIGINS - any site could send the header'
+      );
+      expect(problemsFor({ ...sessions, CSRF_MODE: 'token' })).not.toContain(
+        'CSRF_MODE=header cannot be combined with a * entry in CORS_ORIGINS - any site could send the header'
+      );
+      expect(loadConfig({}).csrf).toEqual({ enabled: true, mode: 'token', headerName: 'X-CSRF-Token', cookieName: 'bff_csrf' });
+    });
+
+    it('should report cross-variable problems together with invalid variables', () => {
+      expect(problemsFor({ PORT: 'x', WORKER_RESTART_BASE_DELAY_MS: '5000', WORKER_RESTART_MAX_DELAY_MS: '1000' })).toEqual([
+        'PORT must be an integer, got "x"',
+        'WORKER_RESTART_MAX_DELAY_MS must be at least WORKER_RESTART_BASE_DELAY_MS',
+      ]);
+    });
+
+    it('should list every problem in the error message', () => {
+      expect(() => loadConfig({ PORT: 'x', REQUEST_TIMEOUT: '-1' })).toThrow(
+        'Invalid configuration:\n  - PORT must be an integer, got "x"\n  - REQUEST_TIMEOUT must be at least 1, got -1'
+      );
+    });
+  });
+});
@@ -1,28 +1,51 @@
-import { config } from 'dotenv';
+import { config as loadDotenv } from 'dotenv';
+import { ConfigError, validateEnvironment } from './schema.js';
+import type { LogFormat, LogLevel } from '../services/logger.js';
+import type { TracingExporter } from '../services/tracing.js';
+import type { JwtAlgorithm } from '../services/auth.js';
+import type { CredentialMode, CredentialPolicy } from '../services/credentials.js';
+import type { SameSite } from '../services/session.js';
+import type { CsrfMode } from '../middleware/csrf.js';
+import type { Environment } from './schema.js';
+
+export { ConfigError, variables } from './schema.js';
 
 // Load environment variables
-config();
+loadDotenv();
+
+export interface AssetConfig {
+  cdnEnabled: boolean;    // Whether to use CDN for static assets
+  baseUrl: string;        // Base URL for CDN or local assets
+  version: string;        // Build version for cache busting
+}
 
 export interface Config {
+  environment: string;    // Current environment (development, production, test)
+  isDevelopment: boolean; // Helper flag for development environment
+  isProduction: boolean;  // Helper flag for production environment
   server: {
-    nodeEnv: string;
     port: number;
     host: string;
+    trustProxy: boolean | number | string;  // Express 'trust proxy' setting - decides req.ip
   };
   graphql: {
-    endpoint: string;
-    playground: boolean;
-  };
-  assets: {
-    mode: 'development' | 'production';
-    cdnUrl: string;
-    localPath: string;
+    endpoint: string;         // Path the GraphQL server and its auth, CSRF and rate limit checks are mounted on
+    playground: boolean;      // Serve GraphiQL
   };
+  assets: AssetConfig;
   services: {
+    accountService: string;
+    customerService: string;
+    authService: string;
     userService: string;
     productService: string;
     notificationService: string;
   };
+  batching: {
+    accountService: boolean;  // Account service exposes GET /accounts?customerIds=
+    customerService: boolean; // Customer service exposes GET /customers?ids=
+    maxBatchSize: number;     // Maximum keys per downstream batch call
+  };
   serviceMesh: {
     serviceName: string;
     serviceVersion: string;
@@ -31,70 +54,486 @@ export interface Config {
   healthCheck: {
     healthPath: string;
     readinessPath: string;
+    cacheTtlMs: number;          // Reuse downstream health results for this long
+    timeoutMs: number;           // Per-downstream probe timeout
+    optionalServices: string[];  // Downstreams that do not fail readiness
+  };
+  shutdown: {
+    preStopDelayMs: number;   // Serve with failing readiness before closing connections
+    drainTimeoutMs: number;   // Deadline for in-flight requests
+  };
+  supervisor: {
+    workers?: number;         // Fixed worker count - detected from the CPU quota when unset
+    restartBaseDelayMs: number;
+    restartMaxDelayMs: number;
+    crashLimit: number;       // Crashes within crashWindowMs before giving up
+    crashWindowMs: number;
+  };
+  sharedStore: {
+    url?: string;             // Redis-compatible server - the cluster primary hosts the store when unset
+    timeoutMs: number;        // Per-call timeout
+  };
+  middleware: {
+    requestLogger: boolean;
+    serviceMeshHeaders: boolean;
+    securityHeaders: boolean;
+    cors: boolean;
+    httpMetrics: boolean;
+  };
+  metrics: {
+    enabled: boolean;
+    path: string;
+    collectTimeoutMs: number;       // Primary waits this long for worker snapshots
+    maxOperationNames: number;      // Distinct GraphQL operation_name labels per worker
+  };
+  tracing: {
+    exporter: TracingExporter;
+    otlpEndpoint: string;
+    exportIntervalMs: number;
+    maxBatchSize: number;
+    maxQueueSize: number;           // Spans beyond this are dropped until the queue drains
+    exportTimeoutMs: number;
   };
   logging: {
-    level: string;
-    format: string;
+    level: LogLevel;
+    format: LogFormat;
+  };
+  redaction: {
+    enabled: boolean;
+    fields: string[];               // Field paths whose values are masked
+    emailPattern: string;           // Regex sources masked inside any text
+    accountNumberPattern: string;
   };
   cors: {
-    origin: string;
+    origins: string[];        // API allowlist - exact origins, *. wildcards or /regex/
+    assetOrigins: string[];   // Allowlist for /assets
     credentials: boolean;
+    exposedHeaders: string[];
+    maxAgeSeconds: number;
   };
   request: {
     timeout: number;
+    retry: {
+      maxRetries: number;
+      baseDelayMs: number;
+      maxDelayMs: number;
+    };
+  };
+  auth: {
+    enabled: boolean;
+    required: boolean;        // Reject requests without a bearer token
+    issuer: string;
+    audience: string;
+    algorithms: JwtAlgorithm[];
+    jwksPath: string;         // On the auth service
+    jwksTimeoutMs: number;
+    jwksCacheTtlMs: number;
+    jwksRefreshCooldownMs: number;
+    clockToleranceSeconds: number;
+    rolesClaim: string;
+    customerIdClaim: string;
+  };
+  downstreamCredentials: {
+    accountService: CredentialPolicy;
+    customerService: CredentialPolicy;
+    userService: CredentialPolicy;
+    productService: CredentialPolicy;
+    notificationService: CredentialPolicy;
+  };
+  tokenExchange: {
+    path: string;               // Token endpoint on the auth service
+    clientId: string;
+    clientSecret?: string;
+    expiryMarginSeconds: number;
+    cacheEnabled: boolean;      // On the shared store, shared by every worker
+  };
+  session: {
+    enabled: boolean;
+    secret?: string;
+    cookieName: string;
+    cookieSecure: boolean;
+    cookieSameSite: SameSite;
+    ttlMs: number;                // From login - refreshes do not extend it
+    refreshMarginSeconds: number;
+  };
+  csrf: {
+    enabled: boolean;         // Only takes effect with sessions
+    mode: CsrfMode;
+    headerName: string;
+    cookieName: string;
+  };
+  oidc: {
+    clientId: string;
+    clientSecret?: string;
+    authorizationEndpoint: string;  // Browser-facing
+    tokenPath: string;              // On the auth service
+    endSessionEndpoint?: string;    // Browser-facing - logout stays local when unset
+    redirectUri: string;
+    scopes: string[];
+    postLogoutRedirectUri: string;
   };
   rateLimit: {
+    enabled: boolean;
     windowMs: number;
     maxRequests: number;
+    maxRequestsPerIp: number; // Checked before authentication, whatever its outcome
+    exemptClients: string[];  // Client IPs or authenticated subjects
+    exemptPaths: string[];    // Path prefixes
   };
+  circuitBreaker: {
+    enabled: boolean;
+    failureRateThreshold: number;
+    minimumRequests: number;
+    windowMs: number;
+    coolDownMs: number;
+    halfOpenMaxCalls: number;
+  };
+}
+
+/**
+ * Split a comma-separated variable into trimmed, non-empty entries
+ */
+const list = (value: string): string[] => value.split(',').map(entry => entry.trim()).filter(Boolean);
+
+const JWT_ALGORITHMS: readonly JwtAlgorithm[] = [
+  'RS256', 'RS384', 'RS512', 'PS256', 'PS384', 'PS512', 'ES256', 'ES384', 'ES512', 'EdDSA',
+];
+
+type Downstream = 'ACCOUNT' | 'CUSTOMER' | 'USER' | 'PRODUCT' | 'NOTIFICATION';
+
+const DOWNSTREAMS: readonly Downstream[] = ['ACCOUNT', 'CUSTOMER', 'USER', 'PRODUCT', 'NOTIFICATION'];
+
+/**
+ * Credential policy for one downstream from its *_SERVICE_CREDENTIALS variables
+ */
+function credentialPolicy(vars: Environment, downstream: Downstream): CredentialPolicy {
+  const mode = vars[`${downstream}_SERVICE_CREDENTIALS`] as CredentialMode;
+  switch (mode) {
+    case 'exchange':
+      return { mode, audience: vars[`${downstream}_SERVICE_TOKEN_AUDIENCE`] };
+    case 'static':
+      return { mode, token: vars[`${downstream}_SERVICE_TOKEN`] ?? '' };
+    default:
+      return { mode };
+  }
+}
+
+/**
+ * Problems with a downstream credential policy - a static policy needs its
+ * token, and only tokens the BFF verified are forwarded or exchanged
+ */
+function credentialProblems(vars: Environment, downstream: Downstream): string[] {
+  const name = `${downstream}_SERVICE_CREDENTIALS`;
+  const mode = vars[`${downstream}_SERVICE_CREDENTIALS`];
+  if (mode === 'static' && !vars[`${downstream}_SERVICE_TOKEN`]) {
+    return [`${name}=static requires ${downstream}_SERVICE_TOKEN`];
+  }
+  if ((mode === 'passthrough' || mode === 'exchange') && !vars.AUTH_ENABLED) {
+    return [`${name}=${mode} requires AUTH_ENABLED=true - only verified tokens are sent downstream`];
+  }
+  return [];
+}
+
+/**
+ * Express trust proxy value - true/false, a hop count, or proxy addresses
+ */
+function trustProxy(value: string): boolean | number | string {
+  if (value === 'true' || value === 'false') return value === 'true';
+  return /^\d+$/.test(value) ? Number(value) : value;
+}
+
+/**
+ * Problems with a CORS origin list - entries must be *, an origin
+ * (optionally with a *. subdomain wildcard) or a /regex/
+ */
+function originProblems(name: string, entries: string[]): string[] {
+  return entries.flatMap(entry => {
+    if (entry === '*') return [];
+
+    if (entry.length > 2 && entry.startsWith('/') && entry.endsWith('/')) {
+      try {
+        new RegExp(entry.slice(1, -1));
+        return [];
+      } catch {
+        return [`${name} has an invalid pattern ${entry}`];
+      }
+    }
+
+    try {
+      const candidate = entry.replace('://*.', '://wildcard.');
+      const url = new URL(candidate);
+      if (!candidate.includes('*') && url.origin === candidate.toLowerCase()) {
+        return [];
+      }
+    } catch {
+      // Reported below
+    }
+    return [`${name} entry "${entry}" must be an origin like https://app.example.com`];
+  });
 }
 
-const getConfig = (): Config => {
+/**
+ * Build the application configuration from validated environment variables
+ * See config/schema.ts for every variable, its type and default
+ * @param env - Raw environment (process.env by default)
+ * @throws ConfigError listing every invalid or missing variable
+ */
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): Config {
+  const { vars, problems: variableProblems } = validateEnvironment(env);
+  const isProduction = vars.NODE_ENV === 'production';
+
+  // Checks that span variables - reported together with the per-variable problems
+  const problems = [
+    ...variableProblems,
+    ...originProblems('CORS_ORIGINS', list(vars.CORS_ORIGINS)),
+    ...originProblems('CORS_ASSETS_ORIGINS', list(vars.CORS_ASSETS_ORIGINS)),
+    ...DOWNSTREAMS.flatMap(downstream => credentialProblems(vars, downstream)),
+  ];
+  // Only checked while tokens are verified - the default issuer is never right in production
+  if ((vars.AUTH_ENABLED || vars.SESSION_ENABLED) && isProduction && !env.AUTH_ISSUER) {
+    problems.push('AUTH_ISSUER is required in production while AUTH_ENABLED=true (Expected iss claim)');
+  }
+  if (vars.CORS_CREDENTIALS && list(vars.CORS_ORIGINS).includes('*')) {
+    problems.push('CORS_CREDENTIALS=true cannot be combined with a * entry in CORS_ORIGINS - list the allowed origins');
+  }
+  if (!/^\/[^/?#]/.test(vars.GRAPHQL_ENDPOINT)) {
+    problems.push(`GRAPHQL_ENDPOINT must be a path like /graphql, got "${vars.GRAPHQL_ENDPOINT}"`);
+  }
+  if (vars.WORKER_RESTART_MAX_DELAY_MS < vars.WORKER_RESTART_BASE_DELAY_MS) {
+    problems.push('WORKER_RESTART_MAX_DELAY_MS must be at least WORKER_RESTART_BASE_DELAY_MS');
+  }
+  const unknownAlgorithms = list(vars.AUTH_ALGORITHMS).filter(algorithm => !JWT_ALGORITHMS.includes(algorithm as JwtAlgorithm));
+  if (unknownAlgorithms.length > 0 || list(vars.AUTH_ALGORITHMS).length === 0) {
+    problems.push(`AUTH_ALGORITHMS must list algorithms from ${JWT_ALGORITHMS.join(', ')}, got "${vars.AUTH_ALGORITHMS}"`);
+  }
+  if (vars.SESSION_ENABLED && (vars.SESSION_SECRET ?? '').length < 32) {
+    problems.push('SESSION_ENABLED=true requires a SESSION_SECRET of at least 32 characters');
+  }
+  if (vars.SESSION_ENABLED && !vars.AUTH_ENABLED) {
+    problems.push('SESSION_ENABLED=true requires AUTH_ENABLED=true - session tokens are verified like bearer tokens');
+  }
+  if (vars.SHARED_STORE_URL && !/^rediss?:\/\/[^/]/.test(vars.SHARED_STORE_URL)) {
+    problems.push(`SHARED_STORE_URL must be a redis:// or rediss:// URL, got "${vars.SHARED_STORE_URL}"`);
+  }
+  if (vars.SESSION_ENABLED && isProduction && !vars.SHARED_STORE_URL) {
+    problems.push('SESSION_ENABLED=true requires SHARED_STORE_URL in production - sessions must be visible to every replica and survive restarts');
+  }
+  if (vars.SESSION_COOKIE_SAME_SITE === 'none' && !(vars.SESSION_COOKIE_SECURE ?? isProduction)) {
+    problems.push('SESSION_COOKIE_SAME_SITE=none requires SESSION_COOKIE_SECURE=true');
+  }
+  if (vars.SESSION_ENABLED && vars.CSRF_ENABLED && vars.CSRF_MODE === 'header' && list(vars.CORS_ORIGINS).includes('*')) {
+    problems.push('CSRF_MODE=header cannot be combined with a * entry in CORS_ORIGINS - any site could send the header');
+  }
+  if (vars.TRACING_MAX_QUEUE_SIZE < vars.TRACING_EXPORT_BATCH_SIZE) {
+    problems.push('TRACING_MAX_QUEUE_SIZE must be at least TRACING_EXPORT_BATCH_SIZE');
+  }
+  if (problems.length > 0) {
+    throw new ConfigError(problems);
+  }
+
   return {
+    environment: vars.NODE_ENV,
+    isDevelopment: vars.NODE_ENV === 'development',
+    isProduction,
     server: {
-      nodeEnv: process.env.NODE_ENV || 'development',
-      port: parseInt(process.env.PORT || '4000', 10),
-      host: process.env.HOST || '0.0.0.0',
+      port: vars.PORT,
+      host: vars.HOST,
+      trustProxy: trustProxy(vars.TRUST_PROXY),
     },
     graphql: {
-      endpoint: process.env.GRAPHQL_ENDPOINT || '/graphql',
-      playground: process.env.GRAPHQL_PLAYGROUND === 'true',
+      endpoint: vars.GRAPHQL_ENDPOINT,
+      // GraphiQL is always on in development
+      playground: vars.GRAPHQL_PLAYGROUND || vars.NODE_ENV === 'development',
     },
     assets: {
-      mode: (process.env.ASSETS_MODE as 'development' | 'production') || 'development',
-      cdnUrl: process.env.ASSETS_CDN_URL || 'https://cdn.example.com',
-      localPath: process.env.ASSETS_LOCAL_PATH || './assets',
+      // Enable CDN in production unless explicitly disabled
+      cdnEnabled: vars.CDN_ENABLED ?? isProduction,
+      baseUrl: vars.CDN_BASE_URL,
+      version: vars.BUILD_VERSION,
     },
     services: {
-      userService: process.env.USER_SERVICE_URL || 'http://user-service:8080',
-      productService: process.env.PRODUCT_SERVICE_URL || 'http://product-service:8080',
-      notificationService: process.env.NOTIFICATION_SERVICE_URL || 'http://notification-service:8080',
+      accountService: vars.ACCOUNT_SERVICE_URL,
+      customerService: vars.CUSTOMER_SERVICE_URL,
+      authService: vars.AUTH_SERVICE_URL,
+      userService: vars.USER_SERVICE_URL,
+      productService: vars.PRODUCT_SERVICE_URL,
+      notificationService: vars.NOTIFICATION_SERVICE_URL,
+    },
+    batching: {
+      accountService: vars.ACCOUNT_SERVICE_BATCH_ENABLED,
+      customerService: vars.CUSTOMER_SERVICE_BATCH_ENABLED,
+      maxBatchSize: vars.DATALOADER_MAX_BATCH_SIZE,
     },
     serviceMesh: {
-      serviceName: process.env.SERVICE_NAME || 'conduites-bff',
-      serviceVersion: process.env.SERVICE_VERSION || '1.0.0',
-      clusterName: process.env.CLUSTER_NAME || 'development',
+      serviceName: vars.SERVICE_NAME,
+      serviceVersion: vars.SERVICE_VERSION,
+      clusterName: vars.CLUSTER_NAME,
     },
     healthCheck: {
-      healthPath: process.env.HEALTH_CHECK_PATH || '/health',
-      readinessPath: process.env.READINESS_CHECK_PATH || '/ready',
+      healthPath: vars.HEALTH_CHECK_PATH,
+      readinessPath: vars.READINESS_CHECK_PATH,
+      cacheTtlMs: vars.READINESS_CACHE_TTL_MS,
+      timeoutMs: vars.READINESS_TIMEOUT_MS,
+      optionalServices: list(vars.READINESS_OPTIONAL_SERVICES),
+    },
+    shutdown: {
+      preStopDelayMs: vars.SHUTDOWN_PRE_STOP_DELAY_MS,
+      drainTimeoutMs: vars.SHUTDOWN_DRAIN_TIMEOUT_MS,
+    },
+    supervisor: {
+      workers: vars.WORKERS,
+      restartBaseDelayMs: vars.WORKER_RESTART_BASE_DELAY_MS,
+      restartMaxDelayMs: vars.WORKER_RESTART_MAX_DELAY_MS,
+      crashLimit: vars.WORKER_CRASH_LIMIT,
+      crashWindowMs: vars.WORKER_CRASH_WINDOW_MS,
+    },
+    sharedStore: {
+      url: vars.SHARED_STORE_URL,
+      timeoutMs: vars.SHARED_STORE_TIMEOUT_MS,
+    },
+    middleware: {
+      requestLogger: vars.MIDDLEWARE_REQUEST_LOGGER,
+      serviceMeshHeaders: vars.MIDDLEWARE_SERVICE_MESH_HEADERS,
+      securityHeaders: vars.MIDDLEWARE_SECURITY_HEADERS,
+      cors: vars.MIDDLEWARE_CORS,
+      httpMetrics: vars.MIDDLEWARE_HTTP_METRICS,
+    },
+    metrics: {
+      enabled: vars.METRICS_ENABLED,
+      path: vars.METRICS_PATH,
+      collectTimeoutMs: vars.METRICS_COLLECT_TIMEOUT_MS,
+      maxOperationNames: vars.METRICS_MAX_OPERATION_NAMES,
+    },
+    tracing: {
+      exporter: vars.TRACING_EXPORTER as TracingExporter,
+      otlpEndpoint: vars.TRACING_OTLP_ENDPOINT,
+      exportIntervalMs: vars.TRACING_EXPORT_INTERVAL_MS,
+      maxBatchSize: vars.TRACING_EXPORT_BATCH_SIZE,
+      maxQueueSize: vars.TRACING_MAX_QUEUE_SIZE,
+      exportTimeoutMs: vars.TRACING_EXPORT_TIMEOUT_MS,
     },
     logging: {
-      level: process.env.LOG_LEVEL || 'info',
-      format: process.env.LOG_FORMAT || 'json',
+      level: vars.LOG_LEVEL as LogLevel,
+      format: vars.LOG_FORMAT as LogFormat,
+    },
+    redaction: {
+      enabled: vars.REDACTION_ENABLED,
+      fields: list(vars.REDACT_FIELDS),
+      emailPattern: vars.REDACT_EMAIL_PATTERN,
+      accountNumberPattern: vars.REDACT_ACCOUNT_NUMBER_PATTERN,
     },
     cors: {
-      origin: process.env.CORS_ORIGIN || '*',
-      credentials: process.env.CORS_CREDENTIALS === 'true',
+      origins: list(vars.CORS_ORIGINS),
+      assetOrigins: list(vars.CORS_ASSETS_ORIGINS),
+      credentials: vars.CORS_CREDENTIALS,
+      exposedHeaders: list(vars.CORS_EXPOSED_HEADERS),
+      maxAgeSeconds: vars.CORS_MAX_AGE_SECONDS,
     },
     request: {
-      timeout: parseInt(process.env.REQUEST_TIMEOUT || '30000', 10),
+      timeout: vars.REQUEST_TIMEOUT,
+      retry: {
+        maxRetries: vars.REQUEST_RETRY_MAX,
+        baseDelayMs: vars.REQUEST_RETRY_BASE_DELAY_MS,
+        maxDelayMs: vars.REQUEST_RETRY_MAX_DELAY_MS,
+      },
+    },
+    auth: {
+      enabled: vars.AUTH_ENABLED,
+      required: vars.AUTH_REQUIRED,
+      issuer: vars.AUTH_ISSUER,
+      audience: vars.AUTH_AUDIENCE,
+      algorithms: list(vars.AUTH_ALGORITHMS) as JwtAlgorithm[],
+      jwksPath: vars.AUTH_JWKS_PATH,
+      jwksTimeoutMs: vars.AUTH_JWKS_TIMEOUT_MS,
+      jwksCacheTtlMs: vars.AUTH_JWKS_CACHE_TTL_MS,
+      jwksRefreshCooldownMs: vars.AUTH_JWKS_REFRESH_COOLDOWN_MS,
+      clockToleranceSeconds: vars.AUTH_CLOCK_TOLERANCE_SECONDS,
+      rolesClaim: vars.AUTH_ROLES_CLAIM,
+      customerIdClaim: vars.AUTH_CUSTOMER_ID_CLAIM,
+    },
+    downstreamCredentials: {
+      accountService: credentialPolicy(vars, 'ACCOUNT'),
+      customerService: credentialPolicy(vars, 'CUSTOMER'),
+      userService: credentialPolicy(vars, 'USER'),
+      productService: credentialPolicy(vars, 'PRODUCT'),
+      notificationService: credentialPolicy(vars, 'NOTIFICATION'),
+    },
+    tokenExchange: {
+      path: vars.TOKEN_EXCHANGE_PATH,
+      clientId: vars.TOKEN_EXCHANGE_CLIENT_ID,
+      clientSecret: vars.TOKEN_EXCHANGE_CLIENT_SECRET,
+      expiryMarginSeconds: vars.TOKEN_EXCHANGE_EXPIRY_MARGIN_SECONDS,
+      cacheEnabled: vars.TOKEN_EXCHANGE_CACHE_ENABLED,
+    },
+    session: {
+      enabled: vars.SESSION_ENABLED,
+      secret: vars.SESSION_SECRET,
+      cookieName: vars.SESSION_COOKIE_NAME,
+      // Secure cookies in production unless explicitly disabled
+      cookieSecure: vars.SESSION_COOKIE_SECURE ?? isProduction,
+      cookieSameSite: vars.SESSION_COOKIE_SAME_SITE as SameSite,
+      ttlMs: vars.SESSION_TTL_MS,
+      refreshMarginSeconds: vars.SESSION_REFRESH_MARGIN_SECONDS,
+    },
+    csrf: {
+      enabled: vars.CSRF_ENABLED,
+      mode: vars.CSRF_MODE as CsrfMode,
+      headerName: vars.CSRF_HEADER_NAME,
+      cookieName: vars.CSRF_COOKIE_NAME,
+    },
+    oidc: {
+      clientId: vars.OIDC_CLIENT_ID,
+      clientSecret: vars.OIDC_CLIENT_SECRET,
+      authorizationEndpoint: vars.OIDC_AUTHORIZATION_ENDPOINT,
+      tokenPath: vars.OIDC_TOKEN_PATH,
+      endSessionEndpoint: vars.OIDC_END_SESSION_ENDPOINT,
+      redirectUri: vars.OIDC_REDIRECT_URI,
+      scopes: list(vars.OIDC_SCOPES),
+      postLogoutRedirectUri: vars.OIDC_POST_LOGOUT_REDIRECT_URI,
     },
     rateLimit: {
-      windowMs: parseInt(process.env.RATE_LIMIT_WINDOW_MS || '900000', 10),
-      maxRequests: parseInt(process.env.RATE_LIMIT_MAX_REQUESTS || '100', 10),
+      enabled: vars.RATE_LIMIT_ENABLED,
+      windowMs: vars.RATE_LIMIT_WINDOW_MS,
+      maxRequests: vars.RATE_LIMIT_MAX_REQUESTS,
+      maxRequestsPerIp: vars.RATE_LIMIT_MAX_REQUESTS_PER_IP,
+      exemptClients: list(vars.RATE_LIMIT_EXEMPT_CLIENTS),
+      exemptPaths: list(vars.RATE_LIMIT_EXEMPT_PATHS),
+    },
+    circuitBreaker: {
+      enabled: vars.CIRCUIT_BREAKER_ENABLED,
+      failureRateThreshold: vars.CIRCUIT_BREAKER_FAILURE_RATE,
+      minimumRequests: vars.CIRCUIT_BREAKER_MIN_REQUESTS,
+      windowMs: vars.CIRCUIT_BREAKER_WINDOW_MS,
+      coolDownMs: vars.CIRCUIT_BREAKER_COOLDOWN_MS,
+      halfOpenMaxCalls: vars.CIRCUIT_BREAKER_HALF_OPEN_MAX_CALLS,
     },
   };
-};
+}
+
+/**
+ * Configuration for this process - on an invalid environment, print every
+ * problem and exit, so the server refuses to start
+ * The structured logger is configured from this module, so problems are
+ * written as a log-shaped JSON line directly
+ */
+function loadConfigOrExit(): Config {
+  try {
+    return loadConfig();
+  } catch (error) {
+    if (!(error instanceof ConfigError)) {
+      throw error;
+    }
+    console.error(JSON.stringify({
+      timestamp: new Date().toISOString(),
+      level: 'error',
+      message: 'Invalid configuration - refusing to start',
+      problems: error.problems,
+    }));
+    process.exit(1);
+  }
+}
 
-export const appConfig = getConfig();
\ No newline at end of file
+/**
+ * Application configuration - validated once at startup
+ */
+export const config = loadConfigOrExit();
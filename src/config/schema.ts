@@ -0,0 +1,420 @@
+/**
+ * Declared type of an environment variable
+ * `url` must be an absolute http(s) URL, `port` an integer in 1-65535,
+ * `regex` a valid regular expression source
+ */
+export type VariableType = 'string' | 'integer' | 'number' | 'boolean' | 'url' | 'port' | 'regex';
+
+export interface VariableSpec {
+  type: VariableType;
+  description: string;
+  default?: string;               // Raw default, validated like an environment value
+  requiredInProduction?: boolean; // Default is ignored when NODE_ENV=production
+  values?: readonly string[];     // Allowed values for string variables
+  min?: number;                   // Inclusive lower bound for numeric variables
+  max?: number;                   // Inclusive upper bound for numeric variables
+  aliases?: readonly string[];    // Deprecated names still accepted
+}
+
+// Values of the *_SERVICE_CREDENTIALS variables (CredentialMode in services/credentials.ts)
+const CREDENTIAL_MODES = ['none', 'passthrough', 'exchange', 'static'] as const;
+
+/**
+ * Every environment variable the BFF reads
+ * Add new variables here - config/index.ts only reads validated values
+ */
+export const variables = {
+  // Environment and server
+  NODE_ENV: { type: 'string', default: 'development', description: 'Runtime environment (development, test, production)' },
+  PORT: { type: 'port', default: '4000', description: 'HTTP listen port' },
+  HOST: { type: 'string', default: '0.0.0.0', description: 'HTTP listen address' },
+  TRUST_PROXY: {
+    type: 'string',
+    default: '1',
+    description: 'Express trust proxy: a hop count (default 1 - the mesh sidecar), true, false or comma-separated proxy addresses',
+  },
+  GRAPHQL_ENDPOINT: { type: 'string', default: '/graphql', description: 'GraphQL endpoint path' },
+  GRAPHQL_PLAYGROUND: { type: 'boolean', default: 'false', description: 'Serve GraphiQL outside development' },
+
+  // Assets
+  CDN_ENABLED: { type: 'boolean', description: 'Serve MFE assets from the CDN (defaults to true in production)' },
+  CDN_BASE_URL: {
+    type: 'url',
+    default: 'http://localhost:4000/assets',
+    requiredInProduction: true,
+    aliases: ['ASSETS_CDN_URL'],
+    description: 'CDN base URL for MFE assets',
+  },
+  BUILD_VERSION: { type: 'string', default: 'dev', requiredInProduction: true, description: 'Build version for asset cache busting' },
+
+  // Downstream services
+  ACCOUNT_SERVICE_URL: { type: 'url', default: 'http://account-service:8080', description: 'Account service base URL' },
+  CUSTOMER_SERVICE_URL: { type: 'url', default: 'http://customer-service:8080', description: 'Customer service base URL' },
+  AUTH_SERVICE_URL: { type: 'url', default: 'http://auth-service:8080', description: 'Authentication service base URL' },
+  USER_SERVICE_URL: { type: 'url', default: 'http://user-service:8080', description: 'User service base URL' },
+  PRODUCT_SERVICE_URL: { type: 'url', default: 'http://product-service:8080', description: 'Product service base URL' },
+  NOTIFICATION_SERVICE_URL: { type: 'url', default: 'http://notification-service:8080', description: 'Notification service base URL' },
+
+  // DataLoader batching
+  ACCOUNT_SERVICE_BATCH_ENABLED: { type: 'boolean', default: 'false', description: 'Account service supports GET /accounts?customerIds=' },
+  CUSTOMER_SERVICE_BATCH_ENABLED: { type: 'boolean', default: 'false', description: 'Customer service supports GET /customers?ids=' },
+  DATALOADER_MAX_BATCH_SIZE: { type: 'integer', default: '100', min: 1, description: 'Maximum keys per downstream batch call' },
+
+  // Service mesh identity
+  SERVICE_NAME: { type: 'string', default: 'conduites-bff', description: 'Service name reported in headers and logs' },
+  SERVICE_VERSION: { type: 'string', default: '1.0.0', description: 'Service version reported in headers and logs' },
+  CLUSTER_NAME: { type: 'string', default: 'development', description: 'Cluster the service runs in' },
+
+  // Health checks
+  HEALTH_CHECK_PATH: { type: 'string', default: '/health', description: 'Liveness probe path' },
+  READINESS_CHECK_PATH: { type: 'string', default: '/ready', description: 'Readiness probe path' },
+  READINESS_CACHE_TTL_MS: { type: 'integer', default: '5000', min: 0, description: 'How long downstream health results are reused (ms)' },
+  READINESS_TIMEOUT_MS: { type: 'integer', default: '2000', min: 1, description: 'Timeout for each downstream health probe (ms)' },
+  READINESS_OPTIONAL_SERVICES: {
+    type: 'string',
+    default: 'user-service,product-service,notification-service',
+    description: 'Comma-separated downstreams that do not fail readiness when down',
+  },
+
+  // Graceful shutdown
+  SHUTDOWN_PRE_STOP_DELAY_MS: {
+    type: 'integer',
+    default: '5000',
+    min: 0,
+    description: 'Time to keep serving after SIGTERM while readiness fails (ms)',
+  },
+  SHUTDOWN_DRAIN_TIMEOUT_MS: { type: 'integer', default: '20000', min: 0, description: 'Deadline for in-flight requests once listening stops (ms)' },
+
+  // Cluster supervisor
+  WORKERS: { type: 'integer', min: 1, description: 'Worker processes to run (default: cgroup CPU quota, else CPU count)' },
+  WORKER_RESTART_BASE_DELAY_MS: { type: 'integer', default: '1000', min: 0, description: 'Delay before replacing the first crashed worker (ms)' },
+  WORKER_RESTART_MAX_DELAY_MS: { type: 'integer', default: '30000', min: 0, description: 'Upper bound for the doubling restart delay (ms)' },
+  WORKER_CRASH_LIMIT: { type: 'integer', default: '5', min: 1, description: 'Crashes within the window after which the primary gives up and exits' },
+  WORKER_CRASH_WINDOW_MS: { type: 'integer', default: '60000', min: 1, description: 'Sliding window for counting worker crashes (ms)' },
+
+  // Cluster shared store
+  SHARED_STORE_URL: {
+    type: 'string',
+    description: 'redis:// or rediss:// URL of a Redis-compatible store shared by every pod - the cluster primary hosts the store when unset',
+  },
+  SHARED_STORE_TIMEOUT_MS: { type: 'integer', default: '1000', min: 1, description: 'Timeout for each shared store call (ms)' },
+
+  // Middleware pipeline
+  MIDDLEWARE_REQUEST_LOGGER: { type: 'boolean', default: 'true', description: 'Log every request and its completion' },
+  MIDDLEWARE_SERVICE_MESH_HEADERS: { type: 'boolean', default: 'true', description: 'Add service identity and echo trace headers' },
+  MIDDLEWARE_SECURITY_HEADERS: { type: 'boolean', default: 'true', description: 'Add security response headers' },
+  MIDDLEWARE_CORS: { type: 'boolean', default: 'true', description: 'Handle CORS headers and preflight requests' },
+  MIDDLEWARE_HTTP_METRICS: { type: 'boolean', default: 'true', description: 'Record request counts and latency by route and status' },
+
+  // Prometheus metrics
+  METRICS_ENABLED: { type: 'boolean', default: 'true', description: 'Expose Prometheus metrics' },
+  METRICS_PATH: { type: 'string', default: '/metrics', description: 'Prometheus scrape path' },
+  METRICS_COLLECT_TIMEOUT_MS: { type: 'integer', default: '1000', min: 1, description: 'Time the primary waits for worker snapshots on a scrape (ms)' },
+  METRICS_MAX_OPERATION_NAMES: { type: 'integer', default: '200', min: 0, description: 'Distinct GraphQL operation names recorded per worker; later ones are labelled "other"' },
+
+  // Distributed tracing
+  TRACING_EXPORTER: {
+    type: 'string',
+    default: 'none',
+    values: ['none', 'otlp', 'console'],
+    description: 'Span exporter - otlp posts to a collector, console prints spans, none only forwards trace headers',
+  },
+  TRACING_OTLP_ENDPOINT: { type: 'url', default: 'http://otel-collector:4318/v1/traces', description: 'OTLP/HTTP traces endpoint of the collector' },
+  TRACING_EXPORT_INTERVAL_MS: { type: 'integer', default: '5000', min: 1, description: 'Maximum time finished spans wait before export (ms)' },
+  TRACING_EXPORT_BATCH_SIZE: { type: 'integer', default: '512', min: 1, description: 'Spans per OTLP export request' },
+  TRACING_MAX_QUEUE_SIZE: { type: 'integer', default: '2048', min: 1, description: 'Spans buffered for export - further spans are dropped' },
+  TRACING_EXPORT_TIMEOUT_MS: { type: 'integer', default: '10000', min: 1, description: 'Timeout for one OTLP export request (ms)' },
+
+  // Logging
+  LOG_LEVEL: { type: 'string', default: 'info', values: ['debug', 'info', 'warn', 'error'], description: 'Minimum log level' },
+  LOG_FORMAT: { type: 'string', default: 'json', values: ['json', 'pretty'], description: 'Log output format - one JSON object per line, or pretty for local development' },
+
+  // PII redaction for logs, downstream error bodies and GraphQL errors
+  REDACTION_ENABLED: { type: 'boolean', default: 'true', description: 'Mask PII before it is logged or returned in errors' },
+  REDACT_FIELDS: {
+    type: 'string',
+    default: 'customer.name,customers.name,email,accountNumber,balance',
+    description: 'Comma-separated field paths to mask - a path matches the end of the key path, e.g. email or customer.name',
+  },
+  REDACT_EMAIL_PATTERN: {
+    type: 'regex',
+    default: '[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\\.[A-Za-z]{2,}',
+    description: 'Emails masked inside any logged or returned text',
+  },
+  REDACT_ACCOUNT_NUMBER_PATTERN: {
+    type: 'regex',
+    default: '\\bACC-[A-Za-z0-9]+(?:-[A-Za-z0-9]+)*',
+    description: 'Account numbers masked inside any logged or returned text',
+  },
+
+  // CORS
+  CORS_ORIGINS: {
+    type: 'string',
+    default: '*',
+    aliases: ['CORS_ORIGIN'],
+    description: 'Comma-separated origins allowed to call the API: exact, https://*.example.com or /regex/',
+  },
+  CORS_ASSETS_ORIGINS: { type: 'string', default: '*', description: 'Comma-separated origins allowed to load /assets' },
+  CORS_CREDENTIALS: { type: 'boolean', default: 'false', description: 'Allow credentialed CORS requests to the API' },
+  CORS_EXPOSED_HEADERS: { type: 'string', default: 'X-Request-Id', description: 'Comma-separated response headers readable by browsers' },
+  CORS_MAX_AGE_SECONDS: { type: 'integer', default: '600', min: 0, description: 'How long browsers may cache a preflight response' },
+
+  // Downstream requests
+  REQUEST_TIMEOUT: { type: 'integer', default: '30000', min: 1, description: 'Downstream request timeout (ms)' },
+  REQUEST_RETRY_MAX: { type: 'integer', default: '2', min: 0, description: 'Retries for idempotent downstream calls' },
+  REQUEST_RETRY_BASE_DELAY_MS: { type: 'integer', default: '100', min: 0, description: 'Base retry backoff (ms)' },
+  REQUEST_RETRY_MAX_DELAY_MS: { type: 'integer', default: '2000', min: 0, description: 'Maximum retry backoff (ms)' },
+
+  // Bearer token authentication on /graphql
+  AUTH_ENABLED: { type: 'boolean', default: 'true', description: 'Verify bearer tokens on /graphql' },
+  AUTH_REQUIRED: { type: 'boolean', default: 'false', description: 'Reject /graphql requests without a bearer token' },
+  AUTH_ISSUER: { type: 'string', default: 'http://auth-service:8080', description: 'Expected iss claim - required in production while AUTH_ENABLED=true' },
+  AUTH_AUDIENCE: { type: 'string', default: 'conduites-bff', description: 'Audience (aud claim) tokens must be issued for' },
+  AUTH_ALGORITHMS: { type: 'string', default: 'RS256', description: 'Comma-separated accepted signature algorithms (RS*, PS*, ES*, EdDSA)' },
+  AUTH_JWKS_PATH: { type: 'string', default: '/.well-known/jwks.json', description: 'JWKS path on the auth service' },
+  AUTH_JWKS_TIMEOUT_MS: { type: 'integer', default: '3000', min: 1, description: 'JWKS fetch timeout (ms) - not retried' },
+  AUTH_JWKS_CACHE_TTL_MS: { type: 'integer', default: '600000', min: 0, description: 'How long fetched signing keys are reused (ms)' },
+  AUTH_JWKS_REFRESH_COOLDOWN_MS: {
+    type: 'integer',
+    default: '30000',
+    min: 0,
+    description: 'Minimum time between JWKS refetches triggered by an unknown key ID (ms)',
+  },
+  AUTH_CLOCK_TOLERANCE_SECONDS: { type: 'integer', default: '30', min: 0, description: 'Allowed clock skew for exp and nbf' },
+  AUTH_ROLES_CLAIM: { type: 'string', default: 'roles', description: 'Claim holding the roles - dotted paths such as realm_access.roles are allowed' },
+  AUTH_CUSTOMER_ID_CLAIM: { type: 'string', default: 'customer_id', description: 'Claim holding the customer ID' },
+
+  // End-user credentials on downstream calls
+  ACCOUNT_SERVICE_CREDENTIALS: { type: 'string', default: 'none', values: CREDENTIAL_MODES, description: 'Authorization sent to the account service' },
+  CUSTOMER_SERVICE_CREDENTIALS: { type: 'string', default: 'none', values: CREDENTIAL_MODES, description: 'Authorization sent to the customer service' },
+  USER_SERVICE_CREDENTIALS: { type: 'string', default: 'none', values: CREDENTIAL_MODES, description: 'Authorization sent to the user service' },
+  PRODUCT_SERVICE_CREDENTIALS: { type: 'string', default: 'none', values: CREDENTIAL_MODES, description: 'Authorization sent to the product service' },
+  NOTIFICATION_SERVICE_CREDENTIALS: {
+    type: 'string',
+    default: 'none',
+    values: CREDENTIAL_MODES,
+    description: 'Authorization sent to the notification service',
+  },
+  ACCOUNT_SERVICE_TOKEN: { type: 'string', description: 'Static bearer token for the account service' },
+  CUSTOMER_SERVICE_TOKEN: { type: 'string', description: 'Static bearer token for the customer service' },
+  USER_SERVICE_TOKEN: { type: 'string', description: 'Static bearer token for the user service' },
+  PRODUCT_SERVICE_TOKEN: { type: 'string', description: 'Static bearer token for the product service' },
+  NOTIFICATION_SERVICE_TOKEN: { type: 'string', description: 'Static bearer token for the notification service' },
+  ACCOUNT_SERVICE_TOKEN_AUDIENCE: { type: 'string', default: 'account-service', description: 'Audience requested when exchanging tokens for the account service' },
+  CUSTOMER_SERVICE_TOKEN_AUDIENCE: { type: 'string', default: 'customer-service', description: 'Audience requested when exchanging tokens for the customer service' },
+  USER_SERVICE_TOKEN_AUDIENCE: { type: 'string', default: 'user-service', description: 'Audience requested when exchanging tokens for the user service' },
+  PRODUCT_SERVICE_TOKEN_AUDIENCE: { type: 'string', default: 'product-service', description: 'Audience requested when exchanging tokens for the product service' },
+  NOTIFICATION_SERVICE_TOKEN_AUDIENCE: {
+    type: 'string',
+    default: 'notification-service',
+    description: 'Audience requested when exchanging tokens for the notification service',
+  },
+
+  // Token exchange (RFC 8693) on the auth service
+  TOKEN_EXCHANGE_PATH: { type: 'string', default: '/oauth/token', description: 'Token endpoint path on the auth service' },
+  TOKEN_EXCHANGE_CLIENT_ID: { type: 'string', default: 'conduites-bff', description: 'Client ID the BFF exchanges tokens as' },
+  TOKEN_EXCHANGE_CLIENT_SECRET: { type: 'string', description: 'Client secret for HTTP Basic client authentication - omitted when unset' },
+  TOKEN_EXCHANGE_EXPIRY_MARGIN_SECONDS: {
+    type: 'integer',
+    default: '30',
+    min: 0,
+    description: 'Exchanged tokens are renewed this long before they expire',
+  },
+  TOKEN_EXCHANGE_CACHE_ENABLED: {
+    type: 'boolean',
+    default: 'true',
+    description: 'Cache exchanged tokens on the shared store until shortly before they expire',
+  },
+
+  // Browser sessions (/auth/login, /auth/callback, /auth/logout)
+  SESSION_ENABLED: { type: 'boolean', default: 'false', description: 'Cookie sessions with the OIDC authorization code flow' },
+  SESSION_SECRET: { type: 'string', description: 'Secret the session cookies are encrypted with - at least 32 characters' },
+  SESSION_COOKIE_NAME: { type: 'string', default: 'bff_session', description: 'Session cookie name' },
+  SESSION_COOKIE_SECURE: { type: 'boolean', description: 'Send session cookies over HTTPS only (defaults to true in production)' },
+  SESSION_COOKIE_SAME_SITE: { type: 'string', default: 'lax', values: ['lax', 'strict', 'none'], description: 'SameSite attribute of the session cookie' },
+  SESSION_TTL_MS: { type: 'integer', default: '28800000', min: 1, description: 'Session lifetime from login - refreshes do not extend it (ms)' },
+  SESSION_REFRESH_MARGIN_SECONDS: {
+    type: 'integer',
+    default: '60',
+    min: 0,
+    description: 'Refresh the session access token this long before it expires',
+  },
+
+  // CSRF protection for cookie-authenticated /graphql requests
+  CSRF_ENABLED: { type: 'boolean', default: 'true', description: 'Check unsafe /graphql requests that carry the session cookie (with SESSION_ENABLED)' },
+  CSRF_MODE: {
+    type: 'string',
+    default: 'token',
+    values: ['token', 'header'],
+    description: 'token: double-submit signed token; header: any value in CSRF_HEADER_NAME (needs a CORS allowlist)',
+  },
+  CSRF_HEADER_NAME: { type: 'string', default: 'X-CSRF-Token', description: 'Request header carrying the CSRF token' },
+  CSRF_COOKIE_NAME: { type: 'string', default: 'bff_csrf', description: 'Cookie holding the double-submit token' },
+
+  // OIDC client for browser sessions
+  OIDC_CLIENT_ID: { type: 'string', default: 'conduites-bff', description: 'Client ID registered with the auth service' },
+  OIDC_CLIENT_SECRET: { type: 'string', description: 'Client secret for HTTP Basic client authentication - omitted when unset' },
+  OIDC_AUTHORIZATION_ENDPOINT: {
+    type: 'url',
+    default: 'http://auth-service:8080/oauth/authorize',
+    description: 'Authorization endpoint browsers are redirected to',
+  },
+  OIDC_TOKEN_PATH: { type: 'string', default: '/oauth/token', description: 'Token endpoint path on the auth service' },
+  OIDC_END_SESSION_ENDPOINT: { type: 'url', description: 'End session endpoint browsers are sent to on logout - logout is local when unset' },
+  OIDC_REDIRECT_URI: { type: 'url', default: 'http://localhost:4000/auth/callback', description: 'Public URL of /auth/callback' },
+  OIDC_SCOPES: { type: 'string', default: 'openid,profile,offline_access', description: 'Comma-separated scopes to request' },
+  OIDC_POST_LOGOUT_REDIRECT_URI: { type: 'string', default: '/', description: 'Where browsers land after logout' },
+
+  // Rate limiting
+  RATE_LIMIT_ENABLED: { type: 'boolean', default: 'true', description: 'Rate limit /graphql per client' },
+  RATE_LIMIT_WINDOW_MS: { type: 'integer', default: '900000', min: 1, description: 'Rate limit window (ms)' },
+  RATE_LIMIT_MAX_REQUESTS: { type: 'integer', default: '100', min: 1, description: 'Requests allowed per window' },
+  RATE_LIMIT_MAX_REQUESTS_PER_IP: {
+    type: 'integer',
+    default: '1000',
+    min: 1,
+    description: 'Requests allowed per window from one IP, counted before authentication - covers rejected tokens',
+  },
+  RATE_LIMIT_EXEMPT_CLIENTS: { type: 'string', default: '', description: 'Comma-separated client IPs or subjects that are never limited' },
+  RATE_LIMIT_EXEMPT_PATHS: { type: 'string', default: '', description: 'Comma-separated path prefixes that are never limited' },
+
+  // Circuit breaker
+  CIRCUIT_BREAKER_ENABLED: { type: 'boolean', default: 'true', description: 'Enable per-downstream circuit breakers' },
+  CIRCUIT_BREAKER_FAILURE_RATE: { type: 'number', default: '0.5', min: 0, max: 1, description: 'Failure ratio that opens a circuit' },
+  CIRCUIT_BREAKER_MIN_REQUESTS: { type: 'integer', default: '10', min: 1, description: 'Calls in the window before the rate is evaluated' },
+  CIRCUIT_BREAKER_WINDOW_MS: { type: 'integer', default: '30000', min: 1, description: 'Rolling failure-rate window (ms)' },
+  CIRCUIT_BREAKER_COOLDOWN_MS: { type: 'integer', default: '15000', min: 1, description: 'Time a circuit stays open (ms)' },
+  CIRCUIT_BREAKER_HALF_OPEN_MAX_CALLS: { type: 'integer', default: '1', min: 1, description: 'Concurrent half-open probe calls' },
+} satisfies Record<string, VariableSpec>;
+
+type Variables = typeof variables;
+
+type ValueType<T extends VariableType> =
+  T extends 'integer' | 'number' | 'port' ? number :
+  T extends 'boolean' ? boolean :
+  string;
+
+/**
+ * Validated environment - variables without a default may be undefined
+ */
+export type Environment = {
+  [K in keyof Variables]: Variables[K] extends { default: string }
+    ? ValueType<Variables[K]['type']>
+    : ValueType<Variables[K]['type']> | undefined;
+};
+
+/**
+ * Thrown when the environment fails validation
+ * Lists every problem so they can all be fixed in one deploy
+ */
+export class ConfigError extends Error {
+  readonly problems: string[];
+
+  constructor(problems: string[]) {
+    super(`Invalid configuration:\n${problems.map(problem => `  - ${problem}`).join('\n')}`);
+    this.name = 'ConfigError';
+    this.problems = problems;
+  }
+}
+
+/**
+ * Parse one raw value against its spec
+ * @returns The typed value, or a problem description
+ */
+function parseValue(spec: VariableSpec, raw: string): { value: string | number | boolean } | { problem: string } {
+  switch (spec.type) {
+    case 'boolean': {
+      const normalized = raw.toLowerCase();
+      if (normalized === 'true' || normalized === '1') return { value: true };
+      if (normalized === 'false' || normalized === '0') return { value: false };
+      return { problem: `must be true or false, got "${raw}"` };
+    }
+    case 'integer':
+    case 'port':
+    case 'number': {
+      const value = Number(raw);
+      const integer = spec.type !== 'number';
+      if (raw.trim() === '' || !Number.isFinite(value) || (integer && !Number.isInteger(value))) {
+        return { problem: `must be ${integer ? 'an integer' : 'a number'}, got "${raw}"` };
+      }
+      const min = spec.type === 'port' ? 1 : spec.min;
+      const max = spec.type === 'port' ? 65535 : spec.max;
+      if (min !== undefined && value < min) return { problem: `must be at least ${min}, got ${value}` };
+      if (max !== undefined && value > max) return { problem: `must be at most ${max}, got ${value}` };
+      return { value };
+    }
+    case 'url': {
+      try {
+        const url = new URL(raw);
+        if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+          return { problem: `must be an http(s) URL, got "${raw}"` };
+        }
+        return { value: raw.replace(/\/+$/, '') };
+      } catch {
+        return { problem: `must be an absolute URL, got "${raw}"` };
+      }
+    }
+    case 'regex': {
+      try {
+        new RegExp(raw);
+        return { value: raw };
+      } catch {
+        return { problem: `must be a valid regular expression, got "${raw}"` };
+      }
+    }
+    default:
+      if (spec.values && !spec.values.includes(raw)) {
+        return { problem: `must be one of ${spec.values.join(', ')}, got "${raw}"` };
+      }
+      return { value: raw };
+  }
+}
+
+/**
+ * Validate the environment against the declared variables
+ * Empty strings count as unset, so `.env.example` placeholders fall back to defaults.
+ * Invalid or missing variables take their default in `vars`, so checks that span
+ * variables can still run and be reported with them.
+ * @param env - Raw environment (process.env by default)
+ * @returns Typed values and every invalid or missing variable
+ */
+export function validateEnvironment(env: NodeJS.ProcessEnv = process.env): { vars: Environment; problems: string[] } {
+  const isProduction = env.NODE_ENV === 'production';
+  const values: Record<string, string | number | boolean | undefined> = {};
+  const problems: string[] = [];
+
+  for (const [name, spec] of Object.entries(variables) as Array<[string, VariableSpec]>) {
+    const source = [name, ...(spec.aliases ?? [])].find(key => env[key] !== undefined && env[key] !== '');
+    const raw = source ? env[source]! : undefined;
+    values[name] = spec.default === undefined ? undefined : (parseValue(spec, spec.default) as { value: string | number | boolean }).value;
+
+    if (raw === undefined) {
+      if (isProduction && spec.requiredInProduction) {
+        problems.push(`${name} is required in production (${spec.description})`);
+      }
+      continue;
+    }
+
+    const result = parseValue(spec, raw);
+    if ('problem' in result) {
+      problems.push(`${source} ${result.problem}`);
+    } else {
+      values[name] = result.value;
+    }
+  }
+
+  return { vars: values as Environment, problems };
+}
+
+/**
+ * Validate the environment against the declared variables
+ * @param env - Raw environment (process.env by default)
+ * @throws ConfigError listing every invalid or missing variable
+ */
+export function parseEnvironment(env: NodeJS.ProcessEnv = process.env): Environment {
+  const { vars, problems } = validateEnvironment(env);
+  if (problems.length > 0) {
+    throw new ConfigError(problems);
+  }
+  return vars;
+}
@@ -1,19 +1,38 @@
 import express from 'express';
 import { createYoga } from 'graphql-yoga';
 import cluster from 'cluster';
-import { cpus } from 'os';
-import { randomUUID } from 'crypto';
-import { config } from './config/environment.js';
+import { config } from './config/index.js';
 import { schema } from './schema/index.js';
+import { createContext } from './schema/context.js';
+import { maskError } from './schema/errors.js';
+import { useOperationMetrics } from './schema/operationMetrics.js';
+import { useTracing } from './schema/tracing.js';
 import { assetMiddleware } from './middleware/assetMiddleware.js';
-import type { AssetConfig } from './config/environment.js';
+import { buildMiddlewarePipeline } from './middleware/pipeline.js';
+import { healthCheck, readinessCheck } from './middleware/health.js';
+import { healthCheckMiddleware } from './middleware/healthCheck.js';
+import { errorHandler, notFoundHandler } from './middleware/errorHandler.js';
+import { ipRateLimiter, rateLimiter } from './middleware/rateLimit.js';
+import { authenticate } from './middleware/authenticate.js';
+import { sessionRoutes } from './middleware/session.js';
+import { csrf } from './middleware/csrf.js';
+import { metricsEndpoint } from './middleware/metrics.js';
+import { hostSharedStore } from './services/sharedStore.js';
+import { hostMetrics, metrics, registerProcessMetrics } from './services/metrics.js';
+import { startTracing, tracer } from './services/tracing.js';
+import { createGracefulShutdown, createPrimaryShutdown } from './services/lifecycle.js';
+import { ClusterSupervisor, broadcastStatus, receiveStatus, resolveWorkerCount } from './services/supervisor.js';
+import { logger } from './services/logger.js';
+import type { LogLevel } from './services/logger.js';
+import type { AssetConfig } from './config/index.js';
 
 /**
  * Generate HTML document with proper asset loading based on configuration
  * @param assetConfig - Asset configuration for CDN vs local assets
+ * @param csrfConfig - Header and token MFEs send with GraphQL requests, when CSRF protection is on
  * @returns Complete HTML document as string
  */
-function generateIndexHtml(assetConfig: AssetConfig): string {
+function generateIndexHtml(assetConfig: AssetConfig, csrfConfig?: { headerName: string; token: string }): string {
   const cssUrl = assetConfig.cdnEnabled 
     ? `${assetConfig.baseUrl}/${assetConfig.version}/mfe-accounts.css`
     : '/assets/mfe-accounts.css';
@@ -30,7 +49,8 @@ function generateIndexHtml(assetConfig: AssetConfig): string {
     <title>Graph Conduit Accounts</title>
     <link rel="stylesheet" href="${cssUrl}">
     <script>
-        window.ASSET_CONFIG = ${JSON.stringify(assetConfig)};
+        window.ASSET_CONFIG = ${JSON.stringify(assetConfig)};${csrfConfig ? `
+        window.CSRF_CONFIG = ${JSON.stringify(csrfConfig)};` : ''}
     </script>
 </head>
 <body>
@@ -42,24 +62,44 @@ function generateIndexHtml(assetConfig: AssetConfig): string {
 
 /**
  * Health check endpoints for Kubernetes liveness/readiness probes
+ * Liveness never depends on downstreams; readiness does
  */
 function setupHealthChecks(app: express.Application) {
-  const healthResponse = {
-    status: 'healthy',
-    timestamp: () => new Date().toISOString(),
-    environment: config.environment,
-    version: config.assets.version,
-  };
+  // Liveness probe
+  app.get(config.healthCheck.healthPath, healthCheck);
 
-  // Standard health check endpoint
-  app.get('/health', (req, res) => {
-    res.json({ ...healthResponse, timestamp: healthResponse.timestamp() });
-  });
+  // Spring Boot Actuator style health endpoint - also verifies the schema loaded
+  app.get('/actuator/health', healthCheckMiddleware);
 
-  // Spring Boot Actuator style health endpoint
-  app.get('/actuator/health', (req, res) => {
-    res.json({ ...healthResponse, timestamp: healthResponse.timestamp() });
-  });
+  // Readiness probe - checks downstream dependencies
+  app.get(config.healthCheck.readinessPath, readinessCheck);
+}
+
+/**
+ * Browser login with the auth service (OIDC authorization code + PKCE)
+ * The resulting session cookie authenticates /graphql like a bearer token
+ * Logout is POST only and CSRF-checked like /graphql, so no other site can end the session
+ */
+function setupSessionRoutes(app: express.Application) {
+  app.get('/auth/login', sessionRoutes.login);
+  app.get('/auth/callback', sessionRoutes.callback);
+  if (config.csrf.enabled) {
+    app.post('/auth/logout', csrf.protect, sessionRoutes.logout);
+  } else {
+    app.post('/auth/logout', sessionRoutes.logout);
+  }
+}
+
+/**
+ * Route Yoga's log calls (a message or error, then arbitrary values) through
+ * the request's logger
+ */
+function yogaLog(level: LogLevel) {
+  return (message: unknown, ...details: unknown[]) => {
+    const error = [message, ...details].find(detail => detail instanceof Error);
+    const fields = error ? { error } : details.length > 0 ? { details } : undefined;
+    logger.forRequest()[level](message instanceof Error ? message.message : String(message), fields);
+  };
 }
 
 /**
@@ -68,16 +108,33 @@ function setupHealthChecks(app: express.Application) {
 function createGraphQLServer() {
   return createYoga({
     schema,
-    graphqlEndpoint: '/graphql',
+    graphqlEndpoint: config.graphql.endpoint,
+    
+    // Fresh context (and DataLoaders) per request
+    context: createContext,
+
+    // Downstream error codes reach clients; PII never does
+    maskedErrors: { maskError },
+
+    // Operation counts and durations for /metrics; operation and resolver spans
+    plugins: [
+      ...(config.metrics.enabled ? [useOperationMetrics({ maxOperationNames: config.metrics.maxOperationNames })] : []),
+      ...(tracer.enabled ? [useTracing()] : []),
+    ],
     
-    // Environment-based logging configuration
-    logging: config.isDevelopment,
+    // Yoga's own messages go through the structured logger (and LOG_LEVEL)
+    logging: {
+      debug: yogaLog('debug'),
+      info: yogaLog('info'),
+      warn: yogaLog('warn'),
+      error: yogaLog('error'),
+    },
     
     // Disable landing page (this is a thin BFF, not a public GraphQL API)
     landingPage: false,
     
-    // Enable GraphiQL only in development
-    graphiql: config.isDevelopment,
+    // GraphiQL in development, elsewhere only when GRAPHQL_PLAYGROUND=true
+    graphiql: config.graphql.playground,
   });
 }
 
@@ -85,17 +142,27 @@ function createGraphQLServer() {
  * Setup SPA fallback - serve index.html or generate HTML based on CDN mode
  */
 function setupSpaFallback(app: express.Application) {
-  app.get('*', (req, res) => {
-    // Skip API routes and assets
-    if (req.path.startsWith('/graphql') || 
+  const csrfActive = config.session.enabled && config.csrf.enabled;
+
+  app.get('*', (req, res, next) => {
+    // Unmatched API routes and assets fall through to the 404 handler
+    if (req.path.startsWith(config.graphql.endpoint) || 
         req.path.startsWith('/health') || 
         req.path.startsWith('/actuator') ||
+        req.path.startsWith('/auth') ||
         req.path.startsWith('/assets')) {
-      return res.status(404).json({ error: 'Not Found' });
+      return next();
     }
 
-    // Generate HTML with proper asset configuration
-    const html = generateIndexHtml(config.assets);
+    // Generate HTML with proper asset configuration - and a per-browser CSRF
+    // token, so the page must not be cached
+    if (csrfActive) {
+      res.setHeader('Cache-Control', 'no-store');
+    }
+    const html = generateIndexHtml(
+      config.assets,
+      csrfActive ? { headerName: config.csrf.headerName, token: csrf.issueToken(req, res) } : undefined
+    );
     res.send(html);
   });
 }
@@ -106,80 +173,150 @@ function setupSpaFallback(app: express.Application) {
  */
 async function startServer(): Promise<void> {
   try {
+    // Span export - must start before the GraphQL server is created
+    startTracing();
+
     const app = express();
 
-    // Trust proxy headers for service mesh/load balancer
-    app.set('trust proxy', true);
+    // Trust proxy headers for service mesh/load balancer - decides req.ip for rate limiting
+    app.set('trust proxy', config.server.trustProxy);
 
-    // Basic middleware
-    app.use(express.json());
+    // Ordered middleware pipeline - every route below sits behind it
+    const pipeline = buildMiddlewarePipeline();
+    for (const stage of pipeline) {
+      app.use(stage.handler);
+    }
 
-    // Health check endpoints (must be first for K8s probes)
+    // Health check endpoints (first routes for K8s probes)
     setupHealthChecks(app);
 
+    // Prometheus scrape endpoint - aggregated across workers
+    if (config.metrics.enabled) {
+      registerProcessMetrics(metrics);
+      app.get(config.metrics.path, metricsEndpoint);
+    }
+
     // Asset serving middleware
     app.use(assetMiddleware);
 
+    // Session login routes
+    if (config.session.enabled) {
+      setupSessionRoutes(app);
+    }
+
+    // Per-IP limit ahead of token verification - requests authentication rejects are counted too
+    if (config.rateLimit.enabled && config.auth.enabled) {
+      app.use(config.graphql.endpoint, ipRateLimiter);
+    }
+
+    // Bearer token (or session) verification - before the per-client rate limiter, which keys on the subject
+    // CSRF checks come first, so a forged request never refreshes a session
+    if (config.auth.enabled) {
+      if (config.session.enabled) {
+        if (config.csrf.enabled) {
+          app.use(config.graphql.endpoint, csrf.protect);
+        }
+        app.use(config.graphql.endpoint, sessionRoutes.loadSession);
+      }
+      app.use(config.graphql.endpoint, authenticate);
+    }
+
+    // Per-client rate limit on GraphQL
+    if (config.rateLimit.enabled) {
+      app.use(config.graphql.endpoint, rateLimiter);
+    }
+
     // GraphQL endpoint
     const yoga = createGraphQLServer();
-    app.use('/graphql', yoga);
+    app.use(config.graphql.endpoint, yoga);
 
     // SPA fallback for micro-frontend routing
     setupSpaFallback(app);
 
+    // Unmatched routes and errors - must be registered last
+    app.use(notFoundHandler);
+    app.use(errorHandler);
+
     // Start server
-    const server = app.listen(config.port, () => {
-      const workerId = cluster.worker?.id || 'master';
-      console.log(`🚀 Worker ${workerId}: Server ready at http://localhost:${config.port}`);
-      console.log(`📊 GraphQL endpoint: http://localhost:${config.port}/graphql`);
-      
-      if (config.isDevelopment) {
-        console.log(`🎮 GraphiQL: http://localhost:${config.port}/graphql`);
-      }
-      
-      console.log(`💓 Health checks: /health, /actuator/health`);
-      console.log(`🏗️  Environment: ${config.environment}`);
-      console.log(`📦 CDN enabled: ${config.assets.cdnEnabled}`);
+    const server = app.listen(config.server.port, () => {
+      logger.info('Server ready', {
+        url: `http://localhost:${config.server.port}`,
+        graphqlEndpoint: config.graphql.endpoint,
+        graphiql: config.graphql.playground,
+        healthChecks: [config.healthCheck.healthPath, '/actuator/health', config.healthCheck.readinessPath],
+        metrics: config.metrics.enabled ? config.metrics.path : undefined,
+        tracing: config.tracing.exporter,
+        auth: config.auth.enabled ? (config.auth.required ? 'required' : 'optional') : 'disabled',
+        sessions: config.session.enabled,
+        csrf: config.session.enabled && config.csrf.enabled ? config.csrf.mode : 'disabled',
+        // Modes only - static tokens stay out of the log
+        downstreamCredentials: Object.fromEntries(
+          Object.entries(config.downstreamCredentials).map(([service, policy]) => [service, policy.mode])
+        ),
+        middleware: pipeline.map(stage => stage.name),
+        environment: config.environment,
+        cdnEnabled: config.assets.cdnEnabled,
+      });
     });
 
-    // Graceful shutdown
-    const shutdown = () => {
-      console.log(`⏹️  Worker ${cluster.worker?.id || 'master'}: Shutting down gracefully...`);
-      server.close(() => {
-        console.log(`✅ Worker ${cluster.worker?.id || 'master'}: Server closed`);
-        process.exit(0);
-      });
-    };
+    // Graceful shutdown - fail readiness, wait for the pre-stop delay, then drain
+    // Queued spans are exported before the process exits
+    const shutdown = createGracefulShutdown(server, config.shutdown, code => {
+      void tracer.shutdown().finally(() => process.exit(code));
+    });
 
     process.on('SIGTERM', shutdown);
     process.on('SIGINT', shutdown);
 
+    // Cluster status pushed by the primary, reported on the liveness endpoint
+    if (cluster.isWorker) {
+      receiveStatus();
+    }
+
   } catch (error) {
-    console.error('❌ Failed to start server:', error);
+    logger.error('Failed to start server', { error });
     process.exit(1);
   }
 }
 
 /**
- * Production clustering - fork workers for each CPU core
+ * Production clustering - fork workers for the CPUs the container may use
  * Development runs single process for easier debugging
  */
 if (config.isProduction && cluster.isPrimary) {
-  const numCPUs = cpus().length;
-  
-  console.log(`🏭 Master process ${process.pid} starting ${numCPUs} workers`);
-  
-  // Fork workers
-  for (let i = 0; i < numCPUs; i++) {
-    cluster.fork();
+  const workers = resolveWorkerCount(config.supervisor.workers);
+
+  logger.info('Primary starting workers', { workers });
+
+  // Rate limit counters, sessions and caches shared by every worker over IPC -
+  // unless every process reaches a Redis-compatible store directly
+  if (!config.sharedStore.url) {
+    hostSharedStore();
   }
 
-  // Handle worker death
-  cluster.on('exit', (worker, code, signal) => {
-    console.log(`⚰️  Worker ${worker.process.pid} died (${signal || code}). Restarting...`);
-    cluster.fork();
+  // Answer metric scrapes with every worker's metrics
+  if (config.metrics.enabled) {
+    hostMetrics();
+  }
+
+  // Forward SIGTERM to workers and exit once they have drained
+  const primaryShutdown = createPrimaryShutdown(config.shutdown);
+
+  // Replace crashed workers with backoff - exit 1 if they keep crashing
+  const supervisor = new ClusterSupervisor({ ...config.supervisor, workers }, {
+    onChange: broadcastStatus,
+    onGiveUp: () => primaryShutdown.stop('crash loop', 1),
   });
 
+  const stop = (signal: string) => {
+    supervisor.stop();
+    primaryShutdown.stop(signal);
+  };
+  process.on('SIGTERM', stop);
+  process.on('SIGINT', stop);
+
+  supervisor.start();
+
 } else {
   // Development: single process, Production: worker process
   startServer();
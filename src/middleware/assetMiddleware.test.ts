@@ -3,7 +3,7 @@ import { Request, Response, NextFunction } from 'express';
 import type { MockedFunction } from 'vitest';
 
 // Mock the config with default values
-vi.mock('../config/environment.js', () => ({
+vi.mock('../config/index.js', () => ({
   config: {
     assets: {
       cdnEnabled: false,
@@ -58,7 +58,7 @@ describe('Asset Middleware', () => {
   describe('CDN Enabled Mode', () => {
     beforeEach(() => {
       // Mock config with CDN enabled
-      vi.doMock('../config/environment.js', () => ({
+      vi.doMock('../config/index.js', () => ({
         config: {
           assets: {
             cdnEnabled: true,
@@ -88,7 +88,7 @@ describe('Asset Middleware', () => {
   describe('CDN Disabled Mode', () => {
     beforeEach(() => {
       // Mock config with CDN disabled
-      vi.doMock('../config/environment.js', () => ({
+      vi.doMock('../config/index.js', () => ({
         config: {
           assets: {
             cdnEnabled: false,
@@ -1,5 +1,5 @@
 import express from 'express';
-import { config } from '../config/environment.js';
+import { config } from '../config/index.js';
 
 /**
  * Asset middleware for serving static assets
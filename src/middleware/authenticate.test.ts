@@ -0,0 +1,130 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { Request, Response } from 'express';
+import { bearerToken, createAuthenticator } from './authenticate.js';
+import { AuthenticationError } from '../services/auth.js';
+import type { Principal } from '../services/auth.js';
+import { getCallerToken } from '../services/credentials.js';
+import { DownstreamUnavailable } from '../services/errors.js';
+
+const request = (authorization?: string): Request =>
+  ({ get: (name: string) => (name === 'Authorization' ? authorization : undefined) } as unknown as Request);
+
+const response = () => {
+  const headers: Record<string, string> = {};
+  const res = {
+    locals: {} as Record<string, unknown>,
+    headers,
+    setHeader: vi.fn((name: string, value: string) => { headers[name] = value; }),
+    status: vi.fn().mockReturnThis(),
+    json: vi.fn().mockReturnThis(),
+  };
+  return res as unknown as Response & { headers: Record<string, string> };
+};
+
+const principal: Principal = {
+  subject: 'user-123',
+  roles: ['customer'],
+  customerId: 'cust1',
+  scopes: [],
+  expiresAt: 0,
+  claims: {},
+};
+
+describe('bearerToken', () => {
+  it('should read the token of a Bearer Authorization header', () => {
+    expect(bearerToken(request('Bearer abc.def.ghi'))).toBe('abc.def.ghi');
+    expect(bearerToken(request('bearer abc'))).toBe('abc');
+    expect(bearerToken(request('Basic dXNlcjpwYXNz'))).toBeUndefined();
+    expect(bearerToken(request())).toBeUndefined();
+  });
+});
+
+describe('Authenticator', () => {
+  it('should store the verified principal for the context and the rate limiter', async () => {
+    const verify = vi.fn().mockResolvedValue(principal);
+    const res = response();
+    const next = vi.fn();
+
+    await createAuthenticator({ verify, required: false })(request('Bearer good'), res, next);
+
+    expect(verify).toHaveBeenCalledWith('good');
+    expect(next).toHaveBeenCalledWith();
+    expect(res.locals).toEqual({ principal, subject: 'user-123', accessToken: 'good' });
+  });
+
+  it('should keep the verified token bound for downstream calls', async () => {
+    let forwarded: string | undefined;
+
+    await createAuthenticator({ verify: async () => principal, required: false })(
+      request('Bearer good'),
+      response(),
+      () => { forwarded = getCallerToken(); },
+    );
+
+    expect(forwarded).toBe('good');
+    expect(getCallerToken()).toBeUndefined();
+  });
+
+  it('should let anonymous requests through unless a token is required', async () => {
+    const verify = vi.fn();
+    const next = vi.fn();
+
+    await createAuthenticator({ verify, required: false })(request(), response(), next);
+    expect(next).toHaveBeenCalled();
+
+    const res = response();
+    await createAuthenticator({ verify, required: true })(request(), res, () => undefined);
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(res.headers['WWW-Authenticate']).toBe('Bearer');
+    expect(verify).not.toHaveBeenCalled();
+  });
+
+  it('should reject invalid tokens with UNAUTHENTICATED', async () => {
+    const verify = vi.fn().mockRejectedValue(new AuthenticationError('Token has expired'));
+    const res = response();
+    const next = vi.fn();
+
+    await createAuthenticator({ verify, required: false })(request('Bearer expired'), res, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(res.headers['WWW-Authenticate']).toBe('Bearer error="invalid_token"');
+    expect(res.json).toHaveBeenCalledWith({
+      errors: [{ message: 'Token has expired', extensions: { code: 'UNAUTHENTICATED', requestId: undefined } }],
+    });
+  });
+
+  it('should pass errors thrown while responding to next', async () => {
+    const failure = new TypeError('Invalid character in header content');
+    const res = response();
+    res.setHeader = vi.fn(() => { throw failure; });
+    const next = vi.fn();
+
+    await createAuthenticator({ verify: vi.fn().mockRejectedValue(new AuthenticationError('Token is malformed')), required: false })(
+      request('Bearer bad'),
+      res,
+      next,
+    );
+
+    expect(next).toHaveBeenCalledWith(failure);
+  });
+
+  it('should answer 503 when signing keys cannot be fetched', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const verify = vi.fn().mockRejectedValue(new DownstreamUnavailable('auth-service down', {
+      service: 'auth-service',
+      method: 'GET',
+      url: 'http://auth-service:8080/.well-known/jwks.json',
+      elapsedMs: 1,
+    }));
+    const res = response();
+
+    await createAuthenticator({ verify, required: false })(request('Bearer token'), res, () => undefined);
+
+    expect(res.status).toHaveBeenCalledWith(503);
+    expect(res.json).toHaveBeenCalledWith({
+      errors: [expect.objectContaining({ extensions: expect.objectContaining({ code: 'DOWNSTREAM_UNAVAILABLE' }) })],
+    });
+    vi.restoreAllMocks();
+  });
+});
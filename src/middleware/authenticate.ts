@@ -0,0 +1,95 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { config } from '../config/index.js';
+import { getTraceContext } from '../services/traceContext.js';
+import { AuthenticationError, tokenVerifier } from '../services/auth.js';
+import type { Principal } from '../services/auth.js';
+import { runWithCallerToken } from '../services/credentials.js';
+import { DownstreamError } from '../services/errors.js';
+import type { ErrorCode } from '../schema/errors.js';
+import { logger } from '../services/logger.js';
+
+export interface AuthenticatorOptions {
+  verify: (token: string) => Promise<Principal>;
+  required: boolean;        // Reject requests without a bearer token
+}
+
+/**
+ * Bearer token from the Authorization header - undefined when there is none
+ */
+export function bearerToken(req: Request): string | undefined {
+  const match = /^Bearer\s+(\S+)\s*$/i.exec(req.get('Authorization') ?? '');
+  return match?.[1];
+}
+
+/**
+ * GraphQL-shaped error response, like every other /graphql failure
+ */
+export function sendError(res: Response, status: number, code: ErrorCode, message: string) {
+  res.status(status).json({
+    errors: [{
+      message,
+      extensions: {
+        code,
+        requestId: getTraceContext()?.requestId,
+      },
+    }],
+  });
+}
+
+/**
+ * Authentication middleware - verifies the bearer token (or the session's access
+ * token left in res.locals.sessionToken by the session middleware) and stores the
+ * caller in res.locals.principal (and res.locals.subject, which the rate limiter keys on);
+ * the verified token stays bound for the rest of the request so downstream
+ * calls can forward or exchange it
+ * Requests without a token continue anonymously unless a token is required;
+ * an invalid token is always rejected with 401 UNAUTHENTICATED
+ */
+export function createAuthenticator(options: AuthenticatorOptions): RequestHandler {
+  // Express 4 does not catch rejections from async handlers - anything thrown here goes to next()
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const token = bearerToken(req) ?? (res.locals.sessionToken as string | undefined);
+
+      if (!token) {
+        if (!options.required) {
+          return next();
+        }
+        res.setHeader('WWW-Authenticate', 'Bearer');
+        return sendError(res, 401, 'UNAUTHENTICATED', 'Authentication required');
+      }
+
+      let principal: Principal;
+      try {
+        principal = await options.verify(token);
+      } catch (error) {
+        if (error instanceof AuthenticationError) {
+          logger.forRequest().info('Bearer token rejected', { reason: error.message });
+          // No error_description - nothing derived from the token may reach a response header
+          res.setHeader('WWW-Authenticate', 'Bearer error="invalid_token"');
+          return sendError(res, 401, 'UNAUTHENTICATED', error.message);
+        }
+
+        // Keys could not be fetched - the token may well be valid, so this is not a 401
+        logger.forRequest().error('Bearer token could not be verified', { error });
+        if (error instanceof DownstreamError) {
+          return sendError(res, 503, 'DOWNSTREAM_UNAVAILABLE', 'Authentication is temporarily unavailable');
+        }
+        return next(error);
+      }
+
+      res.locals.principal = principal;
+      res.locals.accessToken = token;
+      res.locals.subject = principal.subject;
+      runWithCallerToken(token, next);
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+// Authenticator for /graphql, configured from AUTH_* variables
+export const authenticate = createAuthenticator({
+  verify: token => tokenVerifier.verify(token),
+  required: config.auth.required,
+});
@@ -0,0 +1,145 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Request, Response } from 'express';
+import { createCorsHandler, createOriginMatcher } from './cors.js';
+import type { CorsPolicy } from './cors.js';
+
+const policy: CorsPolicy = {
+  origins: ['https://shell.example.com', 'https://*.mfe.example.com', '/^http:\\/\\/localhost:\\d+$/'],
+  credentials: true,
+  methods: ['GET', 'POST'],
+  allowedHeaders: ['Content-Type', 'Authorization'],
+  exposedHeaders: ['X-Request-Id'],
+  maxAgeSeconds: 600,
+};
+
+const request = (headers: Record<string, string>, method = 'GET'): Request => ({
+  method,
+  path: '/graphql',
+  get: (name: string) => headers[name.toLowerCase()],
+} as unknown as Request);
+
+describe('CORS', () => {
+  let headers: Record<string, string>;
+  let vary: string[];
+  let res: Response;
+  let next: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    headers = {};
+    vary = [];
+    next = vi.fn();
+    res = {
+      header: vi.fn((name: string, value: string) => { headers[name] = value; return res; }),
+      vary: vi.fn((name: string) => { vary.push(name); return res; }),
+      status: vi.fn().mockReturnThis(),
+      json: vi.fn().mockReturnThis(),
+      end: vi.fn().mockReturnThis(),
+    } as unknown as Response;
+  });
+
+  describe('createOriginMatcher', () => {
+    const matches = createOriginMatcher(policy.origins);
+
+    it('should match exact origins case-insensitively', () => {
+      expect(matches('https://shell.example.com')).toBe(true);
+      expect(matches('https://SHELL.example.com')).toBe(true);
+      expect(matches('http://shell.example.com')).toBe(false);
+      expect(matches('https://shell.example.com.evil.com')).toBe(false);
+    });
+
+    it('should match subdomain wildcards at any depth', () => {
+      expect(matches('https://accounts.mfe.example.com')).toBe(true);
+      expect(matches('https://eu.accounts.mfe.example.com')).toBe(true);
+      expect(matches('https://mfe.example.com')).toBe(false);
+      expect(matches('https://evilmfe.example.com')).toBe(false);
+    });
+
+    it('should match regex patterns', () => {
+      expect(matches('http://localhost:5173')).toBe(true);
+      expect(matches('http://localhost')).toBe(false);
+    });
+
+    it('should match regex patterns against the whole origin', () => {
+      const unanchored = createOriginMatcher(['/https:\\/\\/app\\.example\\.com/']);
+
+      expect(unanchored('https://app.example.com')).toBe(true);
+      expect(unanchored('https://app.example.com.evil.net')).toBe(false);
+      expect(unanchored('https://evil.net/https://app.example.com')).toBe(false);
+    });
+  });
+
+  describe('Simple requests', () => {
+    const handler = createCorsHandler(policy);
+
+    it('should reflect an allowed origin with credentials and exposed headers', () => {
+      handler(request({ origin: 'https://accounts.mfe.example.com' }), res, next);
+
+      expect(headers).toEqual({
+        'Access-Control-Allow-Origin': 'https://accounts.mfe.example.com',
+        'Access-Control-Allow-Credentials': 'true',
+        'Access-Control-Expose-Headers': 'X-Request-Id',
+      });
+      expect(vary).toEqual(['Origin']);
+      expect(next).toHaveBeenCalledOnce();
+    });
+
+    it('should not send CORS headers to a disallowed origin', () => {
+      handler(request({ origin: 'https://evil.com' }), res, next);
+
+      expect(headers).toEqual({});
+      expect(vary).toEqual(['Origin']);
+      expect(next).toHaveBeenCalledOnce();
+    });
+
+    it('should pass through same-origin requests without an Origin header', () => {
+      handler(request({}), res, next);
+
+      expect(headers).toEqual({});
+      expect(next).toHaveBeenCalledOnce();
+    });
+  });
+
+  describe('Preflight requests', () => {
+    const handler = createCorsHandler(policy);
+    const preflight = (origin: string) =>
+      request({ origin, 'access-control-request-method': 'POST' }, 'OPTIONS');
+
+    it('should answer an allowed preflight with methods, headers and max age', () => {
+      handler(preflight('https://shell.example.com'), res, next);
+
+      expect(res.status).toHaveBeenCalledWith(204);
+      expect(headers).toMatchObject({
+        'Access-Control-Allow-Origin': 'https://shell.example.com',
+        'Access-Control-Allow-Methods': 'GET, POST',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+        'Access-Control-Max-Age': '600',
+      });
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    it('should reject a preflight from a disallowed origin', () => {
+      handler(preflight('https://evil.com'), res, next);
+
+      expect(res.status).toHaveBeenCalledWith(403);
+      expect(headers).toEqual({});
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    it('should treat OPTIONS without Access-Control-Request-Method as a normal request', () => {
+      handler(request({ origin: 'https://shell.example.com' }, 'OPTIONS'), res, next);
+
+      expect(next).toHaveBeenCalledOnce();
+    });
+  });
+
+  describe('Public policy', () => {
+    const handler = createCorsHandler({ ...policy, origins: ['*'], credentials: false, exposedHeaders: [] });
+
+    it('should send a wildcard without credentials or Vary', () => {
+      handler(request({ origin: 'https://anywhere.com' }), res, next);
+
+      expect(headers).toEqual({ 'Access-Control-Allow-Origin': '*' });
+      expect(vary).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { config } from '../config/index.js';
+
+/**
+ * CORS policy for one group of routes
+ */
+export interface CorsPolicy {
+  origins: string[];          // Exact origins, https://*.example.com wildcards, /regex/ or *
+  credentials: boolean;       // Send Access-Control-Allow-Credentials (never with a * origin)
+  methods: string[];
+  allowedHeaders: string[];
+  exposedHeaders: string[];
+  maxAgeSeconds: number;      // Preflight cache lifetime
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Compile an origin allowlist into a matcher
+ * `*.` matches one or more subdomain labels; hosts compare case-insensitively;
+ * /regex/ entries must match the whole origin
+ */
+export function createOriginMatcher(entries: string[]): (origin: string) => boolean {
+  const matchers = entries.map((entry): (origin: string) => boolean => {
+    if (entry === '*') {
+      return () => true;
+    }
+    if (entry.length > 2 && entry.startsWith('/') && entry.endsWith('/')) {
+      // Anchored, so /https:\/\/app\.example\.com/ does not admit https://app.example.com.evil.net
+      const pattern = new RegExp(`^(?:${entry.slice(1, -1)})$`);
+      return origin => pattern.test(origin);
+    }
+    if (entry.includes('://*.')) {
+      const [scheme, rest] = entry.toLowerCase().split('://*.');
+      const pattern = new RegExp(`^${escapeRegExp(scheme!)}://[a-z0-9-]+(\\.[a-z0-9-]+)*\\.${escapeRegExp(rest!)}$`);
+      return origin => pattern.test(origin.toLowerCase());
+    }
+    const exact = entry.toLowerCase();
+    return origin => origin.toLowerCase() === exact;
+  });
+
+  return origin => matchers.some(matches => matches(origin));
+}
+
+/**
+ * CORS middleware for a policy
+ * Reflects an allowed Origin (or sends * for a public, uncredentialed policy),
+ * answers preflights with 204 and rejects preflights from other origins with 403
+ */
+export function createCorsHandler(policy: CorsPolicy): RequestHandler {
+  const isAllowed = createOriginMatcher(policy.origins);
+  const allowsAnyOrigin = policy.origins.includes('*') && !policy.credentials;
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const origin = req.get('Origin');
+    const isPreflight = req.method === 'OPTIONS' && req.get('Access-Control-Request-Method') !== undefined;
+
+    // Responses differ by Origin - keep caches from serving one origin's headers to another
+    if (!allowsAnyOrigin) {
+      res.vary('Origin');
+    }
+
+    if (!origin) {
+      return next();
+    }
+
+    if (!isAllowed(origin)) {
+      if (isPreflight) {
+        res.status(403).json({ error: 'Forbidden', message: `Origin ${origin} is not allowed` });
+        return;
+      }
+      // Browser blocks the response without CORS headers
+      return next();
+    }
+
+    res.header('Access-Control-Allow-Origin', allowsAnyOrigin ? '*' : origin);
+    if (policy.credentials) {
+      res.header('Access-Control-Allow-Credentials', 'true');
+    }
+    if (policy.exposedHeaders.length > 0) {
+      res.header('Access-Control-Expose-Headers', policy.exposedHeaders.join(', '));
+    }
+
+    if (isPreflight) {
+      res.header('Access-Control-Allow-Methods', policy.methods.join(', '));
+      res.header('Access-Control-Allow-Headers', policy.allowedHeaders.join(', '));
+      res.header('Access-Control-Max-Age', String(policy.maxAgeSeconds));
+      res.status(204).end();
+      return;
+    }
+
+    next();
+  };
+}
+
+// API policy - GraphQL and the rest of the BFF
+export const apiCorsPolicy: CorsPolicy = {
+  origins: config.cors.origins,
+  credentials: config.cors.credentials,
+  methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
+  allowedHeaders: ['Origin', 'X-Requested-With', 'Content-Type', 'Accept', 'Authorization', config.csrf.headerName],
+  exposedHeaders: config.cors.exposedHeaders,
+  maxAgeSeconds: config.cors.maxAgeSeconds,
+};
+
+// Asset policy - static files are public and never need credentials
+export const assetCorsPolicy: CorsPolicy = {
+  origins: config.cors.assetOrigins,
+  credentials: false,
+  methods: ['GET', 'HEAD', 'OPTIONS'],
+  allowedHeaders: ['Origin', 'Accept', 'Range'],
+  exposedHeaders: [],
+  maxAgeSeconds: config.cors.maxAgeSeconds,
+};
+
+const apiCors = createCorsHandler(apiCorsPolicy);
+const assetCors = createCorsHandler(assetCorsPolicy);
+
+// CORS middleware for cross-origin requests - /assets uses the asset policy, everything else the API policy
+export const corsHandler = (req: Request, res: Response, next: NextFunction) => {
+  const handler = req.path.startsWith('/assets') ? assetCors : apiCors;
+  handler(req, res, next);
+};
@@ -0,0 +1,120 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { Request, Response } from 'express';
+import { createCsrfProtection } from './csrf.js';
+import type { CsrfOptions } from './csrf.js';
+import { readCookie } from './session.js';
+
+const options: CsrfOptions = {
+  mode: 'token',
+  headerName: 'X-CSRF-Token',
+  cookieName: 'bff_csrf',
+  // The session ID stands in for the sealed session cookie
+  sessionIdOf: req => readCookie(req, 'bff_session'),
+  secret: 's'.repeat(32),
+  cookie: { secure: true, sameSite: 'lax' },
+};
+
+const request = (method: string, headers: Record<string, string> = {}, cookies: Record<string, string> = {}): Request => {
+  const lower = Object.fromEntries(Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value]));
+  const cookie = Object.entries(cookies).map(([name, value]) => `${name}=${encodeURIComponent(value)}`).join('; ');
+  return {
+    method,
+    headers: { ...lower, ...(cookie && { cookie }) },
+    get: (name: string) => lower[name.toLowerCase()],
+  } as unknown as Request;
+};
+
+const response = () => {
+  const res = {
+    cookie: vi.fn(),
+    status: vi.fn().mockReturnThis(),
+    json: vi.fn().mockReturnThis(),
+  };
+  return res as unknown as Response & { cookie: ReturnType<typeof vi.fn>; status: ReturnType<typeof vi.fn> };
+};
+
+const json = { 'Content-Type': 'application/json' };
+
+describe('CSRF protection', () => {
+  it('should reject form-encodable bodies and let safe methods through', () => {
+    const { protect } = createCsrfProtection(options);
+
+    for (const contentType of ['text/plain;charset=UTF-8', 'application/x-www-form-urlencoded', 'multipart/form-data; boundary=x']) {
+      const res = response();
+      const next = vi.fn();
+      protect(request('POST', { 'Content-Type': contentType }), res, next);
+      expect(next).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(415);
+    }
+
+    const res = response();
+    protect(request('POST'), res, () => undefined);
+    expect(res.status).toHaveBeenCalledWith(415);
+
+    const next = vi.fn();
+    protect(request('GET', {}, { bff_session: 'sealed' }), response(), next);
+    expect(next).toHaveBeenCalled();
+  });
+
+  it('should not require the header without a session cookie', () => {
+    const next = vi.fn();
+    createCsrfProtection(options).protect(request('POST', json), response(), next);
+    expect(next).toHaveBeenCalledWith();
+  });
+
+  it('should require the header to repeat a CSRF cookie signed for the session in token mode', () => {
+    const { protect, issueToken } = createCsrfProtection(options);
+    const issued = response();
+    const token = issueToken(request('GET', {}, { bff_session: 'sealed' }), issued);
+    const attackers = issueToken(request('GET', {}, { bff_session: 'attacker' }), response());
+    expect(issued.cookie).toHaveBeenCalledWith('bff_csrf', token, expect.objectContaining({ httpOnly: true, path: '/' }));
+
+    const next = vi.fn();
+    protect(request('POST', { ...json, 'X-CSRF-Token': token }, { bff_session: 'sealed', bff_csrf: token }), response(), next);
+    expect(next).toHaveBeenCalledWith();
+
+    const rejected = [
+      request('POST', json, { bff_session: 'sealed', bff_csrf: token }),
+      request('POST', { ...json, 'X-CSRF-Token': 'guess' }, { bff_session: 'sealed', bff_csrf: token }),
+      // A cookie planted by a sibling domain is not signed with the secret
+      request('POST', { ...json, 'X-CSRF-Token': 'planted.value' }, { bff_session: 'sealed', bff_csrf: 'planted.value' }),
+      // ...and a genuine token from the attacker's own session is signed for that session
+      request('POST', { ...json, 'X-CSRF-Token': attackers }, { bff_session: 'sealed', bff_csrf: attackers }),
+    ];
+    for (const req of rejected) {
+      const res = response();
+      const denied = vi.fn();
+      protect(req, res, denied);
+      expect(denied).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(403);
+    }
+  });
+
+  it('should accept any header value in header mode', () => {
+    const { protect } = createCsrfProtection({ ...options, mode: 'header' });
+
+    const next = vi.fn();
+    protect(request('POST', { ...json, 'X-CSRF-Token': '1' }, { bff_session: 'sealed' }), response(), next);
+    expect(next).toHaveBeenCalledWith();
+
+    const res = response();
+    protect(request('POST', json, { bff_session: 'sealed' }), res, () => undefined);
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(res.json).toHaveBeenCalledWith({
+      errors: [{ message: 'X-CSRF-Token header is missing', extensions: { code: 'FORBIDDEN', requestId: undefined } }],
+    });
+  });
+
+  it('should reuse a CSRF cookie that is still valid for the session', () => {
+    const { issueToken } = createCsrfProtection(options);
+    const token = issueToken(request('GET'), response());
+
+    const res = response();
+    expect(issueToken(request('GET', {}, { bff_csrf: token }), res)).toBe(token);
+    expect(res.cookie).not.toHaveBeenCalled();
+    // Logging in starts a session the old token is not bound to
+    expect(issueToken(request('GET', {}, { bff_csrf: token, bff_session: 'sealed' }), res)).not.toBe(token);
+    expect(createCsrfProtection({ ...options, secret: 'o'.repeat(32) }).issueToken(request('GET', {}, { bff_csrf: token }), res))
+      .not.toBe(token);
+  });
+});
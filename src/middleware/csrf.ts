@@ -0,0 +1,132 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { config } from '../config/index.js';
+import { cookieCipher } from '../services/session.js';
+import type { SameSite } from '../services/session.js';
+import { readCookie } from './session.js';
+import { sendError } from './authenticate.js';
+import { logger } from '../services/logger.js';
+
+/**
+ * token: double-submit - the header must repeat the signed CSRF cookie
+ * header: any value in the custom header - relies on CORS preflights, so the
+ * CORS allowlist must not contain *
+ */
+export type CsrfMode = 'token' | 'header';
+
+export interface CsrfOptions {
+  mode: CsrfMode;
+  headerName: string;
+  cookieName: string;
+  sessionIdOf: (req: Request) => string | undefined; // Only requests with a session are checked
+  secret: string;             // Signs tokens with the session ID, so a token minted for another session is rejected
+  cookie: {
+    secure: boolean;
+    sameSite: SameSite;
+  };
+}
+
+const SAFE_METHODS = new Set(['GET', 'HEAD', 'OPTIONS']);
+
+// Content types a cross-site <form> can send without a preflight
+const SIMPLE_CONTENT_TYPES = new Set(['application/x-www-form-urlencoded', 'multipart/form-data', 'text/plain']);
+
+const sameValue = (a: string, b: string) =>
+  a.length === b.length && timingSafeEqual(Buffer.from(a), Buffer.from(b));
+
+/**
+ * CSRF defences for cookie-authenticated /graphql requests and logout, plus the
+ * token the SPA shell injects for the MFEs
+ * Yoga already refuses mutations over GET, so only unsafe methods are checked:
+ * form-encodable bodies are always rejected; requests with the session cookie
+ * also need the CSRF header. Bearer-only and anonymous requests carry no
+ * ambient credentials and skip the header check.
+ */
+export function createCsrfProtection(options: CsrfOptions) {
+  // Before login the token is bound to no session, so the page is served a new one after login
+  const sign = (sessionId: string | undefined, nonce: string) =>
+    createHmac('sha256', options.secret).update(`${sessionId ?? ''}.${nonce}`).digest('base64url');
+
+  const isValidToken = (token: string, sessionId: string | undefined) => {
+    const [nonce, signature] = token.split('.');
+    return !!nonce && !!signature && sameValue(signature, sign(sessionId, nonce));
+  };
+
+  /**
+   * Why the request fails the CSRF check - undefined when it passes
+   */
+  function rejection(req: Request, sessionId: string): string | undefined {
+    const header = req.get(options.headerName);
+    if (!header) {
+      return `${options.headerName} header is missing`;
+    }
+    if (options.mode === 'header') {
+      return undefined;
+    }
+    const cookie = readCookie(req, options.cookieName);
+    return cookie && sameValue(header, cookie) && isValidToken(cookie, sessionId) ? undefined : 'CSRF token does not match';
+  }
+
+  const protect: RequestHandler = (req: Request, res: Response, next: NextFunction) => {
+    if (SAFE_METHODS.has(req.method)) {
+      return next();
+    }
+
+    const contentType = (req.get('Content-Type') ?? '').split(';')[0].trim().toLowerCase();
+    if (!contentType || SIMPLE_CONTENT_TYPES.has(contentType)) {
+      return sendError(res, 415, 'BAD_USER_INPUT', 'Content-Type must be application/json');
+    }
+
+    const sessionId = options.sessionIdOf(req);
+    if (!sessionId) {
+      return next();
+    }
+
+    const reason = rejection(req, sessionId);
+    if (reason) {
+      logger.forRequest().info('CSRF check failed', { reason, origin: req.get('Origin') });
+      return sendError(res, 403, 'FORBIDDEN', reason);
+    }
+    next();
+  };
+
+  /**
+   * Token for the page being served - reuses the browser's CSRF cookie when it
+   * is still valid for the current session, otherwise sets a new one
+   */
+  function issueToken(req: Request, res: Response): string {
+    const sessionId = options.sessionIdOf(req);
+    const existing = readCookie(req, options.cookieName);
+    if (existing && isValidToken(existing, sessionId)) {
+      return existing;
+    }
+
+    const nonce = randomBytes(32).toString('base64url');
+    const token = `${nonce}.${sign(sessionId, nonce)}`;
+    res.cookie(options.cookieName, token, {
+      httpOnly: true,
+      secure: options.cookie.secure,
+      sameSite: options.cookie.sameSite,
+      path: '/',
+    });
+    return token;
+  }
+
+  return { protect, issueToken };
+}
+
+// CSRF protection for /graphql and /auth/logout, configured from CSRF_* and SESSION_* variables
+export const csrf = createCsrfProtection({
+  mode: config.csrf.mode,
+  headerName: config.csrf.headerName,
+  cookieName: config.csrf.cookieName,
+  sessionIdOf: req => {
+    const sealed = readCookie(req, config.session.cookieName);
+    return sealed ? cookieCipher.open<{ id: string }>(config.session.cookieName, sealed)?.id : undefined;
+  },
+  secret: config.session.secret ?? '',
+  cookie: {
+    secure: config.session.cookieSecure,
+    sameSite: config.session.cookieSameSite,
+  },
+});
@@ -1,4 +1,6 @@
 import { Request, Response, NextFunction } from 'express';
+import { config } from '../config/index.js';
+import { logger } from '../services/logger.js';
 
 // Global error handling middleware
 export const errorHandler = (
@@ -7,16 +9,14 @@ export const errorHandler = (
   res: Response,
   next: NextFunction
 ) => {
-  console.error('Unhandled error:', {
-    error: err.message,
-    stack: err.stack,
+  logger.forRequest().error('Unhandled error', {
+    error: err,
     url: req.url,
     method: req.method,
-    timestamp: new Date().toISOString(),
   });
 
   // Don't expose internal errors in production
-  const isDevelopment = process.env.NODE_ENV === 'development';
+  const isDevelopment = config.isDevelopment;
 
   const errorResponse = {
     error: 'Internal Server Error',
@@ -1,42 +1,58 @@
 import { Request, Response } from 'express';
-import { appConfig } from '../config/index.js';
+import { config } from '../config/index.js';
+import { getCircuitSnapshots } from '../services/circuitBreaker.js';
+import { readinessChecker } from '../services/readiness.js';
+import { isShuttingDown } from '../services/lifecycle.js';
+import { getClusterStatus } from '../services/supervisor.js';
 
 // Health check endpoint for Kubernetes liveness probe
 export const healthCheck = (req: Request, res: Response) => {
   res.status(200).json({
     status: 'healthy',
-    service: appConfig.serviceMesh.serviceName,
-    version: appConfig.serviceMesh.serviceVersion,
+    service: config.serviceMesh.serviceName,
+    version: config.serviceMesh.serviceVersion,
     timestamp: new Date().toISOString(),
     uptime: process.uptime(),
+    // Downstream circuit states - informational, liveness never depends on them
+    circuits: getCircuitSnapshots(),
+    // Worker supervisor status from the cluster primary (absent in single-process runs)
+    cluster: getClusterStatus(),
   });
 };
 
 // Readiness check endpoint for Kubernetes readiness probe
+// 503 while any critical downstream is unhealthy; optional ones are reported only
 export const readinessCheck = async (req: Request, res: Response) => {
+  // Fail immediately once shutdown starts so load balancers stop routing here
+  if (isShuttingDown()) {
+    res.status(503).json({
+      status: 'shutting down',
+      service: config.serviceMesh.serviceName,
+      version: config.serviceMesh.serviceVersion,
+      timestamp: new Date().toISOString(),
+    });
+    return;
+  }
+
   try {
-    // Add checks for downstream services if needed
-    // For now, just check if the process is ready
-    
-    res.status(200).json({
-      status: 'ready',
-      service: appConfig.serviceMesh.serviceName,
-      version: appConfig.serviceMesh.serviceVersion,
+    const report = await readinessChecker.check();
+
+    res.status(report.ready ? 200 : 503).json({
+      status: report.ready ? 'ready' : 'not ready',
+      service: config.serviceMesh.serviceName,
+      version: config.serviceMesh.serviceVersion,
       timestamp: new Date().toISOString(),
-      checks: {
-        process: 'ok',
-        // Add more health checks here as needed
-        // database: 'ok',
-        // externalServices: 'ok',
-      },
+      checkedAt: report.checkedAt,
+      dependencies: report.dependencies,
+      circuits: getCircuitSnapshots(),
     });
   } catch (error) {
     res.status(503).json({
       status: 'not ready',
-      service: appConfig.serviceMesh.serviceName,
-      version: appConfig.serviceMesh.serviceVersion,
+      service: config.serviceMesh.serviceName,
+      version: config.serviceMesh.serviceVersion,
       timestamp: new Date().toISOString(),
       error: error instanceof Error ? error.message : 'Unknown error',
     });
   }
-};
\ No newline at end of file
+};
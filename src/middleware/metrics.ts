@@ -0,0 +1,54 @@
+import { Request, Response, NextFunction } from 'express';
+import { collectMetrics, formatPrometheus, metrics } from '../services/metrics.js';
+import { logger } from '../services/logger.js';
+
+const httpRequests = metrics.counter({
+  name: 'http_requests_total',
+  help: 'HTTP requests by method, route and status',
+  labelNames: ['method', 'route', 'status'],
+});
+
+const httpRequestDuration = metrics.histogram({
+  name: 'http_request_duration_seconds',
+  help: 'HTTP request latency by method, route and status',
+  labelNames: ['method', 'route', 'status'],
+});
+
+/**
+ * Route template for the label - never the raw path, which would create a
+ * series per ID. Mounted apps (e.g. /graphql) use their mount path.
+ */
+export function routeLabel(req: Request, res: Response): string {
+  if (req.route?.path) {
+    return `${req.baseUrl}${req.route.path}`;
+  }
+  if (req.baseUrl) {
+    return req.baseUrl;
+  }
+  return res.statusCode === 404 ? 'unmatched' : 'other';
+}
+
+// Request count and latency by route and status, recorded when the response finishes
+export const httpMetrics = (req: Request, res: Response, next: NextFunction) => {
+  const stop = httpRequestDuration.startTimer();
+
+  res.on('finish', () => {
+    const labels = { method: req.method, route: routeLabel(req, res), status: res.statusCode };
+    stop(labels);
+    httpRequests.inc(labels);
+  });
+
+  next();
+};
+
+// Prometheus scrape endpoint - merged across cluster workers
+// 503 when the primary cannot aggregate, so the scrape is marked failed rather than partial
+export const metricsEndpoint = async (req: Request, res: Response) => {
+  try {
+    const snapshot = await collectMetrics();
+    res.type('text/plain; version=0.0.4; charset=utf-8').send(formatPrometheus(snapshot));
+  } catch (error) {
+    logger.forRequest().warn('Metrics collection failed', { error });
+    res.status(503).type('text/plain').send('Metrics unavailable\n');
+  }
+};
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { buildMiddlewarePipeline } from './pipeline.js';
+import { requestContext } from './requestContext.js';
+import { corsHandler } from './cors.js';
+
+const allEnabled = {
+  requestLogger: true,
+  serviceMeshHeaders: true,
+  securityHeaders: true,
+  cors: true,
+  httpMetrics: true,
+};
+
+describe('Middleware Pipeline', () => {
+  it('should run every stage in order when all are enabled', () => {
+    const pipeline = buildMiddlewarePipeline(allEnabled);
+
+    expect(pipeline.map(stage => stage.name)).toEqual([
+      'drainConnections',
+      'requestContext',
+      'tracing',
+      'httpMetrics',
+      'requestLogger',
+      'serviceMeshHeaders',
+      'securityHeaders',
+      'cors',
+      'jsonBody',
+    ]);
+    expect(pipeline[1]!.handler).toBe(requestContext);
+    expect(pipeline[7]!.handler).toBe(corsHandler);
+  });
+
+  it('should skip disabled stages and keep the order of the rest', () => {
+    const pipeline = buildMiddlewarePipeline({ ...allEnabled, requestLogger: false, cors: false });
+
+    expect(pipeline.map(stage => stage.name)).toEqual([
+      'drainConnections',
+      'requestContext',
+      'tracing',
+      'httpMetrics',
+      'serviceMeshHeaders',
+      'securityHeaders',
+      'jsonBody',
+    ]);
+  });
+
+  it('should always keep draining, request context, tracing and body parsing', () => {
+    const pipeline = buildMiddlewarePipeline({
+      requestLogger: false,
+      serviceMeshHeaders: false,
+      securityHeaders: false,
+      cors: false,
+      httpMetrics: false,
+    });
+
+    expect(pipeline.map(stage => stage.name)).toEqual(['drainConnections', 'requestContext', 'tracing', 'jsonBody']);
+  });
+
+  it('should default to the configured switches', () => {
+    expect(buildMiddlewarePipeline().map(stage => stage.name)).toContain('requestContext');
+  });
+});
@@ -0,0 +1,47 @@
+import express from 'express';
+import { config } from '../config/index.js';
+import type { Config } from '../config/index.js';
+import { drainConnections } from '../services/lifecycle.js';
+import { requestContext } from './requestContext.js';
+import { requestLogger } from './requestLogger.js';
+import { httpMetrics } from './metrics.js';
+import { serverSpan } from './tracing.js';
+import { corsHandler } from './cors.js';
+import { securityHeaders, serviceMeshHeaders } from './security.js';
+
+export interface MiddlewareStage {
+  name: string;
+  handler: express.RequestHandler;
+}
+
+type Toggle = keyof Config['middleware'];
+
+/**
+ * Every stage in execution order - a stage without a toggle always runs
+ * Connection draining comes first so every response during shutdown closes
+ * its keep-alive socket; request context next so logs and headers see the request ID;
+ * the server span then wraps everything else (a no-op unless tracing is enabled);
+ * HTTP metrics start timing before any other work; CORS runs before body parsing
+ * so preflights are answered without one
+ */
+const stages: Array<MiddlewareStage & { toggle?: Toggle }> = [
+  { name: 'drainConnections', handler: drainConnections },
+  { name: 'requestContext', handler: requestContext },
+  { name: 'tracing', handler: serverSpan },
+  { name: 'httpMetrics', handler: httpMetrics, toggle: 'httpMetrics' },
+  { name: 'requestLogger', handler: requestLogger, toggle: 'requestLogger' },
+  { name: 'serviceMeshHeaders', handler: serviceMeshHeaders, toggle: 'serviceMeshHeaders' },
+  { name: 'securityHeaders', handler: securityHeaders, toggle: 'securityHeaders' },
+  { name: 'cors', handler: corsHandler, toggle: 'cors' },
+  { name: 'jsonBody', handler: express.json() },
+];
+
+/**
+ * Ordered middleware that runs before every route
+ * @param settings - Per-middleware switches (config.middleware by default)
+ */
+export function buildMiddlewarePipeline(settings: Config['middleware'] = config.middleware): MiddlewareStage[] {
+  return stages
+    .filter(stage => !stage.toggle || settings[stage.toggle])
+    .map(({ name, handler }) => ({ name, handler }));
+}
@@ -0,0 +1,252 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import express from 'express';
+import type { Request, Response } from 'express';
+import type { AddressInfo } from 'net';
+import { addressKey, clientKey, createExemption, createRateLimiter } from './rateLimit.js';
+import { createAuthenticator } from './authenticate.js';
+import { AuthenticationError } from '../services/auth.js';
+import { SharedRateLimitStore } from './rateLimitStore.js';
+import { MemorySharedStore } from '../services/sharedStore.js';
+import type { RateLimitStore } from './rateLimitStore.js';
+
+const request = (ip = '10.0.0.1', originalUrl = '/graphql'): Request => ({ ip, originalUrl } as unknown as Request);
+
+const response = (locals: Record<string, unknown> = {}) => {
+  const headers: Record<string, string> = {};
+  const res = {
+    locals,
+    headers,
+    setHeader: vi.fn((name: string, value: string) => { headers[name] = value; }),
+    status: vi.fn().mockReturnThis(),
+    json: vi.fn().mockReturnThis(),
+  };
+  return res as unknown as Response & { headers: Record<string, string> };
+};
+
+describe('SharedRateLimitStore', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should count requests per key within a window', async () => {
+    const store = new SharedRateLimitStore(new MemorySharedStore());
+
+    await store.increment('a', 1000);
+    const hit = await store.increment('a', 1000);
+    const other = await store.increment('b', 1000);
+
+    expect(hit).toEqual({ count: 2, resetMs: 1000 });
+    expect(other.count).toBe(1);
+  });
+
+  it('should weight the previous window by its remaining overlap', async () => {
+    const store = new SharedRateLimitStore(new MemorySharedStore());
+    for (let i = 0; i < 4; i++) {
+      await store.increment('a', 1000);
+    }
+
+    // 25% into the next window, 75% of the previous window still counts
+    vi.setSystemTime(1250);
+    const hit = await store.increment('a', 1000);
+
+    expect(hit.count).toBe(4 * 0.75 + 1);
+    expect(hit.resetMs).toBe(750);
+  });
+
+  it('should forget counters older than the previous window', async () => {
+    const store = new SharedRateLimitStore(new MemorySharedStore());
+    await store.increment('a', 1000);
+
+    vi.setSystemTime(2500);
+    const hit = await store.increment('a', 1000);
+
+    expect(hit.count).toBe(1);
+  });
+});
+
+describe('Rate Limiter', () => {
+  let next: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+    next = vi.fn();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  const limiter = (overrides: Partial<Parameters<typeof createRateLimiter>[0]> = {}) => createRateLimiter({
+    windowMs: 60000,
+    maxRequests: 2,
+    store: new SharedRateLimitStore(new MemorySharedStore()),
+    ...overrides,
+  });
+
+  it('should allow requests under the limit with RateLimit headers', async () => {
+    const res = response();
+
+    await limiter()(request(), res, next);
+
+    expect(next).toHaveBeenCalledOnce();
+    expect(res.headers).toEqual({
+      'RateLimit-Policy': '2;w=60',
+      'RateLimit-Limit': '2',
+      'RateLimit-Remaining': '1',
+      'RateLimit-Reset': '60',
+    });
+  });
+
+  it('should reject requests over the limit with a GraphQL-shaped 429', async () => {
+    const handler = limiter();
+    await handler(request(), response(), next);
+    await handler(request(), response(), next);
+
+    const res = response();
+    await handler(request(), res, next);
+
+    expect(next).toHaveBeenCalledTimes(2);
+    expect(res.status).toHaveBeenCalledWith(429);
+    expect(res.headers['Retry-After']).toBe('60');
+    expect(res.headers['RateLimit-Remaining']).toBe('0');
+    expect(res.json).toHaveBeenCalledWith({
+      errors: [{
+        message: 'Too many requests, retry after 60 seconds',
+        extensions: { code: 'RATE_LIMITED', retryAfter: 60, requestId: undefined },
+      }],
+    });
+  });
+
+  it('should limit each client separately', async () => {
+    const handler = limiter({ maxRequests: 1 });
+
+    await handler(request('10.0.0.1'), response(), next);
+    await handler(request('10.0.0.2'), response(), next);
+
+    expect(next).toHaveBeenCalledTimes(2);
+  });
+
+  it('should key by authenticated subject when one is set', () => {
+    expect(clientKey(request(), response({ subject: 'user-1' }))).toBe('sub:user-1');
+    expect(clientKey(request('10.0.0.9'), response())).toBe('ip:10.0.0.9');
+  });
+
+  it('should count requests by IP ahead of authentication, including rejected tokens', async () => {
+    const ipLimiter = limiter({ key: addressKey });
+    const authenticator = createAuthenticator({
+      verify: vi.fn().mockRejectedValue(new AuthenticationError('Token signature is invalid')),
+      required: false,
+    });
+    const req = { ...request(), get: () => 'Bearer forged' } as unknown as Request;
+
+    const statuses: unknown[] = [];
+    for (let i = 0; i < 3; i++) {
+      const res = response();
+      let passed = false;
+      await ipLimiter(req, res, () => { passed = true; });
+      if (passed) {
+        await authenticator(req, res, next);
+      }
+      statuses.push(vi.mocked(res.status).mock.calls[0]?.[0]);
+    }
+
+    expect(statuses).toEqual([401, 401, 429]);
+    expect(addressKey(req)).not.toBe(clientKey(req, response()));
+  });
+
+  it('should report both policies and the closer limit when two limiters share a route', async () => {
+    const store = new SharedRateLimitStore(new MemorySharedStore());
+    const ipLimiter = limiter({ store, key: addressKey, maxRequests: 5 });
+    const clientLimiter = limiter({ store, maxRequests: 3 });
+
+    const res = response();
+    await ipLimiter(request(), res, next);
+    await clientLimiter(request(), res, next);
+
+    expect(res.headers).toEqual({
+      'RateLimit-Policy': '5;w=60, 3;w=60',
+      'RateLimit-Limit': '3',
+      'RateLimit-Remaining': '2',
+      'RateLimit-Reset': '60',
+    });
+
+    // The per-IP limit is closer once other clients share the address
+    for (let i = 0; i < 3; i++) {
+      await ipLimiter(request(), response(), next);
+    }
+    const shared = response();
+    await ipLimiter(request(), shared, next);
+    await clientLimiter(request(), shared, next);
+
+    expect(shared.headers['RateLimit-Limit']).toBe('5');
+    expect(shared.headers['RateLimit-Remaining']).toBe('0');
+  });
+
+  it('should skip exempt requests without counting them', async () => {
+    const store: RateLimitStore = { increment: vi.fn() };
+    const res = response();
+
+    await limiter({ store, exempt: () => true })(request(), res, next);
+
+    expect(next).toHaveBeenCalledOnce();
+    expect(store.increment).not.toHaveBeenCalled();
+    expect(res.headers).toEqual({});
+  });
+
+  it('should allow the request when the store fails', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const store: RateLimitStore = { increment: vi.fn().mockRejectedValue(new Error('store down')) };
+
+    await limiter({ store })(request(), response(), next);
+
+    expect(next).toHaveBeenCalledOnce();
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('Rate limit store unavailable'));
+  });
+
+  describe('createExemption', () => {
+    const exempt = createExemption(['10.0.0.5', 'monitoring-bot'], ['/graphql/internal']);
+
+    it('should exempt listed IPs and subjects', () => {
+      expect(exempt(request('10.0.0.5'), response())).toBe(true);
+      expect(exempt(request(), response({ subject: 'monitoring-bot' }))).toBe(true);
+      expect(exempt(request(), response({ subject: 'user-1' }))).toBe(false);
+    });
+
+    it('should exempt listed path prefixes', () => {
+      expect(exempt(request('10.0.0.1', '/graphql/internal?x=1'), response())).toBe(true);
+      expect(exempt(request('10.0.0.1', '/graphql'), response())).toBe(false);
+    });
+  });
+
+  it('should not let a forged X-Forwarded-For change the key or claim an exemption', async () => {
+    const exempt = createExemption(['10.0.0.5'], []);
+    const app = express();
+    // One trusted hop - the sidecar, which appends the address it saw
+    app.set('trust proxy', 1);
+    app.get('/graphql', (req, res) => res.json({ key: clientKey(req, res), exempt: exempt(req, res) }));
+    const server = app.listen(0, '127.0.0.1');
+    await new Promise(resolve => server.once('listening', resolve));
+
+    const viaSidecar = async (forged: string) => {
+      const response = await fetch(`http://127.0.0.1:${(server.address() as AddressInfo).port}/graphql`, {
+        headers: { 'X-Forwarded-For': `${forged}, 198.51.100.7` },
+      });
+      return response.json();
+    };
+
+    try {
+      expect(await viaSidecar('203.0.113.1')).toEqual({ key: 'ip:198.51.100.7', exempt: false });
+      expect(await viaSidecar('203.0.113.2')).toEqual({ key: 'ip:198.51.100.7', exempt: false });
+      expect(await viaSidecar('10.0.0.5')).toEqual({ key: 'ip:198.51.100.7', exempt: false });
+    } finally {
+      server.close();
+    }
+  });
+});
@@ -0,0 +1,150 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { config } from '../config/index.js';
+import { getTraceContext } from '../services/traceContext.js';
+import type { ErrorCode } from '../schema/errors.js';
+import { sharedStore } from '../services/sharedStore.js';
+import { logger } from '../services/logger.js';
+import { SharedRateLimitStore } from './rateLimitStore.js';
+import type { RateLimitStore } from './rateLimitStore.js';
+
+export interface RateLimitOptions {
+  windowMs: number;
+  maxRequests: number;
+  store: RateLimitStore;
+  key?: (req: Request, res: Response) => string;      // Client identity (default: subject, else IP)
+  exempt?: (req: Request, res: Response) => boolean;  // Skip limiting for this request
+}
+
+/**
+ * Default client key - the authenticated subject when an auth middleware
+ * has set res.locals.subject, otherwise the client IP
+ * req.ip follows the trust proxy setting - only a hop count matching the real
+ * proxies keeps clients from choosing it through X-Forwarded-For
+ */
+export function clientKey(req: Request, res: Response): string {
+  const subject = res.locals.subject;
+  return typeof subject === 'string' && subject ? `sub:${subject}` : `ip:${req.ip}`;
+}
+
+/**
+ * IP-only key for the limiter in front of authentication - kept apart from
+ * clientKey's ip: counters so anonymous requests are not counted twice
+ */
+export function addressKey(req: Request): string {
+  return `addr:${req.ip}`;
+}
+
+/**
+ * Exempt the configured clients (IPs or subjects) and path prefixes
+ * IP exemptions rely on req.ip like clientKey, with the same trust proxy caveat
+ */
+export function createExemption(clients: string[], paths: string[]): (req: Request, res: Response) => boolean {
+  const exemptClients = new Set(clients);
+
+  return (req, res) =>
+    exemptClients.has(req.ip ?? '')
+    || (typeof res.locals.subject === 'string' && exemptClients.has(res.locals.subject))
+    || paths.some(path => req.originalUrl.startsWith(path));
+}
+
+/**
+ * Outcome of one limiter for the current request
+ */
+interface RateLimitResult {
+  limit: number;
+  remaining: number;
+  resetSeconds: number;
+  windowSeconds: number;
+}
+
+/**
+ * RateLimit-* headers for every limiter the request has passed through so far
+ * (kept in res.locals.rateLimits) - the policy header lists each of them, the
+ * others describe the one closest to its limit
+ */
+function sendRateLimitHeaders(res: Response, result: RateLimitResult): void {
+  const results: RateLimitResult[] = [...(res.locals.rateLimits ?? []), result];
+  res.locals.rateLimits = results;
+  const tightest = results.reduce((closest, candidate) => (candidate.remaining < closest.remaining ? candidate : closest));
+
+  res.setHeader('RateLimit-Policy', results.map(({ limit, windowSeconds }) => `${limit};w=${windowSeconds}`).join(', '));
+  res.setHeader('RateLimit-Limit', String(tightest.limit));
+  res.setHeader('RateLimit-Remaining', String(tightest.remaining));
+  res.setHeader('RateLimit-Reset', String(tightest.resetSeconds));
+}
+
+/**
+ * Rate limiting middleware using a sliding window counter
+ * Sends RateLimit-* headers on every response, and Retry-After with a
+ * GraphQL-shaped 429 body once the client exceeds the limit. Limiters mounted
+ * on the same route share the headers instead of overwriting each other's.
+ */
+export function createRateLimiter(options: RateLimitOptions): RequestHandler {
+  const key = options.key ?? clientKey;
+  const windowSeconds = Math.ceil(options.windowMs / 1000);
+
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (options.exempt?.(req, res)) {
+      return next();
+    }
+
+    let hit;
+    try {
+      hit = await options.store.increment(key(req, res), options.windowMs);
+    } catch (error) {
+      // Never turn a store failure into an outage - allow the request
+      logger.forRequest().warn('Rate limit store unavailable, request allowed', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return next();
+    }
+
+    const resetSeconds = Math.max(1, Math.ceil(hit.resetMs / 1000));
+    const limited = hit.count > options.maxRequests;
+
+    sendRateLimitHeaders(res, {
+      limit: options.maxRequests,
+      remaining: Math.max(0, Math.floor(options.maxRequests - hit.count)),
+      resetSeconds,
+      windowSeconds,
+    });
+
+    if (!limited) {
+      return next();
+    }
+
+    res.setHeader('Retry-After', String(resetSeconds));
+    res.status(429).json({
+      errors: [{
+        message: `Too many requests, retry after ${resetSeconds} seconds`,
+        extensions: {
+          code: 'RATE_LIMITED' satisfies ErrorCode,
+          retryAfter: resetSeconds,
+          requestId: getTraceContext()?.requestId,
+        },
+      }],
+    });
+  };
+}
+
+const rateLimitStore = new SharedRateLimitStore(sharedStore);
+const exemption = createExemption(config.rateLimit.exemptClients, config.rateLimit.exemptPaths);
+
+// Rate limiter for /graphql, configured from RATE_LIMIT_* variables
+// Counters live in the shared store, so the limit holds across cluster workers
+export const rateLimiter = createRateLimiter({
+  windowMs: config.rateLimit.windowMs,
+  maxRequests: config.rateLimit.maxRequests,
+  store: rateLimitStore,
+  exempt: exemption,
+});
+
+// Per-IP limiter mounted before authentication, so requests rejected there
+// (bad tokens, JWKS outages) still count
+export const ipRateLimiter = createRateLimiter({
+  windowMs: config.rateLimit.windowMs,
+  maxRequests: config.rateLimit.maxRequestsPerIp,
+  store: rateLimitStore,
+  key: addressKey,
+  exempt: exemption,
+});
@@ -0,0 +1,42 @@
+import type { SharedStore } from '../services/sharedStore.js';
+
+/**
+ * Result of counting one request against a key
+ */
+export interface RateLimitHit {
+  count: number;    // Weighted requests in the sliding window, including this one
+  resetMs: number;  // Time until the current fixed window rolls over
+}
+
+/**
+ * Backing store for rate limit counters
+ */
+export interface RateLimitStore {
+  increment(key: string, windowMs: number): Promise<RateLimitHit>;
+}
+
+/**
+ * Sliding window counter on a shared store - one counter per key and fixed window
+ * The previous window is weighted by how much of it still overlaps the sliding
+ * window. With the cluster store every worker counts against the same limit.
+ */
+export class SharedRateLimitStore implements RateLimitStore {
+  constructor(private store: SharedStore) {}
+
+  async increment(key: string, windowMs: number): Promise<RateLimitHit> {
+    const now = Date.now();
+    const windowStart = Math.floor(now / windowMs) * windowMs;
+
+    const [current, previous] = await Promise.all([
+      // Kept for two windows - it is the previous window for the next one
+      this.store.incr(`ratelimit:${key}:${windowStart}`, 1, 2 * windowMs),
+      this.store.get<number>(`ratelimit:${key}:${windowStart - windowMs}`),
+    ]);
+    const overlap = 1 - (now - windowStart) / windowMs;
+
+    return {
+      count: (previous ?? 0) * overlap + current,
+      resetMs: windowStart + windowMs - now,
+    };
+  }
+}
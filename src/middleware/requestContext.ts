@@ -0,0 +1,13 @@
+import { Request, Response, NextFunction } from 'express';
+import { createTraceContext, runWithTraceContext } from '../services/traceContext.js';
+
+// Request context middleware - binds requestId/trace headers to the async call chain
+// so resolvers and downstream clients see the same IDs as the inbound request
+export const requestContext = (req: Request, res: Response, next: NextFunction) => {
+  const trace = createTraceContext(name => req.get(name));
+
+  // Echo the request ID so callers can correlate responses with logs
+  res.setHeader('x-request-id', trace.requestId);
+
+  runWithTraceContext(trace, next);
+};
@@ -1,39 +1,27 @@
 import { Request, Response, NextFunction } from 'express';
-import { appConfig } from '../config/index.js';
+import { logger } from '../services/logger.js';
 
 // Request logging middleware for observability
 export const requestLogger = (req: Request, res: Response, next: NextFunction) => {
   const start = Date.now();
   const { method, url, ip } = req;
   const userAgent = req.get('User-Agent') || 'unknown';
-  
+
+  // Bound now - the trace context is not available in the finish callback
+  const log = logger.forRequest();
+
   // Log request
-  console.log(JSON.stringify({
-    timestamp: new Date().toISOString(),
-    level: 'info',
-    message: 'Incoming request',
-    method,
-    url,
-    ip,
-    userAgent,
-    service: appConfig.serviceMesh.serviceName,
-    version: appConfig.serviceMesh.serviceVersion,
-  }));
+  log.info('Incoming request', { method, url, ip, userAgent });
 
   // Capture response time
   res.on('finish', () => {
-    const duration = Date.now() - start;
-    console.log(JSON.stringify({
-      timestamp: new Date().toISOString(),
-      level: 'info',
-      message: 'Request completed',
+    log.info('Request completed', {
       method,
       url,
       statusCode: res.statusCode,
-      duration,
-      service: appConfig.serviceMesh.serviceName,
-    }));
+      duration: Date.now() - start,
+    });
   });
 
   next();
-};
\ No newline at end of file
+};
@@ -0,0 +1,379 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import express from 'express';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { createHash, generateKeyPairSync, randomBytes, sign } from 'crypto';
+import { createSessionRoutes, readCookie } from './session.js';
+import { createCsrfProtection } from './csrf.js';
+import { createAuthenticator } from './authenticate.js';
+import { CookieCipher, OidcClient, SessionStore } from '../services/session.js';
+import { MemorySharedStore, SharedStoreError } from '../services/sharedStore.js';
+import { HttpClient } from '../services/httpClient.js';
+import { JwksClient, TokenVerifier } from '../services/auth.js';
+import type { TokenVerifierOptions } from '../services/auth.js';
+
+const ISSUER = 'https://auth.example.com';
+const json = { 'Content-Type': 'application/json' };
+const CLIENT_ID = 'conduites-bff';
+
+/**
+ * Local OIDC stand-in: authorizes instantly, redeems codes against their PKCE
+ * challenge and rotates refresh tokens, rejecting any that were already used
+ */
+class OidcStandIn {
+  readonly keys = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  accessTokenLifetimeSeconds = 300;
+  refreshes = 0;
+  private codes = new Map<string, { challenge: string; nonce: string; redirectUri: string }>();
+  private refreshTokens = new Set<string>();
+  private server = http.createServer((req, res) => this.token(req, res));
+
+  get jwks() {
+    return [{ ...this.keys.publicKey.export({ format: 'jwk' }), kid: 'stand-in', use: 'sig' }];
+  }
+
+  async start(): Promise<string> {
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  stop() {
+    this.server.close();
+  }
+
+  /**
+   * The user signs in - returns where the auth service sends the browser back to
+   */
+  authorize(authorizationUrl: string): string {
+    const params = new URL(authorizationUrl).searchParams;
+    expect(params.get('code_challenge_method')).toBe('S256');
+    const code = randomBytes(16).toString('hex');
+    this.codes.set(code, {
+      challenge: params.get('code_challenge')!,
+      nonce: params.get('nonce')!,
+      redirectUri: params.get('redirect_uri')!,
+    });
+    const callback = new URL(params.get('redirect_uri')!);
+    callback.search = new URLSearchParams({ code, state: params.get('state')! }).toString();
+    return callback.toString();
+  }
+
+  revokeRefreshTokens() {
+    this.refreshTokens.clear();
+  }
+
+  private jwt(claims: Record<string, unknown>): string {
+    const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+    const data = `${encode({ alg: 'RS256', typ: 'JWT', kid: 'stand-in' })}.${encode(claims)}`;
+    return `${data}.${sign('sha256', Buffer.from(data), this.keys.privateKey).toString('base64url')}`;
+  }
+
+  private issue(nonce?: string) {
+    const now = Math.floor(Date.now() / 1000);
+    const refreshToken = randomBytes(16).toString('hex');
+    this.refreshTokens.add(refreshToken);
+    return {
+      access_token: this.jwt({
+        iss: ISSUER, aud: 'conduites-bff-api', sub: 'user-123', exp: now + this.accessTokenLifetimeSeconds, jti: randomBytes(8).toString('hex'),
+      }),
+      id_token: nonce ? this.jwt({ iss: ISSUER, aud: CLIENT_ID, sub: 'user-123', exp: now + 300, nonce }) : undefined,
+      refresh_token: refreshToken,
+      token_type: 'Bearer',
+      expires_in: this.accessTokenLifetimeSeconds,
+    };
+  }
+
+  private token(req: http.IncomingMessage, res: http.ServerResponse) {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      const form = new URLSearchParams(body);
+      const reply = (status: number, payload: object) => {
+        res.writeHead(status, { 'content-type': 'application/json' }).end(JSON.stringify(payload));
+      };
+
+      if (req.url !== '/oauth/token' || form.get('client_id') !== CLIENT_ID) {
+        return reply(401, { error: 'invalid_client' });
+      }
+      if (form.get('grant_type') === 'authorization_code') {
+        const grant = this.codes.get(form.get('code') ?? '');
+        this.codes.delete(form.get('code') ?? '');
+        const challenge = createHash('sha256').update(form.get('code_verifier') ?? '').digest('base64url');
+        if (!grant || grant.challenge !== challenge || grant.redirectUri !== form.get('redirect_uri')) {
+          return reply(400, { error: 'invalid_grant' });
+        }
+        return reply(200, this.issue(grant.nonce));
+      }
+      if (form.get('grant_type') === 'refresh_token') {
+        this.refreshes++;
+        if (!this.refreshTokens.delete(form.get('refresh_token') ?? '')) {
+          return reply(400, { error: 'invalid_grant' });
+        }
+        return reply(200, this.issue());
+      }
+      reply(400, { error: 'unsupported_grant_type' });
+    });
+  }
+}
+
+/**
+ * Browser stand-in - keeps cookies and does not follow redirects
+ */
+class Browser {
+  cookies = new Map<string, string>();
+
+  constructor(private baseUrl: string) {}
+
+  async get(path: string, init: RequestInit = {}): Promise<Response> {
+    const response = await fetch(new URL(path, this.baseUrl), {
+      ...init,
+      redirect: 'manual',
+      headers: { ...init.headers, cookie: [...this.cookies].map(([name, value]) => `${name}=${value}`).join('; ') },
+    });
+    for (const cookie of response.headers.getSetCookie()) {
+      const [pair] = cookie.split(';');
+      const [name, value] = [pair.slice(0, pair.indexOf('=')), pair.slice(pair.indexOf('=') + 1)];
+      if (value && !/Expires=Thu, 01 Jan 1970/.test(cookie)) {
+        this.cookies.set(name, value);
+      } else {
+        this.cookies.delete(name);
+      }
+    }
+    return response;
+  }
+
+  async login(provider: OidcStandIn, returnTo = '/accounts'): Promise<Response> {
+    const login = await this.get(`/auth/login?returnTo=${encodeURIComponent(returnTo)}`);
+    return this.get(provider.authorize(login.headers.get('location')!));
+  }
+}
+
+describe('Session routes', () => {
+  const provider = new OidcStandIn();
+  const store = new MemorySharedStore();
+  let server: http.Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    const authServiceUrl = await provider.start();
+    server = http.createServer();
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    const jwks = new JwksClient(async () => provider.jwks, { cacheTtlMs: 60000, refreshCooldownMs: 0 });
+    const verifierOptions: TokenVerifierOptions = {
+      issuer: ISSUER,
+      audience: 'conduites-bff-api',
+      algorithms: ['RS256'],
+      clockToleranceSeconds: 0,
+      rolesClaim: 'roles',
+      customerIdClaim: 'customer_id',
+    };
+    const accessTokens = new TokenVerifier(jwks, verifierOptions);
+    const idTokens = new TokenVerifier(jwks, { ...verifierOptions, audience: CLIENT_ID });
+
+    const cipher = new CookieCipher('a-session-secret-of-at-least-32-characters');
+    const routes = createSessionRoutes({
+      oidc: new OidcClient(new HttpClient(authServiceUrl, { serviceName: 'oidc-stand-in', circuitBreaker: false }), {
+        clientId: CLIENT_ID,
+        authorizationEndpoint: 'https://auth.example.com/authorize',
+        tokenPath: '/oauth/token',
+        endSessionEndpoint: 'https://auth.example.com/logout',
+        redirectUri: `${baseUrl}/auth/callback`,
+        scopes: ['openid', 'offline_access'],
+      }),
+      sessions: new SessionStore(store),
+      cipher,
+      verifyAccessToken: token => accessTokens.verify(token),
+      verifyIdToken: token => idTokens.verify(token),
+      cookie: { name: 'bff_session', secure: false, sameSite: 'lax' },
+      ttlMs: 3600000,
+      refreshMarginSeconds: 60,
+      postLogoutRedirectUri: `${baseUrl}/`,
+    });
+
+    const csrf = createCsrfProtection({
+      mode: 'token',
+      headerName: 'X-CSRF-Token',
+      cookieName: 'bff_csrf',
+      sessionIdOf: req => {
+        const sealed = readCookie(req, 'bff_session');
+        return sealed ? cipher.open<{ id: string }>('bff_session', sealed)?.id : undefined;
+      },
+      secret: 'a-session-secret-of-at-least-32-characters',
+      cookie: { secure: false, sameSite: 'lax' },
+    });
+
+    const app = express();
+    app.get('/auth/login', routes.login);
+    app.get('/auth/callback', routes.callback);
+    app.post('/auth/logout', csrf.protect, routes.logout);
+    app.get('/csrf-token', (req, res) => { res.json({ token: csrf.issueToken(req, res) }); });
+    app.use('/graphql', routes.loadSession, createAuthenticator({ verify: token => accessTokens.verify(token), required: false }));
+    app.get('/graphql', (req, res) => {
+      res.json({ subject: res.locals.principal?.subject ?? null, accessToken: res.locals.accessToken ?? null });
+    });
+    server.on('request', app);
+  });
+
+  afterAll(() => {
+    provider.stop();
+    server.close();
+  });
+
+  beforeEach(() => {
+    provider.accessTokenLifetimeSeconds = 300;
+    provider.refreshes = 0;
+  });
+
+  it('should log in with the authorization code flow and authenticate GraphQL with the session', async () => {
+    const browser = new Browser(baseUrl);
+
+    const login = await browser.get('/auth/login?returnTo=/accounts');
+    expect(login.status).toBe(302);
+    expect(login.headers.get('location')).toMatch(/^https:\/\/auth\.example\.com\/authorize\?response_type=code&client_id=conduites-bff/);
+    expect(login.headers.getSetCookie()[0]).toMatch(/^bff_session_login=.+; Max-Age=600; Path=\/auth\/callback; .*HttpOnly; SameSite=Lax/);
+
+    const callback = await browser.get(provider.authorize(login.headers.get('location')!));
+    expect(callback.status).toBe(302);
+    expect(callback.headers.get('location')).toBe('/accounts');
+    expect(callback.headers.getSetCookie().find(cookie => cookie.startsWith('bff_session=')))
+      .toMatch(/Path=\/; .*HttpOnly; SameSite=Lax/);
+    expect([...browser.cookies.keys()]).toEqual(['bff_session']);
+
+    const graphql = await (await browser.get('/graphql')).json();
+    expect(graphql.subject).toBe('user-123');
+    expect(graphql.accessToken).toMatch(/^ey/);
+    expect(provider.refreshes).toBe(0);
+  });
+
+  it('should reject a callback whose state or login cookie does not match', async () => {
+    const browser = new Browser(baseUrl);
+    const login = await browser.get('/auth/login');
+    const callback = new URL(provider.authorize(login.headers.get('location')!));
+
+    callback.searchParams.set('state', 'forged');
+    expect((await browser.get(callback.pathname + callback.search)).status).toBe(400);
+
+    // The login cookie is cleared by the failed attempt
+    const replay = await new Browser(baseUrl).get(provider.authorize(login.headers.get('location')!));
+    expect(replay.status).toBe(400);
+    expect(browser.cookies.has('bff_session')).toBe(false);
+  });
+
+  it('should only return to same-site paths', async () => {
+    const callback = await new Browser(baseUrl).login(provider, '//evil.example.com/phish');
+
+    expect(callback.headers.get('location')).toBe('/');
+  });
+
+  it('should rotate refresh tokens as access tokens near expiry', async () => {
+    provider.accessTokenLifetimeSeconds = 30;
+    const browser = new Browser(baseUrl);
+    await browser.login(provider);
+
+    // Every request is within the refresh margin; each needs the previous rotation
+    const first = await (await browser.get('/graphql')).json();
+    const [second, concurrent] = await Promise.all([
+      browser.get('/graphql').then(response => response.json()),
+      browser.get('/graphql').then(response => response.json()),
+    ]);
+
+    expect(first.subject).toBe('user-123');
+    expect(second.subject).toBe('user-123');
+    expect(second.accessToken).not.toBe(first.accessToken);
+    expect(concurrent.accessToken).toBe(second.accessToken);
+    expect(provider.refreshes).toBe(2);
+  });
+
+  it('should end the session when the refresh token is revoked', async () => {
+    provider.accessTokenLifetimeSeconds = 30;
+    const browser = new Browser(baseUrl);
+    await browser.login(provider);
+    provider.revokeRefreshTokens();
+
+    const graphql = await (await browser.get('/graphql')).json();
+
+    expect(graphql).toEqual({ subject: null, accessToken: null });
+    expect(browser.cookies.has('bff_session')).toBe(false);
+  });
+
+  it('should keep the cookie when the store does not know the session', async () => {
+    const browser = new Browser(baseUrl);
+    await browser.login(provider);
+    vi.spyOn(store, 'get').mockResolvedValueOnce(undefined);
+
+    expect(await (await browser.get('/graphql')).json()).toEqual({ subject: null, accessToken: null });
+    expect(browser.cookies.has('bff_session')).toBe(true);
+    expect((await (await browser.get('/graphql')).json()).subject).toBe('user-123');
+  });
+
+  it('should answer 503 and keep the cookie when the store is unreachable', async () => {
+    const browser = new Browser(baseUrl);
+    await browser.login(provider);
+    vi.spyOn(store, 'get').mockRejectedValueOnce(new SharedStoreError('Shared store connection closed'));
+
+    const graphql = await browser.get('/graphql');
+
+    expect(graphql.status).toBe(503);
+    expect(browser.cookies.has('bff_session')).toBe(true);
+    expect((await (await browser.get('/graphql')).json()).subject).toBe('user-123');
+  });
+
+  it('should ignore a tampered session cookie', async () => {
+    const browser = new Browser(baseUrl);
+    await browser.login(provider);
+    const sealed = browser.cookies.get('bff_session')!;
+    browser.cookies.set('bff_session', `${sealed.slice(0, -4)}AAAA`);
+
+    expect(await (await browser.get('/graphql')).json()).toEqual({ subject: null, accessToken: null });
+  });
+
+  it('should treat a cookie that is not valid percent-encoding as absent', async () => {
+    const browser = new Browser(baseUrl);
+    browser.cookies.set('bff_session', '%E0%A4%A');
+    browser.cookies.set('bff_session_login', '%E0%A4%A');
+
+    expect(await (await browser.get('/graphql')).json()).toEqual({ subject: null, accessToken: null });
+    expect((await browser.get('/auth/callback?state=x&code=y')).status).toBe(400);
+    expect((await browser.get('/auth/logout', { method: 'POST', headers: json })).status).toBe(302);
+  });
+
+  it('should log out locally and at the auth service', async () => {
+    const browser = new Browser(baseUrl);
+    await browser.login(provider);
+    const sealed = browser.cookies.get('bff_session')!;
+    const { token } = await (await browser.get('/csrf-token')).json();
+
+    const logout = await browser.get('/auth/logout', { method: 'POST', headers: { ...json, 'X-CSRF-Token': token } });
+
+    const location = new URL(logout.headers.get('location')!);
+    expect(location.origin + location.pathname).toBe('https://auth.example.com/logout');
+    expect(location.searchParams.get('post_logout_redirect_uri')).toBe(`${baseUrl}/`);
+    expect(location.searchParams.get('id_token_hint')).toMatch(/^ey/);
+    expect(browser.cookies.has('bff_session')).toBe(false);
+
+    // The old cookie no longer maps to a session
+    browser.cookies.set('bff_session', sealed);
+    expect(await (await browser.get('/graphql')).json()).toEqual({ subject: null, accessToken: null });
+  });
+
+  it('should only log out requests that pass the CSRF check', async () => {
+    const browser = new Browser(baseUrl);
+    await browser.login(provider);
+    const { token } = await (await browser.get('/csrf-token')).json();
+
+    // A cross-site form post can send neither JSON nor the header
+    expect((await browser.get('/auth/logout', { method: 'POST' })).status).toBe(415);
+    expect((await browser.get('/auth/logout', { method: 'POST', headers: json })).status).toBe(403);
+    expect((await (await browser.get('/graphql')).json()).subject).toBe('user-123');
+
+    const logout = await browser.get('/auth/logout', {
+      method: 'POST',
+      headers: { ...json, Accept: 'application/json', 'X-CSRF-Token': token },
+    });
+    expect(logout.status).toBe(200);
+    expect((await logout.json()).redirectTo).toMatch(/^https:\/\/auth\.example\.com\/logout\?/);
+    expect(browser.cookies.has('bff_session')).toBe(false);
+  });
+});
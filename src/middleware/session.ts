@@ -0,0 +1,321 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { timingSafeEqual } from 'crypto';
+import { STATUS_CODES } from 'http';
+import { config } from '../config/index.js';
+import { AuthenticationError, tokenVerifier } from '../services/auth.js';
+import type { Principal } from '../services/auth.js';
+import { DownstreamError } from '../services/errors.js';
+import { SharedStoreError } from '../services/sharedStore.js';
+import {
+  cookieCipher,
+  idTokenVerifier,
+  loginNonces,
+  oidcClient,
+  pkcePair,
+  sessionStore,
+} from '../services/session.js';
+import type { CookieCipher, OidcClient, SameSite, Session, SessionStore, TokenSet } from '../services/session.js';
+import { bearerToken, sendError } from './authenticate.js';
+import { logger } from '../services/logger.js';
+
+export interface SessionRoutesOptions {
+  oidc: Pick<OidcClient, 'authorizationUrl' | 'exchangeCode' | 'refresh' | 'endSessionUrl'>;
+  sessions: Pick<SessionStore, 'create' | 'get' | 'save' | 'destroy'>;
+  cipher: CookieCipher;
+  verifyAccessToken: (token: string) => Promise<Principal>;
+  verifyIdToken: (token: string) => Promise<Principal>;
+  cookie: {
+    name: string;
+    secure: boolean;
+    sameSite: SameSite;
+  };
+  ttlMs: number;                  // Session lifetime from login
+  refreshMarginSeconds: number;   // Refresh access tokens this long before they expire
+  postLogoutRedirectUri: string;
+}
+
+/**
+ * Pending login, kept in its own encrypted cookie between /auth/login and /auth/callback
+ */
+interface LoginTransaction {
+  state: string;
+  nonce: string;
+  verifier: string;
+  returnTo: string;
+}
+
+const LOGIN_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * Cookie value from the Cookie header - undefined when absent or not valid percent-encoding
+ */
+export function readCookie(req: Request, name: string): string | undefined {
+  for (const pair of (req.headers.cookie ?? '').split(';')) {
+    const index = pair.indexOf('=');
+    if (index > 0 && pair.slice(0, index).trim() === name) {
+      try {
+        return decodeURIComponent(pair.slice(index + 1).trim());
+      } catch {
+        return undefined;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Only same-site paths - an absolute or protocol-relative returnTo would be an open redirect
+ */
+function safeReturnTo(value: unknown): string {
+  return typeof value === 'string' && value.startsWith('/') && !value.startsWith('//') && !value.startsWith('/\\')
+    ? value
+    : '/';
+}
+
+const sameValue = (a: string, b: string) =>
+  a.length === b.length && timingSafeEqual(Buffer.from(a), Buffer.from(b));
+
+/**
+ * Error response for the browser-facing /auth routes, shaped like the 404 handler's
+ */
+function sendAuthError(res: Response, status: number, message: string) {
+  res.status(status).json({ error: STATUS_CODES[status], message });
+}
+
+/**
+ * Token endpoint rejected the grant (bad code, verifier or refresh token) -
+ * anything else means the auth service could not answer
+ */
+const isRejectedGrant = (error: unknown) =>
+  error instanceof DownstreamError && (error.status === 400 || error.status === 401);
+
+/**
+ * Server-side browser sessions with the OIDC authorization code flow and PKCE
+ * - login: redirect to the auth service with state, nonce and a code challenge
+ * - callback: exchange the code, verify the tokens and start a session
+ * - logout: end the session, then the auth service's session when it supports it -
+ *   a redirect, or { redirectTo } for requests that accept JSON
+ * - loadSession: on /graphql, refresh the session's access token when it is about
+ *   to expire and hand it to the authenticator (res.locals.sessionToken)
+ */
+export function createSessionRoutes(options: SessionRoutesOptions) {
+  const loginCookie = `${options.cookie.name}_login`;
+  const cookieOptions = {
+    httpOnly: true,
+    secure: options.cookie.secure,
+    sameSite: options.cookie.sameSite,
+  } as const;
+  // Refreshes in flight in this worker, by session ID
+  const refreshing = new Map<string, Promise<Session | undefined>>();
+
+  const clearSession = (res: Response) => res.clearCookie(options.cookie.name, { ...cookieOptions, path: '/' });
+
+  /**
+   * New tokens for a session whose access token is about to expire
+   * @returns The refreshed session - undefined when the refresh token was rejected
+   */
+  async function refreshSession(id: string, session: Session): Promise<Session | undefined> {
+    let tokens: TokenSet;
+    let principal: Principal;
+    try {
+      tokens = await options.oidc.refresh(session.refreshToken!);
+      principal = await options.verifyAccessToken(tokens.accessToken);
+    } catch (error) {
+      if (!isRejectedGrant(error) && !(error instanceof AuthenticationError)) {
+        throw error;
+      }
+      // Another worker may have rotated the refresh token first
+      const current = await options.sessions.get(id);
+      if (current && current.refreshToken !== session.refreshToken) {
+        return current;
+      }
+      logger.forRequest().info('Session refresh failed', {
+        subject: session.subject,
+        reason: error instanceof Error ? error.message : String(error),
+      });
+      await options.sessions.destroy(id);
+      return undefined;
+    }
+
+    const refreshed: Session = {
+      ...session,
+      accessToken: tokens.accessToken,
+      accessTokenExpiresAt: principal.expiresAt * 1000,
+      refreshToken: tokens.refreshToken ?? session.refreshToken,
+      idToken: tokens.idToken ?? session.idToken,
+    };
+    await options.sessions.save(id, refreshed);
+    return refreshed;
+  }
+
+  const login: RequestHandler = (req, res) => {
+    const { state, nonce } = loginNonces();
+    const { verifier, challenge } = pkcePair();
+    const transaction: LoginTransaction = { state, nonce, verifier, returnTo: safeReturnTo(req.query.returnTo) };
+
+    res.cookie(loginCookie, options.cipher.seal(loginCookie, transaction), {
+      ...cookieOptions,
+      path: '/auth/callback',
+      maxAge: LOGIN_TTL_MS,
+    });
+    res.redirect(options.oidc.authorizationUrl({ state, nonce, codeChallenge: challenge }));
+  };
+
+  const callback: RequestHandler = async (req, res, next) => {
+    try {
+      const sealed = readCookie(req, loginCookie);
+      const transaction = sealed ? options.cipher.open<LoginTransaction>(loginCookie, sealed) : undefined;
+      res.clearCookie(loginCookie, { ...cookieOptions, path: '/auth/callback' });
+
+      if (typeof req.query.error === 'string') {
+        logger.forRequest().info('Login failed at the auth service', { error: req.query.error });
+        return sendAuthError(res, 401, `Login failed: ${req.query.error}`);
+      }
+      if (!transaction) {
+        return sendAuthError(res, 400, 'Login expired or was not started here - sign in again');
+      }
+      if (typeof req.query.state !== 'string' || !sameValue(req.query.state, transaction.state)) {
+        return sendAuthError(res, 400, 'Login state does not match');
+      }
+      if (typeof req.query.code !== 'string') {
+        return sendAuthError(res, 400, 'Authorization code is missing');
+      }
+
+      const tokens = await options.oidc.exchangeCode(req.query.code, transaction.verifier);
+      if (!tokens.idToken) {
+        throw new AuthenticationError('Token response has no ID token');
+      }
+      const [principal, identity] = await Promise.all([
+        options.verifyAccessToken(tokens.accessToken),
+        options.verifyIdToken(tokens.idToken),
+      ]);
+      if (identity.claims.nonce !== transaction.nonce) {
+        throw new AuthenticationError('ID token nonce does not match');
+      }
+      if (identity.subject !== principal.subject) {
+        throw new AuthenticationError('ID token and access token subjects differ');
+      }
+
+      const id = await options.sessions.create({
+        subject: principal.subject,
+        accessToken: tokens.accessToken,
+        accessTokenExpiresAt: principal.expiresAt * 1000,
+        refreshToken: tokens.refreshToken,
+        idToken: tokens.idToken,
+        expiresAt: Date.now() + options.ttlMs,
+      });
+      res.cookie(options.cookie.name, options.cipher.seal(options.cookie.name, { id }), {
+        ...cookieOptions,
+        path: '/',
+        maxAge: options.ttlMs,
+      });
+      logger.forRequest().info('Session started', { subject: principal.subject });
+      res.redirect(transaction.returnTo);
+    } catch (error) {
+      if (error instanceof AuthenticationError) {
+        logger.forRequest().info('Login rejected', { reason: error.message });
+        return sendAuthError(res, 401, error.message);
+      }
+      if (isRejectedGrant(error)) {
+        return sendAuthError(res, 401, 'Authorization code was rejected');
+      }
+      if (error instanceof DownstreamError) {
+        logger.forRequest().error('Login could not be completed', { error });
+        return sendAuthError(res, 503, 'Authentication is temporarily unavailable');
+      }
+      next(error);
+    }
+  };
+
+  const logout: RequestHandler = async (req, res, next) => {
+    try {
+      const sealed = readCookie(req, options.cookie.name);
+      const cookie = sealed ? options.cipher.open<{ id: string }>(options.cookie.name, sealed) : undefined;
+      const session = cookie && await options.sessions.get(cookie.id);
+      if (cookie) {
+        await options.sessions.destroy(cookie.id);
+        logger.forRequest().info('Session ended', { subject: session?.subject });
+      }
+      clearSession(res);
+      const redirectTo =
+        options.oidc.endSessionUrl(session?.idToken, options.postLogoutRedirectUri) ?? options.postLogoutRedirectUri;
+      // fetch() callers (the only ones that can send the CSRF header) navigate themselves
+      if (req.accepts(['html', 'json']) === 'json') {
+        return res.json({ redirectTo });
+      }
+      res.redirect(redirectTo);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  const loadSession: RequestHandler = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      // An explicit bearer token wins over the cookie
+      const sealed = readCookie(req, options.cookie.name);
+      if (!sealed || bearerToken(req)) {
+        return next();
+      }
+
+      const cookie = options.cipher.open<{ id: string }>(options.cookie.name, sealed);
+      if (!cookie) {
+        clearSession(res);
+        return next();
+      }
+      // Unknown sessions leave the cookie alone - it may belong to a store this
+      // request cannot see; it expires with the session anyway
+      let session = await options.sessions.get(cookie.id);
+      if (!session) {
+        return next();
+      }
+
+      if (session.accessTokenExpiresAt - options.refreshMarginSeconds * 1000 <= Date.now()) {
+        if (!session.refreshToken) {
+          await options.sessions.destroy(cookie.id);
+          clearSession(res);
+          return next();
+        }
+
+        let pending = refreshing.get(cookie.id);
+        if (!pending) {
+          pending = refreshSession(cookie.id, session).finally(() => refreshing.delete(cookie.id));
+          refreshing.set(cookie.id, pending);
+        }
+        session = await pending;
+        if (!session) {
+          clearSession(res);
+          return next();
+        }
+      }
+
+      res.locals.sessionToken = session.accessToken;
+      next();
+    } catch (error) {
+      logger.forRequest().error('Session could not be loaded', { error });
+      // The cookie is kept - the session may still exist once the store or auth service answers
+      if (error instanceof DownstreamError || error instanceof SharedStoreError) {
+        return sendError(res, 503, 'DOWNSTREAM_UNAVAILABLE', 'Authentication is temporarily unavailable');
+      }
+      next(error);
+    }
+  };
+
+  return { login, callback, logout, loadSession };
+}
+
+// Browser session routes, configured from SESSION_* and OIDC_* variables
+export const sessionRoutes = createSessionRoutes({
+  oidc: oidcClient,
+  sessions: sessionStore,
+  cipher: cookieCipher,
+  verifyAccessToken: token => tokenVerifier.verify(token),
+  verifyIdToken: token => idTokenVerifier.verify(token),
+  cookie: {
+    name: config.session.cookieName,
+    secure: config.session.cookieSecure,
+    sameSite: config.session.cookieSameSite,
+  },
+  ttlMs: config.session.ttlMs,
+  refreshMarginSeconds: config.session.refreshMarginSeconds,
+  postLogoutRedirectUri: config.oidc.postLogoutRedirectUri,
+});
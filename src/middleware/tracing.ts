@@ -0,0 +1,46 @@
+import { Request, Response, NextFunction } from 'express';
+import { SpanKind, SpanStatusCode } from '@opentelemetry/api';
+import { tracer } from '../services/tracing.js';
+import { routeLabel } from './metrics.js';
+
+// Server span per request - a child of the caller's span (W3C or B3 headers),
+// active for everything the request does downstream
+export const serverSpan = (req: Request, res: Response, next: NextFunction) => {
+  if (!tracer.enabled) {
+    return next();
+  }
+
+  const span = tracer.startSpan(req.method, {
+    kind: SpanKind.SERVER,
+    attributes: {
+      'http.request.method': req.method,
+      'url.path': req.path,
+      'url.scheme': req.protocol,
+      'server.address': req.hostname,
+      'client.address': req.ip,
+      'user_agent.original': req.get('User-Agent'),
+      'network.protocol.version': req.httpVersion,
+    },
+  });
+
+  res.on('finish', () => {
+    const route = routeLabel(req, res);
+    if (route.startsWith('/')) {
+      span.updateName(`${req.method} ${route}`).setAttribute('http.route', route);
+    }
+    span.setAttribute('http.response.status_code', res.statusCode);
+    if (res.statusCode >= 500) {
+      span.setStatus({ code: SpanStatusCode.ERROR });
+    }
+    span.end();
+  });
+
+  // Client went away before the response was sent
+  res.on('close', () => {
+    if (!res.writableFinished) {
+      span.setStatus({ code: SpanStatusCode.ERROR, message: 'Client closed the connection' }).end();
+    }
+  });
+
+  tracer.withSpan(span, next);
+};
@@ -0,0 +1,45 @@
+import type { YogaInitialContext } from 'graphql-yoga';
+import type { Response } from 'express';
+import { createLoaders } from './loaders.js';
+import type { Loaders } from './loaders.js';
+import { createTraceContext, getTraceContext } from '../services/traceContext.js';
+import type { TraceContext } from '../services/traceContext.js';
+import { logger } from '../services/logger.js';
+import type { Logger } from '../services/logger.js';
+import type { Principal } from '../services/auth.js';
+
+/**
+ * Per-request GraphQL context shared by all resolvers
+ */
+export interface GraphQLContext {
+  requestId?: string;
+  trace?: TraceContext;
+  loaders: Loaders;
+  logger: Logger;       // Carries the request and trace IDs
+  principal?: Principal; // Verified caller - undefined for anonymous requests
+  accessToken?: string;  // The caller's verified token - from the Authorization header or the session
+}
+
+/**
+ * Yoga's initial context - Express adds its request and response objects
+ */
+type ServerContext = YogaInitialContext & { res?: Response };
+
+/**
+ * Build the context for a single GraphQL request
+ * Called by Yoga once per operation; reuses the trace bound by the
+ * requestContext middleware, or derives one from the Yoga request headers;
+ * the principal and access token are the ones the authenticate middleware verified
+ */
+export function createContext(initialContext: YogaInitialContext): GraphQLContext {
+  const trace = getTraceContext() ?? createTraceContext(name => initialContext.request.headers.get(name));
+
+  return {
+    requestId: trace.requestId,
+    trace,
+    loaders: createLoaders(),
+    logger: logger.forRequest(trace),
+    principal: (initialContext as ServerContext).res?.locals.principal,
+    accessToken: (initialContext as ServerContext).res?.locals.accessToken,
+  };
+}
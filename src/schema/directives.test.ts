@@ -0,0 +1,111 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createSchema } from 'graphql-yoga';
+import { execute, parse } from 'graphql';
+import { applyAuthDirectives } from './directives.js';
+import type { GraphQLContext } from './context.js';
+import type { Principal } from '../services/auth.js';
+
+const directives = /* GraphQL */ `
+  enum Role { CUSTOMER SUPPORT ADMIN }
+  directive @auth(requires: [Role!]!) on FIELD_DEFINITION
+  directive @ownerOnly(field: String! = "customerId") on FIELD_DEFINITION
+`;
+
+const schema = applyAuthDirectives(createSchema({
+  typeDefs: /* GraphQL */ `
+    ${directives}
+    type Account {
+      id: ID!
+      customerId: String!
+      balance: Float @ownerOnly
+      notes: String @auth(requires: [SUPPORT, ADMIN]) @ownerOnly
+    }
+    type Query {
+      accounts: [Account!]!
+      audit: String @auth(requires: [ADMIN])
+    }
+  `,
+  resolvers: {
+    Query: {
+      accounts: () => [
+        { id: 'acc1', customerId: 'cust1', balance: 100, notes: 'vip' },
+        { id: 'acc2', customerId: 'cust2', balance: 200, notes: 'new' },
+      ],
+      audit: () => 'audit log',
+    },
+  },
+}));
+
+const principal = (roles: string[], customerId?: string): Principal => ({
+  subject: 'user-123',
+  roles,
+  customerId,
+  scopes: [],
+  expiresAt: 0,
+  claims: {},
+});
+
+const run = (query: string, caller?: Principal) => {
+  const info = vi.fn();
+  const contextValue = {
+    requestId: 'req-1',
+    principal: caller,
+    logger: { info },
+  } as unknown as GraphQLContext;
+
+  return { info, result: execute({ schema, document: parse(query), contextValue }) as Promise<unknown> };
+};
+
+describe('applyAuthDirectives', () => {
+  it('should null out fields the caller does not own and keep the rest of the result', async () => {
+    const { result, info } = run('{ accounts { id balance } }', principal(['customer'], 'cust1'));
+
+    expect(await result).toEqual({
+      data: { accounts: [{ id: 'acc1', balance: 100 }, { id: 'acc2', balance: null }] },
+      errors: [expect.objectContaining({
+        message: 'Not authorized to access Account.balance: only available to its owner',
+        path: ['accounts', 1, 'balance'],
+        extensions: { code: 'FORBIDDEN', requestId: 'req-1' },
+      })],
+    });
+    expect(info).toHaveBeenCalledWith('Field access denied', {
+      field: 'Account.balance',
+      subject: 'user-123',
+      reason: 'only available to its owner',
+    });
+  });
+
+  it('should require one of the listed roles, matched case-insensitively', async () => {
+    const { result: admin } = run('{ audit }', principal(['Admin']));
+    expect(await admin).toEqual({ data: { audit: 'audit log' } });
+
+    const { result: customer } = run('{ audit }', principal(['customer'], 'cust1'));
+    expect(await customer).toMatchObject({
+      data: { audit: null },
+      errors: [{ message: 'Not authorized to access Query.audit: requires role ADMIN', extensions: { code: 'FORBIDDEN' } }],
+    });
+  });
+
+  it('should report anonymous callers as UNAUTHENTICATED', async () => {
+    const { result } = run('{ audit accounts { id } }');
+
+    expect(await result).toMatchObject({
+      data: { audit: null, accounts: [{ id: 'acc1' }, { id: 'acc2' }] },
+      errors: [{ extensions: { code: 'UNAUTHENTICATED' } }],
+    });
+  });
+
+  it('should require every directive on a field to pass', async () => {
+    const { result: support } = run('{ accounts { notes } }', principal(['support'], 'cust1'));
+    expect(await support).toMatchObject({ data: { accounts: [{ notes: 'vip' }, { notes: null }] } });
+
+    const { result: owner } = run('{ accounts { notes } }', principal(['customer'], 'cust1'));
+    expect(await owner).toMatchObject({ data: { accounts: [{ notes: null }, { notes: null }] } });
+  });
+
+  it('should refuse to protect a non-null field', () => {
+    expect(() => applyAuthDirectives(createSchema({
+      typeDefs: `${directives} type Query { secret: String! @auth(requires: [ADMIN]) }`,
+    }))).toThrow('Query.secret is protected by a directive and must be nullable');
+  });
+});
@@ -0,0 +1,113 @@
+import {
+  GraphQLError,
+  defaultFieldResolver,
+  getDirectiveValues,
+  isNonNullType,
+  isObjectType,
+} from 'graphql';
+import type { GraphQLField, GraphQLFieldResolver, GraphQLSchema } from 'graphql';
+import type { GraphQLContext } from './context.js';
+import type { ErrorCode } from './errors.js';
+
+/**
+ * Access rule for one field - returns why the caller is denied, or undefined
+ */
+type Rule = (source: unknown, context: GraphQLContext) => { code: ErrorCode; reason: string } | undefined;
+
+const anonymous = { code: 'UNAUTHENTICATED' as const, reason: 'authentication required' };
+
+/**
+ * @auth(requires: [Role!]!) - the caller holds at least one of the roles
+ */
+function requireRole(roles: string[]): Rule {
+  const allowed = new Set(roles.map(role => role.toLowerCase()));
+
+  return (_source, { principal }) => {
+    if (!principal) {
+      return anonymous;
+    }
+    return principal.roles.some(role => allowed.has(role.toLowerCase()))
+      ? undefined
+      : { code: 'FORBIDDEN', reason: `requires role ${roles.join(' or ')}` };
+  };
+}
+
+/**
+ * @ownerOnly(field) - the parent object's field holds the caller's customer ID
+ */
+function requireOwner(field: string): Rule {
+  return (source, { principal }) => {
+    if (!principal) {
+      return anonymous;
+    }
+    const owner = (source as Record<string, unknown> | null)?.[field];
+    return principal.customerId !== undefined && owner !== undefined && owner !== null && String(owner) === principal.customerId
+      ? undefined
+      : { code: 'FORBIDDEN', reason: 'only available to its owner' };
+  };
+}
+
+/**
+ * Rules declared on a field by its directives
+ */
+function rulesFor(schema: GraphQLSchema, field: GraphQLField<unknown, unknown>): Rule[] {
+  const rules: Rule[] = [];
+  const auth = schema.getDirective('auth');
+  const ownerOnly = schema.getDirective('ownerOnly');
+  if (!field.astNode) {
+    return rules;
+  }
+
+  const roleArgs = auth && getDirectiveValues(auth, field.astNode);
+  if (roleArgs) {
+    rules.push(requireRole(roleArgs.requires as string[]));
+  }
+  const ownerArgs = ownerOnly && getDirectiveValues(ownerOnly, field.astNode);
+  if (ownerArgs) {
+    rules.push(requireOwner(ownerArgs.field as string));
+  }
+  return rules;
+}
+
+/**
+ * Enforce @auth and @ownerOnly - call once on the executable schema
+ * Each protected resolver runs only when every rule passes; otherwise the field
+ * resolves to null with an error, leaving the rest of the operation intact
+ * @throws Error when a protected field is non-null (a denial would null its parent)
+ */
+export function applyAuthDirectives(schema: GraphQLSchema): GraphQLSchema {
+  for (const type of Object.values(schema.getTypeMap())) {
+    if (!isObjectType(type) || type.name.startsWith('__')) {
+      continue;
+    }
+
+    for (const field of Object.values(type.getFields())) {
+      const rules = rulesFor(schema, field);
+      if (rules.length === 0) {
+        continue;
+      }
+      if (isNonNullType(field.type)) {
+        throw new Error(`${type.name}.${field.name} is protected by a directive and must be nullable`);
+      }
+
+      const resolve: GraphQLFieldResolver<unknown, GraphQLContext> = field.resolve ?? defaultFieldResolver;
+      field.resolve = (source, args, context: GraphQLContext, info) => {
+        for (const rule of rules) {
+          const denied = rule(source, context);
+          if (denied) {
+            context.logger.info('Field access denied', {
+              field: `${type.name}.${field.name}`,
+              subject: context.principal?.subject,
+              reason: denied.reason,
+            });
+            throw new GraphQLError(`Not authorized to access ${type.name}.${field.name}: ${denied.reason}`, {
+              extensions: { code: denied.code, requestId: context.requestId },
+            });
+          }
+        }
+        return resolve(source, args, context, info);
+      };
+    }
+  }
+  return schema;
+}
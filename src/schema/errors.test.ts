@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import { GraphQLError } from 'graphql';
+import { isNotFound, maskError, toGraphQLError } from './errors.js';
+import {
+  DownstreamBadResponse,
+  DownstreamNotFound,
+  DownstreamTimeout,
+  DownstreamUnavailable,
+} from '../services/errors.js';
+import type { DownstreamErrorDetails } from '../services/errors.js';
+import { REDACTED } from '../services/redaction.js';
+
+const details = (status?: number): DownstreamErrorDetails => ({
+  service: 'account-service',
+  method: 'GET',
+  url: 'http://account-service:8080/accounts/1',
+  status,
+  elapsedMs: 12,
+});
+
+const context = { requestId: 'req-123' };
+
+describe('GraphQL Error Mapping', () => {
+  describe('toGraphQLError', () => {
+    it('should map downstream failures to error codes', () => {
+      const testCases = [
+        { error: new DownstreamNotFound('x', details(404)), code: 'NOT_FOUND' },
+        { error: new DownstreamBadResponse('x', details(401)), code: 'UNAUTHENTICATED' },
+        { error: new DownstreamBadResponse('x', details(403)), code: 'FORBIDDEN' },
+        { error: new DownstreamBadResponse('x', details(400)), code: 'BAD_USER_INPUT' },
+        { error: new DownstreamBadResponse('x', details(422)), code: 'BAD_USER_INPUT' },
+        { error: new DownstreamTimeout('x', details()), code: 'DOWNSTREAM_TIMEOUT' },
+        { error: new DownstreamTimeout('x', details(504)), code: 'DOWNSTREAM_TIMEOUT' },
+        { error: new DownstreamUnavailable('x', details()), code: 'DOWNSTREAM_UNAVAILABLE' },
+        { error: new DownstreamBadResponse('x', details(500)), code: 'DOWNSTREAM_ERROR' },
+      ];
+
+      for (const testCase of testCases) {
+        const result = toGraphQLError(testCase.error, context, 'Failed to fetch account');
+
+        expect(result).toBeInstanceOf(GraphQLError);
+        expect(result.extensions.code).toBe(testCase.code);
+      }
+    });
+
+    it('should include requestId, service and status in extensions', () => {
+      const result = toGraphQLError(new DownstreamBadResponse('x', details(403)), context, 'Failed to fetch account');
+
+      expect(result.extensions).toEqual({
+        code: 'FORBIDDEN',
+        requestId: 'req-123',
+        service: 'account-service',
+        status: 403,
+      });
+    });
+
+    it('should not expose downstream URLs in the client message', () => {
+      const error = new DownstreamUnavailable(
+        'account-service: GET http://account-service:8080/accounts/1 failed: ECONNREFUSED',
+        details()
+      );
+
+      const result = toGraphQLError(error, context, 'Failed to fetch account');
+
+      expect(result.message).toBe('Failed to fetch account: account-service is unavailable');
+      expect(result.message).not.toContain('http://');
+      expect(result.originalError).toBe(error);
+    });
+
+    it('should map unexpected errors to INTERNAL_SERVER_ERROR', () => {
+      const result = toGraphQLError(new Error('boom'), context, 'Failed to fetch account');
+
+      expect(result.message).toBe('boom');
+      expect(result.extensions).toEqual({ code: 'INTERNAL_SERVER_ERROR', requestId: 'req-123' });
+    });
+
+    it('should use the fallback message for non-Error values', () => {
+      const result = toGraphQLError('String error', context, 'Failed to fetch account');
+
+      expect(result.message).toBe('Failed to fetch account');
+    });
+
+    it('should pass existing GraphQLErrors through unchanged', () => {
+      const original = new GraphQLError('already mapped', { extensions: { code: 'FORBIDDEN' } });
+
+      expect(toGraphQLError(original, context, 'Failed to fetch account')).toBe(original);
+    });
+  });
+
+  describe('maskError', () => {
+    // graphql-js wraps resolver errors to attach the field path
+    const located = (error: Error) => new GraphQLError(error.message, { path: ['account'], originalError: error });
+
+    it('should keep the code and message of mapped downstream errors', () => {
+      const mapped = toGraphQLError(new DownstreamUnavailable('x', details(503)), context, 'Failed to fetch account');
+
+      const masked = maskError(located(mapped), 'Unexpected error.', false) as GraphQLError;
+
+      expect(masked.message).toBe('Failed to fetch account: account-service is unavailable');
+      expect(masked.path).toEqual(['account']);
+      expect(masked.extensions).toMatchObject({ code: 'DOWNSTREAM_UNAVAILABLE', requestId: 'req-123' });
+    });
+
+    it('should mask unexpected errors', () => {
+      const internal = toGraphQLError(new Error('Cannot read properties of undefined'), context, 'Failed to fetch account');
+
+      expect((maskError(located(internal), 'Unexpected error.', false) as GraphQLError).message).toBe('Unexpected error.');
+      expect(maskError(new TypeError('boom'), 'Unexpected error.', false).message).toBe('Unexpected error.');
+    });
+
+    it('should redact PII from messages returned to clients', () => {
+      const validation = new GraphQLError('Variable "$email" got invalid value "jane@example.com"');
+
+      expect(maskError(validation, 'Unexpected error.', false).message).toBe(`Variable "$email" got invalid value "${REDACTED}"`);
+    });
+
+    it('should return errors without PII unchanged', () => {
+      const validation = new GraphQLError('Cannot query field "foo" on type "Query".');
+
+      expect(maskError(validation, 'Unexpected error.', false)).toBe(validation);
+    });
+  });
+
+  describe('isNotFound', () => {
+    it('should only match DownstreamNotFound', () => {
+      expect(isNotFound(new DownstreamNotFound('x', details(404)))).toBe(true);
+      expect(isNotFound(new DownstreamBadResponse('x', details(500)))).toBe(false);
+      expect(isNotFound(new Error('Customer not found'))).toBe(false);
+    });
+  });
+});
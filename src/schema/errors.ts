@@ -0,0 +1,166 @@
+import { GraphQLError } from 'graphql';
+import { maskError as maskUnexpectedError } from 'graphql-yoga';
+import type { MaskError } from 'graphql-yoga';
+import {
+  DownstreamError,
+  DownstreamNotFound,
+  DownstreamTimeout,
+  DownstreamUnavailable,
+} from '../services/errors.js';
+import { redactor } from '../services/redaction.js';
+import type { GraphQLContext } from './context.js';
+
+/**
+ * Error codes returned in GraphQL `extensions.code`
+ * Stable contract for MFEs - do not rename
+ */
+export type ErrorCode =
+  | 'NOT_FOUND'
+  | 'UNAUTHENTICATED'
+  | 'FORBIDDEN'
+  | 'BAD_USER_INPUT'
+  | 'DOWNSTREAM_TIMEOUT'
+  | 'DOWNSTREAM_UNAVAILABLE'
+  | 'DOWNSTREAM_ERROR'
+  | 'RATE_LIMITED'
+  | 'INTERNAL_SERVER_ERROR';
+
+/**
+ * Map a downstream failure to an error code
+ */
+function codeFor(error: DownstreamError): ErrorCode {
+  if (error instanceof DownstreamNotFound) return 'NOT_FOUND';
+  if (error instanceof DownstreamTimeout) return 'DOWNSTREAM_TIMEOUT';
+  if (error instanceof DownstreamUnavailable) return 'DOWNSTREAM_UNAVAILABLE';
+
+  switch (error.status) {
+    case 401:
+      return 'UNAUTHENTICATED';
+    case 403:
+      return 'FORBIDDEN';
+    case 400:
+    case 422:
+      return 'BAD_USER_INPUT';
+    default:
+      return 'DOWNSTREAM_ERROR';
+  }
+}
+
+/**
+ * Client-facing message - never exposes internal URLs from the downstream error
+ */
+function messageFor(code: ErrorCode, error: DownstreamError, fallbackMessage: string): string {
+  switch (code) {
+    case 'NOT_FOUND':
+      return `${fallbackMessage}: not found`;
+    case 'UNAUTHENTICATED':
+      return `${fallbackMessage}: authentication required`;
+    case 'FORBIDDEN':
+      return `${fallbackMessage}: access denied`;
+    case 'BAD_USER_INPUT':
+      return `${fallbackMessage}: invalid request`;
+    case 'DOWNSTREAM_TIMEOUT':
+      return `${fallbackMessage}: ${error.service} timed out`;
+    case 'DOWNSTREAM_UNAVAILABLE':
+      return `${fallbackMessage}: ${error.service} is unavailable`;
+    default:
+      return `${fallbackMessage}: ${error.service} returned an error`;
+  }
+}
+
+/**
+ * Convert any resolver failure into a GraphQLError with standard extensions
+ * (code, requestId and, for downstream failures, service and status)
+ * @param error - Error thrown by a service call
+ * @param context - Request context, for the requestId
+ * @param fallbackMessage - Message prefix describing the failed operation
+ */
+export function toGraphQLError(
+  error: unknown,
+  context: Pick<GraphQLContext, 'requestId'>,
+  fallbackMessage: string
+): GraphQLError {
+  if (error instanceof GraphQLError) {
+    return error;
+  }
+
+  if (error instanceof DownstreamError) {
+    const code = codeFor(error);
+    return new GraphQLError(messageFor(code, error, fallbackMessage), {
+      originalError: error,
+      extensions: {
+        code,
+        requestId: context.requestId,
+        service: error.service,
+        status: error.status,
+      },
+    });
+  }
+
+  return new GraphQLError(error instanceof Error ? error.message : fallbackMessage, {
+    originalError: error instanceof Error ? error : undefined,
+    extensions: {
+      code: 'INTERNAL_SERVER_ERROR',
+      requestId: context.requestId,
+    },
+  });
+}
+
+/**
+ * True when a lookup failed because the resource does not exist
+ * Nullable lookups (e.g. Query.account) resolve to null instead of erroring
+ */
+export function isNotFound(error: unknown): boolean {
+  return error instanceof DownstreamNotFound;
+}
+
+/**
+ * Find the error built by toGraphQLError - graphql-js wraps it to add the path
+ * Internal errors do not count: their messages are never shown to clients
+ */
+function findCodedError(error: unknown): GraphQLError | undefined {
+  for (let current = error; current instanceof GraphQLError; current = current.originalError) {
+    const code = current.extensions.code;
+    if (typeof code === 'string' && code !== 'INTERNAL_SERVER_ERROR') {
+      return current;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Copy of an error with a new message and extensions, keeping its location
+ */
+function withContent(error: GraphQLError, message: string, extensions: GraphQLError['extensions']): GraphQLError {
+  return new GraphQLError(message, {
+    nodes: error.nodes,
+    source: error.source,
+    positions: error.positions,
+    path: error.path,
+    originalError: error.originalError,
+    extensions,
+  });
+}
+
+/**
+ * Yoga error masking for every error returned to clients
+ * Errors from toGraphQLError keep their code and message, anything unexpected
+ * is masked by Yoga; either way PII is redacted from message and extensions
+ */
+export const maskError: MaskError = (error, message, isDev) => {
+  const coded = findCodedError(error);
+  const masked = coded && error instanceof GraphQLError
+    ? (coded === error ? coded : withContent(error, coded.message, coded.extensions))
+    : maskUnexpectedError(error, message, isDev);
+
+  if (!(masked instanceof GraphQLError)) {
+    return masked;
+  }
+
+  const redactedMessage = redactor.redactText(masked.message);
+  const redactedExtensions = redactor.redact(masked.extensions) as GraphQLError['extensions'];
+  if (redactedMessage === masked.message && JSON.stringify(redactedExtensions) === JSON.stringify(masked.extensions)) {
+    return masked;
+  }
+  return withContent(masked, redactedMessage, redactedExtensions);
+};
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import type { GraphQLObjectType } from 'graphql';
+import { schema } from './index.js';
+
+describe('GraphQL Schema', () => {
+  it('should expose account and customer queries', () => {
+    const queryFields = schema.getQueryType()?.getFields() ?? {};
+
+    expect(queryFields).toHaveProperty('account');
+    expect(queryFields).toHaveProperty('customer');
+  });
+
+  it('should expose user, product, notification and health queries', () => {
+    const queryFields = schema.getQueryType()?.getFields() ?? {};
+
+    for (const field of ['user', 'users', 'product', 'products', 'notifications', 'unreadNotificationCount', 'health']) {
+      expect(queryFields).toHaveProperty(field);
+    }
+  });
+
+  it('should expose a Mutation root with all write operations', () => {
+    const mutationFields = schema.getMutationType()?.getFields() ?? {};
+
+    expect(Object.keys(mutationFields).sort()).toEqual([
+      'createNotification',
+      'createProduct',
+      'createUser',
+      'deleteNotification',
+      'deleteProduct',
+      'deleteUser',
+      'markNotificationAsRead',
+      'updateProduct',
+      'updateUser',
+    ]);
+  });
+
+  it('should define input types for create and update operations', () => {
+    for (const typeName of ['UserInput', 'UpdateUserInput', 'ProductInput', 'UpdateProductInput', 'NotificationInput']) {
+      expect(schema.getType(typeName)).toBeDefined();
+    }
+  });
+
+  it('should protect admin mutations and owner-only fields', () => {
+    const account = schema.getType('Account') as GraphQLObjectType;
+
+    expect(String(schema.getMutationType()?.getFields().deleteUser.type)).toBe('Boolean');
+    expect(String(account.getFields().balance.type)).toBe('Float');
+    expect(account.getFields().balance.astNode?.directives?.map(directive => directive.name.value)).toEqual(['ownerOnly']);
+  });
+});
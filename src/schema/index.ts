@@ -3,6 +3,8 @@ import { readFileSync } from 'fs';
 import { fileURLToPath } from 'url';
 import { dirname, join } from 'path';
 import { resolvers } from './resolvers/index.js';
+import { applyAuthDirectives } from './directives.js';
+import { logger } from '../services/logger.js';
 
 // Get current directory for ES modules
 const __filename = fileURLToPath(import.meta.url);
@@ -24,18 +26,19 @@ function loadSchemaFile(): string {
 
 /**
  * Create and export the complete GraphQL schema
- * Combines type definitions from schema.graphql with resolvers
+ * Combines type definitions from schema.graphql with resolvers, then enforces
+ * the @auth and @ownerOnly directives
  */
 export const schema = (() => {
   try {
     const typeDefs = loadSchemaFile();
     
-    return createSchema({
+    return applyAuthDirectives(createSchema({
       typeDefs,
       resolvers,
-    });
+    }));
   } catch (error) {
-    console.error('❌ Error creating GraphQL schema:', error);
+    logger.error('Error creating GraphQL schema', { error });
     throw error;
   }
 })();
\ No newline at end of file
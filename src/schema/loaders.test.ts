@@ -0,0 +1,198 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createLoaders } from './loaders.js';
+import { accountService } from '../services/accountService.js';
+import { customerService } from '../services/customerService.js';
+import { config } from '../config/index.js';
+
+// Mock the config - batching toggled per test
+vi.mock('../config/index.js', () => ({
+  config: {
+    batching: {
+      accountService: false,
+      customerService: false,
+      maxBatchSize: 100,
+    },
+  },
+}));
+
+// Mock the services
+vi.mock('../services/accountService.js', () => ({
+  accountService: {
+    getAccountsByCustomerId: vi.fn(),
+    getAccountsByCustomerIds: vi.fn(),
+  },
+}));
+
+vi.mock('../services/customerService.js', () => ({
+  customerService: {
+    getCustomerById: vi.fn(),
+    getCustomersByIds: vi.fn(),
+  },
+}));
+
+describe('Request-scoped loaders', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    config.batching.accountService = false;
+    config.batching.customerService = false;
+    config.batching.maxBatchSize = 100;
+  });
+
+  describe('customerById', () => {
+    it('should fall back to parallel single fetches when batching is disabled', async () => {
+      vi.mocked(customerService.getCustomerById).mockImplementation(async (id: string) => ({
+        id,
+        name: `Customer ${id}`,
+        email: `${id}@example.com`,
+      }));
+
+      const loaders = createLoaders();
+      const [a, b] = await Promise.all([
+        loaders.customerById.load('c1'),
+        loaders.customerById.load('c2'),
+      ]);
+
+      expect(a.id).toBe('c1');
+      expect(b.id).toBe('c2');
+      expect(customerService.getCustomerById).toHaveBeenCalledTimes(2);
+      expect(customerService.getCustomersByIds).not.toHaveBeenCalled();
+    });
+
+    it('should deduplicate lookups of the same ID', async () => {
+      vi.mocked(customerService.getCustomerById).mockResolvedValue({
+        id: 'c1',
+        name: 'Customer c1',
+        email: 'c1@example.com',
+      });
+
+      const loaders = createLoaders();
+      await Promise.all([
+        loaders.customerById.load('c1'),
+        loaders.customerById.load('c1'),
+        loaders.customerById.load('c1'),
+      ]);
+      await loaders.customerById.load('c1');
+
+      expect(customerService.getCustomerById).toHaveBeenCalledTimes(1);
+    });
+
+    it('should use the batch endpoint when enabled', async () => {
+      config.batching.customerService = true;
+      vi.mocked(customerService.getCustomersByIds).mockResolvedValue([
+        { id: 'c2', name: 'Customer c2', email: 'c2@example.com' },
+        { id: 'c1', name: 'Customer c1', email: 'c1@example.com' },
+      ]);
+
+      const loaders = createLoaders();
+      const [a, b] = await Promise.all([
+        loaders.customerById.load('c1'),
+        loaders.customerById.load('c2'),
+      ]);
+
+      expect(customerService.getCustomersByIds).toHaveBeenCalledTimes(1);
+      expect(customerService.getCustomersByIds).toHaveBeenCalledWith(['c1', 'c2']);
+      expect(customerService.getCustomerById).not.toHaveBeenCalled();
+      expect(a.id).toBe('c1');
+      expect(b.id).toBe('c2');
+    });
+
+    it('should reject only the IDs missing from a batch response', async () => {
+      config.batching.customerService = true;
+      vi.mocked(customerService.getCustomersByIds).mockResolvedValue([
+        { id: 'c1', name: 'Customer c1', email: 'c1@example.com' },
+      ]);
+
+      const loaders = createLoaders();
+      const results = await Promise.allSettled([
+        loaders.customerById.load('c1'),
+        loaders.customerById.load('missing'),
+      ]);
+
+      expect(results[0].status).toBe('fulfilled');
+      expect(results[1].status).toBe('rejected');
+      expect((results[1] as PromiseRejectedResult).reason.message).toBe('Customer missing not found');
+    });
+
+    it('should isolate single-fetch failures to their own key', async () => {
+      vi.mocked(customerService.getCustomerById).mockImplementation(async (id: string) => {
+        if (id === 'bad') {
+          throw new Error('Failed to fetch customer bad: 500 Internal Server Error');
+        }
+        return { id, name: `Customer ${id}`, email: `${id}@example.com` };
+      });
+
+      const loaders = createLoaders();
+      const results = await Promise.allSettled([
+        loaders.customerById.load('good'),
+        loaders.customerById.load('bad'),
+      ]);
+
+      expect(results[0].status).toBe('fulfilled');
+      expect(results[1].status).toBe('rejected');
+    });
+
+    it('should respect the configured max batch size', async () => {
+      config.batching.customerService = true;
+      config.batching.maxBatchSize = 2;
+      vi.mocked(customerService.getCustomersByIds).mockImplementation(async (ids: readonly string[]) =>
+        ids.map(id => ({ id, name: `Customer ${id}`, email: `${id}@example.com` }))
+      );
+
+      const loaders = createLoaders();
+      await loaders.customerById.loadMany(['c1', 'c2', 'c3']);
+
+      expect(customerService.getCustomersByIds).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('accountsByCustomerId', () => {
+    it('should fall back to parallel single fetches when batching is disabled', async () => {
+      vi.mocked(accountService.getAccountsByCustomerId).mockResolvedValue([]);
+
+      const loaders = createLoaders();
+      await Promise.all([
+        loaders.accountsByCustomerId.load('c1'),
+        loaders.accountsByCustomerId.load('c2'),
+      ]);
+
+      expect(accountService.getAccountsByCustomerId).toHaveBeenCalledTimes(2);
+      expect(accountService.getAccountsByCustomerIds).not.toHaveBeenCalled();
+    });
+
+    it('should group batched accounts by customer ID', async () => {
+      config.batching.accountService = true;
+      vi.mocked(accountService.getAccountsByCustomerIds).mockResolvedValue([
+        { id: 'a1', accountNumber: 'ACC-1', balance: 10, customerId: 'c1' },
+        { id: 'a2', accountNumber: 'ACC-2', balance: 20, customerId: 'c2' },
+        { id: 'a3', accountNumber: 'ACC-3', balance: 30, customerId: 'c1' },
+      ]);
+
+      const loaders = createLoaders();
+      const [c1, c2, c3] = await Promise.all([
+        loaders.accountsByCustomerId.load('c1'),
+        loaders.accountsByCustomerId.load('c2'),
+        loaders.accountsByCustomerId.load('c3'),
+      ]);
+
+      expect(accountService.getAccountsByCustomerIds).toHaveBeenCalledTimes(1);
+      expect(c1.map(account => account.id)).toEqual(['a1', 'a3']);
+      expect(c2.map(account => account.id)).toEqual(['a2']);
+      expect(c3).toEqual([]);
+    });
+  });
+
+  describe('Request isolation', () => {
+    it('should not share cached results between loader sets', async () => {
+      vi.mocked(customerService.getCustomerById).mockResolvedValue({
+        id: 'c1',
+        name: 'Customer c1',
+        email: 'c1@example.com',
+      });
+
+      await createLoaders().customerById.load('c1');
+      await createLoaders().customerById.load('c1');
+
+      expect(customerService.getCustomerById).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -0,0 +1,87 @@
+import DataLoader from 'dataloader';
+import { config } from '../config/index.js';
+import { accountService } from '../services/accountService.js';
+import type { Account } from '../services/accountService.js';
+import { customerService } from '../services/customerService.js';
+import type { Customer } from '../services/customerService.js';
+import { DownstreamNotFound } from '../services/errors.js';
+
+/**
+ * Request-scoped DataLoaders for downstream lookups
+ * Deduplicates and batches calls made while resolving a single GraphQL operation
+ */
+export interface Loaders {
+  customerById: DataLoader<string, Customer>;
+  accountsByCustomerId: DataLoader<string, Account[]>;
+}
+
+/**
+ * Fetch each key on its own, in parallel, keeping per-key failures isolated
+ * Used when a downstream service has no batch endpoint
+ */
+async function loadIndividually<V>(
+  keys: readonly string[],
+  fetchOne: (key: string) => Promise<V>
+): Promise<Array<V | Error>> {
+  const results = await Promise.allSettled(keys.map(key => fetchOne(key)));
+
+  return results.map(result =>
+    result.status === 'fulfilled'
+      ? result.value
+      : result.reason instanceof Error ? result.reason : new Error(String(result.reason))
+  );
+}
+
+/**
+ * Batch function for customers - one GET /customers?ids= call when enabled
+ */
+async function batchCustomers(ids: readonly string[]): Promise<Array<Customer | Error>> {
+  if (!config.batching.customerService) {
+    return loadIndividually(ids, id => customerService.getCustomerById(id));
+  }
+
+  const customers = await customerService.getCustomersByIds(ids);
+  const byId = new Map(customers.map(customer => [customer.id, customer]));
+
+  // IDs missing from the batch response behave like a single-fetch 404
+  return ids.map(id => byId.get(id) ?? new DownstreamNotFound(`Customer ${id} not found`, {
+    service: 'customer-service',
+    method: 'GET',
+    url: `/customers?ids=${encodeURIComponent(id)}`,
+    status: 404,
+    elapsedMs: 0,
+  }));
+}
+
+/**
+ * Batch function for accounts - one GET /accounts?customerIds= call when enabled
+ */
+async function batchAccountsByCustomer(customerIds: readonly string[]): Promise<Array<Account[] | Error>> {
+  if (!config.batching.accountService) {
+    return loadIndividually(customerIds, id => accountService.getAccountsByCustomerId(id));
+  }
+
+  const accounts = await accountService.getAccountsByCustomerIds(customerIds);
+  const byCustomer = new Map<string, Account[]>();
+
+  for (const account of accounts) {
+    const existing = byCustomer.get(account.customerId) ?? [];
+    existing.push(account);
+    byCustomer.set(account.customerId, existing);
+  }
+
+  return customerIds.map(customerId => byCustomer.get(customerId) ?? []);
+}
+
+/**
+ * Create a fresh set of loaders - must be called once per GraphQL request
+ * so cached results never leak between requests or users
+ */
+export function createLoaders(): Loaders {
+  const options = { maxBatchSize: config.batching.maxBatchSize };
+
+  return {
+    customerById: new DataLoader(batchCustomers, options),
+    accountsByCustomerId: new DataLoader(batchAccountsByCustomer, options),
+  };
+}
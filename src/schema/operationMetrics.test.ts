@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { createSchema, createYoga } from 'graphql-yoga';
+import { useOperationMetrics } from './operationMetrics.js';
+import { metrics } from '../services/metrics.js';
+
+const schema = createSchema({
+  typeDefs: /* GraphQL */ `type Query { hello: String }`,
+  resolvers: { Query: { hello: () => 'world' } },
+});
+
+const operationCounts = () => {
+  const counter = metrics.snapshot().find(metric => metric.name === 'graphql_operations_total');
+  return counter?.type === 'counter'
+    ? Object.fromEntries(counter.series.map(series => [`${series.labels.operation_name} ${series.labels.has_errors}`, series.value]))
+    : {};
+};
+
+describe('useOperationMetrics', () => {
+  const yoga = createYoga({ schema, plugins: [useOperationMetrics({ maxOperationNames: 2 })], logging: false });
+
+  const execute = async (query: string) => {
+    const response = await yoga.fetch('http://localhost/graphql', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ query }),
+    });
+    await response.json();
+  };
+
+  it('should bound the operation names a client can create series for', async () => {
+    await execute('query First { hello }');
+    await execute('query Second { hello }');
+    await execute('query Third { hello }');
+    await execute('query Fourth { hello }');
+    await execute('query First { hello }');
+    await execute('{ hello }');
+    await execute('query Attacker123 { nope }');
+
+    expect(operationCounts()).toEqual({
+      'First false': 2,
+      'Second false': 1,
+      'other false': 2,
+      'anonymous false': 1,
+      'invalid true': 1,
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import { getOperationAST } from 'graphql';
+import type { DocumentNode } from 'graphql';
+import type { Plugin } from 'graphql-yoga';
+import { metrics } from '../services/metrics.js';
+
+const labelNames = ['operation_name', 'operation_type', 'has_errors'];
+
+const operations = metrics.counter({
+  name: 'graphql_operations_total',
+  help: 'GraphQL operations by operation name, type and whether the result had errors',
+  labelNames,
+});
+
+const operationDuration = metrics.histogram({
+  name: 'graphql_operation_duration_seconds',
+  help: 'GraphQL execution time (validation time for invalid operations) by operation name, type and whether the result had errors',
+  labelNames,
+});
+
+export interface OperationMetricsOptions {
+  maxOperationNames: number;   // Distinct operation_name values per worker before the rest become "other"
+}
+
+/**
+ * Yoga plugin recording every operation once it completes
+ * Operation names come from the client, so they are bounded: operations that
+ * fail validation are recorded as "invalid", and names beyond the first
+ * maxOperationNames as "other". Anonymous operations share one series; a
+ * streamed (@defer/@stream) result counts as successful when it starts
+ */
+export function useOperationMetrics(options: OperationMetricsOptions): Plugin {
+  const knownNames = new Set<string>();
+
+  function operationLabels(document: DocumentNode, operationName?: string | null) {
+    const operation = getOperationAST(document, operationName);
+    let name = operation?.name?.value ?? 'anonymous';
+    if (name !== 'anonymous' && !knownNames.has(name)) {
+      if (knownNames.size < options.maxOperationNames) {
+        knownNames.add(name);
+      } else {
+        name = 'other';
+      }
+    }
+    return { operation_name: name, operation_type: operation?.operation ?? 'unknown' };
+  }
+
+  return {
+    onValidate() {
+      // Named only after validation - an invalid document would otherwise claim a name
+      const stop = operationDuration.startTimer({ operation_name: 'invalid', operation_type: 'unknown' });
+
+      return ({ valid }) => {
+        if (!valid) {
+          stop({ has_errors: 'true' });
+          operations.inc({ operation_name: 'invalid', operation_type: 'unknown', has_errors: 'true' });
+        }
+      };
+    },
+
+    onExecute({ args }) {
+      const labels = operationLabels(args.document, args.operationName);
+      const stop = operationDuration.startTimer(labels);
+
+      return {
+        onExecuteDone({ result }) {
+          const hasErrors = Symbol.asyncIterator in result ? false : (result.errors?.length ?? 0) > 0;
+          stop({ has_errors: String(hasErrors) });
+          operations.inc({ ...labels, has_errors: String(hasErrors) });
+        },
+      };
+    },
+  };
+}
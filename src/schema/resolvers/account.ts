@@ -1,5 +1,3 @@
-import { config } from '../../config/environment.js';
-
 // Placeholder for account service client - would be implemented as HTTP client
 const accountService = {
   async getAccountById(id: string) {
@@ -1,6 +1,6 @@
 import { accountService } from '../../services/accountService.js';
-import { customerService } from '../../services/customerService.js';
-import { GraphQLError } from 'graphql';
+import type { GraphQLContext } from '../context.js';
+import { isNotFound, toGraphQLError } from '../errors.js';
 
 /**
  * Account resolver functions - THIN BFF pattern
@@ -10,35 +10,36 @@ import { GraphQLError } from 'graphql';
 export const accountResolver = {
   /**
    * Get account by ID - thin pass-through to account service
-   * No transformation, validation, or computation
+   * Resolves to null when the account does not exist (Query.account is nullable)
    */
-  async getAccount(parent: any, { id }: { id: string }, context: { requestId?: string }) {
-    console.log(`[${context.requestId || 'unknown'}] Fetching account: ${id}`);
+  async getAccount(parent: any, { id }: { id: string }, context: GraphQLContext) {
+    context.logger.debug('Fetching account', { accountId: id });
     
     try {
       // Direct pass-through to service - no transformation
       const result = await accountService.getAccountById(id);
       return result;
     } catch (error) {
-      const message = error instanceof Error ? error.message : 'Failed to fetch account';
-      throw new GraphQLError(message);
+      if (isNotFound(error)) {
+        return null;
+      }
+      throw toGraphQLError(error, context, 'Failed to fetch account');
     }
   },
 
   /**
    * Get customer for account - thin pass-through to customer service
-   * No transformation, validation, or computation
+   * Batched and deduplicated per request through the customer loader
    */
-  async getCustomer(account: { customerId: string }, args: any, context: { requestId?: string }) {
-    console.log(`[${context.requestId || 'unknown'}] Fetching customer for account: ${account.customerId}`);
+  async getCustomer(account: { customerId: string }, args: any, context: GraphQLContext) {
+    context.logger.debug('Fetching customer for account', { customerId: account.customerId });
     
     try {
-      // Direct pass-through to service - no transformation
-      const result = await customerService.getCustomerById(account.customerId);
+      // Pass-through via request-scoped loader - no transformation
+      const result = await context.loaders.customerById.load(account.customerId);
       return result;
     } catch (error) {
-      const message = error instanceof Error ? error.message : 'Failed to fetch customer';
-      throw new GraphQLError(message);
+      throw toGraphQLError(error, context, 'Failed to fetch customer');
     }
   },
 };
\ No newline at end of file
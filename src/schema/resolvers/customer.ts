@@ -1,5 +1,3 @@
-import { config } from '../../config/environment.js';
-
 // Placeholder for customer service client
 const customerService = {
   async getCustomerById(id: string) {
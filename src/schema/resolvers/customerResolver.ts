@@ -1,6 +1,5 @@
-import { customerService } from '../../services/customerService.js';
-import { accountService } from '../../services/accountService.js';
-import { GraphQLError } from 'graphql';
+import type { GraphQLContext } from '../context.js';
+import { isNotFound, toGraphQLError } from '../errors.js';
 
 /**
  * Customer resolver functions - THIN BFF pattern
@@ -10,35 +9,37 @@ import { GraphQLError } from 'graphql';
 export const customerResolver = {
   /**
    * Get customer by ID - thin pass-through to customer service
-   * No transformation, validation, or computation
+   * Shares the customer loader so nested lookups of the same ID are not refetched
+   * Resolves to null when the customer does not exist (Query.customer is nullable)
    */
-  async getCustomer(parent: any, { id }: { id: string }, context: { requestId?: string }) {
-    console.log(`[${context.requestId || 'unknown'}] Fetching customer: ${id}`);
+  async getCustomer(parent: any, { id }: { id: string }, context: GraphQLContext) {
+    context.logger.debug('Fetching customer', { customerId: id });
     
     try {
-      // Direct pass-through to service - no transformation
-      const result = await customerService.getCustomerById(id);
+      // Pass-through via request-scoped loader - no transformation
+      const result = await context.loaders.customerById.load(id);
       return result;
     } catch (error) {
-      const message = error instanceof Error ? error.message : 'Failed to fetch customer';
-      throw new GraphQLError(message);
+      if (isNotFound(error)) {
+        return null;
+      }
+      throw toGraphQLError(error, context, 'Failed to fetch customer');
     }
   },
 
   /**
    * Get accounts for customer - thin pass-through to account service
-   * No transformation, validation, or computation
+   * Batched and deduplicated per request through the accounts loader
    */
-  async getAccounts(customer: { id: string }, args: any, context: { requestId?: string }) {
-    console.log(`[${context.requestId || 'unknown'}] Fetching accounts for customer: ${customer.id}`);
+  async getAccounts(customer: { id: string }, args: any, context: GraphQLContext) {
+    context.logger.debug('Fetching accounts for customer', { customerId: customer.id });
     
     try {
-      // Direct pass-through to service - no transformation
-      const result = await accountService.getAccountsByCustomerId(customer.id);
+      // Pass-through via request-scoped loader - no transformation
+      const result = await context.loaders.accountsByCustomerId.load(customer.id);
       return result;
     } catch (error) {
-      const message = error instanceof Error ? error.message : 'Failed to fetch accounts';
-      throw new GraphQLError(message);
+      throw toGraphQLError(error, context, 'Failed to fetch accounts');
     }
   },
 };
\ No newline at end of file
@@ -1,5 +1,8 @@
 import { accountResolver } from './accountResolver.js';
 import { customerResolver } from './customerResolver.js';
+import { userResolvers } from './user.js';
+import { productResolvers } from './product.js';
+import { notificationResolvers } from './notification.js';
 
 /**
  * Combined resolvers for the Graph Conduit Accounts BFF
@@ -9,13 +12,22 @@ export const resolvers = {
   Query: {
     account: accountResolver.getAccount,
     customer: customerResolver.getCustomer,
+    ...userResolvers.Query,
+    ...productResolvers.Query,
+    ...notificationResolvers.Query,
   },
-  
+
+  Mutation: {
+    ...userResolvers.Mutation,
+    ...productResolvers.Mutation,
+    ...notificationResolvers.Mutation,
+  },
+
   Account: {
     customer: accountResolver.getCustomer,
   },
-  
+
   Customer: {
     accounts: customerResolver.getAccounts,
   },
-};
\ No newline at end of file
+};
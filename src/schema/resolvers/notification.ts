@@ -1,4 +1,6 @@
 import { notificationService } from '../../services/notificationService.js';
+import type { GraphQLContext } from '../context.js';
+import { toGraphQLError } from '../errors.js';
 
 export const notificationResolvers = {
   Query: {
@@ -7,13 +9,21 @@ export const notificationResolvers = {
       userId: string; 
       limit: number; 
       offset: number; 
-    }) {
-      return await notificationService.getUserNotifications(userId, { limit, offset });
+    }, context: GraphQLContext) {
+      try {
+        return await notificationService.getUserNotifications(userId, { limit, offset });
+      } catch (error) {
+        throw toGraphQLError(error, context, 'Failed to fetch notifications');
+      }
     },
 
     // Get count of unread notifications for a user
-    async unreadNotificationCount(_: any, { userId }: { userId: string }) {
-      return await notificationService.getUnreadCount(userId);
+    async unreadNotificationCount(_: any, { userId }: { userId: string }, context: GraphQLContext) {
+      try {
+        return await notificationService.getUnreadCount(userId);
+      } catch (error) {
+        throw toGraphQLError(error, context, 'Failed to fetch unread notification count');
+      }
     },
 
     // Health check for K8s probes
@@ -61,18 +71,30 @@ export const notificationResolvers = {
 
   Mutation: {
     // Create new notification - pass-through to notification service
-    async createNotification(_: any, { input }: { input: any }) {
-      return await notificationService.createNotification(input);
+    async createNotification(_: any, { input }: { input: any }, context: GraphQLContext) {
+      try {
+        return await notificationService.createNotification(input);
+      } catch (error) {
+        throw toGraphQLError(error, context, 'Failed to create notification');
+      }
     },
 
     // Mark notification as read
-    async markNotificationAsRead(_: any, { id }: { id: string }) {
-      return await notificationService.markAsRead(id);
+    async markNotificationAsRead(_: any, { id }: { id: string }, context: GraphQLContext) {
+      try {
+        return await notificationService.markAsRead(id);
+      } catch (error) {
+        throw toGraphQLError(error, context, 'Failed to mark notification as read');
+      }
     },
 
     // Delete notification
-    async deleteNotification(_: any, { id }: { id: string }) {
-      return await notificationService.deleteNotification(id);
+    async deleteNotification(_: any, { id }: { id: string }, context: GraphQLContext) {
+      try {
+        return await notificationService.deleteNotification(id);
+      } catch (error) {
+        throw toGraphQLError(error, context, 'Failed to delete notification');
+      }
     },
   },
 };
\ No newline at end of file
@@ -1,10 +1,19 @@
 import { productService } from '../../services/productService.js';
+import type { GraphQLContext } from '../context.js';
+import { isNotFound, toGraphQLError } from '../errors.js';
 
 export const productResolvers = {
   Query: {
-    // Get single product by ID - pass-through to product service
-    async product(_: any, { id }: { id: string }) {
-      return await productService.getProductById(id);
+    // Get single product by ID - pass-through to product service, null when not found
+    async product(_: any, { id }: { id: string }, context: GraphQLContext) {
+      try {
+        return await productService.getProductById(id);
+      } catch (error) {
+        if (isNotFound(error)) {
+          return null;
+        }
+        throw toGraphQLError(error, context, 'Failed to fetch product');
+      }
     },
 
     // Get list of products with optional category filter and pagination
@@ -12,25 +21,41 @@ export const productResolvers = {
       category?: string; 
       limit: number; 
       offset: number; 
-    }) {
-      return await productService.getProducts({ category, limit, offset });
+    }, context: GraphQLContext) {
+      try {
+        return await productService.getProducts({ category, limit, offset });
+      } catch (error) {
+        throw toGraphQLError(error, context, 'Failed to fetch products');
+      }
     },
   },
 
   Mutation: {
     // Create new product - pass-through to product service
-    async createProduct(_: any, { input }: { input: any }) {
-      return await productService.createProduct(input);
+    async createProduct(_: any, { input }: { input: any }, context: GraphQLContext) {
+      try {
+        return await productService.createProduct(input);
+      } catch (error) {
+        throw toGraphQLError(error, context, 'Failed to create product');
+      }
     },
 
     // Update product - pass-through to product service
-    async updateProduct(_: any, { id, input }: { id: string; input: any }) {
-      return await productService.updateProduct(id, input);
+    async updateProduct(_: any, { id, input }: { id: string; input: any }, context: GraphQLContext) {
+      try {
+        return await productService.updateProduct(id, input);
+      } catch (error) {
+        throw toGraphQLError(error, context, 'Failed to update product');
+      }
     },
 
     // Delete product - pass-through to product service
-    async deleteProduct(_: any, { id }: { id: string }) {
-      return await productService.deleteProduct(id);
+    async deleteProduct(_: any, { id }: { id: string }, context: GraphQLContext) {
+      try {
+        return await productService.deleteProduct(id);
+      } catch (error) {
+        throw toGraphQLError(error, context, 'Failed to delete product');
+      }
     },
   },
-};
\ No newline at end of file
+};
@@ -3,6 +3,10 @@ import { accountResolver } from './accountResolver.js';
 import { customerResolver } from './customerResolver.js';
 import { resolvers } from './index.js';
 import { GraphQLError } from 'graphql';
+import { createLoaders } from '../loaders.js';
+import type { GraphQLContext } from '../context.js';
+import { Logger } from '../../services/logger.js';
+import { DownstreamNotFound, DownstreamTimeout } from '../../services/errors.js';
 
 // Mock the services
 vi.mock('../../services/accountService.js', () => ({
@@ -18,12 +22,24 @@ vi.mock('../../services/customerService.js', () => ({
   },
 }));
 
-// Spy on console.log
-const consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+// Entries written by the resolvers' request loggers
+const logged: Record<string, unknown>[] = [];
+const testLogger = new Logger({ level: 'debug', format: 'json', write: (level, line) => logged.push(JSON.parse(line)) });
+
+// Fresh request context with its own loaders, as Yoga builds per request
+const testContext = (requestId?: string): GraphQLContext => ({
+  requestId,
+  loaders: createLoaders(),
+  logger: requestId ? testLogger.child({ requestId }) : testLogger,
+});
+
+const logEntry = (message: string, fields: Record<string, unknown>) =>
+  expect.objectContaining({ level: 'debug', message, ...fields });
 
 describe('GraphQL Resolvers', () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    logged.length = 0;
   });
 
   describe('Account Resolver', () => {
@@ -42,12 +58,12 @@ describe('GraphQL Resolvers', () => {
         const result = await accountResolver.getAccount(
           {},
           { id: 'acc123' },
-          { requestId: 'req-001' }
+          testContext('req-001')
         );
 
         expect(accountService.getAccountById).toHaveBeenCalledWith('acc123');
         expect(result).toEqual(mockAccount);
-        expect(consoleLogSpy).toHaveBeenCalledWith('[req-001] Fetching account: acc123');
+        expect(logged).toContainEqual(logEntry('Fetching account', { requestId: 'req-001', accountId: 'acc123' }));
       });
 
       it('should handle service errors and convert to GraphQLError', async () => {
@@ -55,11 +71,11 @@ describe('GraphQL Resolvers', () => {
         vi.mocked(accountService.getAccountById).mockRejectedValue(new Error('Service unavailable'));
 
         await expect(
-          accountResolver.getAccount({}, { id: 'acc123' }, { requestId: 'req-002' })
+          accountResolver.getAccount({}, { id: 'acc123' }, testContext('req-002'))
         ).rejects.toThrow(GraphQLError);
 
         await expect(
-          accountResolver.getAccount({}, { id: 'acc123' }, { requestId: 'req-002' })
+          accountResolver.getAccount({}, { id: 'acc123' }, testContext('req-002'))
         ).rejects.toThrow('Service unavailable');
 
         expect(accountService.getAccountById).toHaveBeenCalledWith('acc123');
@@ -70,11 +86,11 @@ describe('GraphQL Resolvers', () => {
         vi.mocked(accountService.getAccountById).mockRejectedValue('String error');
 
         await expect(
-          accountResolver.getAccount({}, { id: 'acc123' }, { requestId: 'req-003' })
+          accountResolver.getAccount({}, { id: 'acc123' }, testContext('req-003'))
         ).rejects.toThrow(GraphQLError);
 
         await expect(
-          accountResolver.getAccount({}, { id: 'acc123' }, { requestId: 'req-003' })
+          accountResolver.getAccount({}, { id: 'acc123' }, testContext('req-003'))
         ).rejects.toThrow('Failed to fetch account');
       });
 
@@ -84,10 +100,11 @@ describe('GraphQL Resolvers', () => {
         const { accountService } = await import('../../services/accountService.js');
         vi.mocked(accountService.getAccountById).mockResolvedValue(mockAccount);
 
-        const result = await accountResolver.getAccount({}, { id: 'acc123' }, {});
+        const result = await accountResolver.getAccount({}, { id: 'acc123' }, testContext());
 
         expect(result).toEqual(mockAccount);
-        expect(consoleLogSpy).toHaveBeenCalledWith('[unknown] Fetching account: acc123');
+        expect(logged).toContainEqual(logEntry('Fetching account', { accountId: 'acc123' }));
+
       });
     });
 
@@ -105,12 +122,12 @@ describe('GraphQL Resolvers', () => {
         const result = await accountResolver.getCustomer(
           { customerId: 'cust456' },
           {},
-          { requestId: 'req-004' }
+          testContext('req-004')
         );
 
         expect(customerService.getCustomerById).toHaveBeenCalledWith('cust456');
         expect(result).toEqual(mockCustomer);
-        expect(consoleLogSpy).toHaveBeenCalledWith('[req-004] Fetching customer for account: cust456');
+        expect(logged).toContainEqual(logEntry('Fetching customer for account', { requestId: 'req-004', customerId: 'cust456' }));
       });
 
       it('should handle customer service errors', async () => {
@@ -118,11 +135,11 @@ describe('GraphQL Resolvers', () => {
         vi.mocked(customerService.getCustomerById).mockRejectedValue(new Error('Customer not found'));
 
         await expect(
-          accountResolver.getCustomer({ customerId: 'cust456' }, {}, { requestId: 'req-005' })
+          accountResolver.getCustomer({ customerId: 'cust456' }, {}, testContext('req-005'))
         ).rejects.toThrow(GraphQLError);
 
         await expect(
-          accountResolver.getCustomer({ customerId: 'cust456' }, {}, { requestId: 'req-005' })
+          accountResolver.getCustomer({ customerId: 'cust456' }, {}, testContext('req-005'))
         ).rejects.toThrow('Customer not found');
       });
     });
@@ -143,12 +160,12 @@ describe('GraphQL Resolvers', () => {
         const result = await customerResolver.getCustomer(
           {},
           { id: 'cust789' },
-          { requestId: 'req-006' }
+          testContext('req-006')
         );
 
         expect(customerService.getCustomerById).toHaveBeenCalledWith('cust789');
         expect(result).toEqual(mockCustomer);
-        expect(consoleLogSpy).toHaveBeenCalledWith('[req-006] Fetching customer: cust789');
+        expect(logged).toContainEqual(logEntry('Fetching customer', { requestId: 'req-006', customerId: 'cust789' }));
       });
 
       it('should handle service errors', async () => {
@@ -156,11 +173,11 @@ describe('GraphQL Resolvers', () => {
         vi.mocked(customerService.getCustomerById).mockRejectedValue(new Error('Database connection failed'));
 
         await expect(
-          customerResolver.getCustomer({}, { id: 'cust789' }, { requestId: 'req-007' })
+          customerResolver.getCustomer({}, { id: 'cust789' }, testContext('req-007'))
         ).rejects.toThrow(GraphQLError);
 
         await expect(
-          customerResolver.getCustomer({}, { id: 'cust789' }, { requestId: 'req-007' })
+          customerResolver.getCustomer({}, { id: 'cust789' }, testContext('req-007'))
         ).rejects.toThrow('Database connection failed');
       });
     });
@@ -178,19 +195,19 @@ describe('GraphQL Resolvers', () => {
         const result = await customerResolver.getAccounts(
           { id: 'cust789' },
           {},
-          { requestId: 'req-008' }
+          testContext('req-008')
         );
 
         expect(accountService.getAccountsByCustomerId).toHaveBeenCalledWith('cust789');
         expect(result).toEqual(mockAccounts);
-        expect(consoleLogSpy).toHaveBeenCalledWith('[req-008] Fetching accounts for customer: cust789');
+        expect(logged).toContainEqual(logEntry('Fetching accounts for customer', { requestId: 'req-008', customerId: 'cust789' }));
       });
 
       it('should handle empty accounts list', async () => {
         const { accountService } = await import('../../services/accountService.js');
         vi.mocked(accountService.getAccountsByCustomerId).mockResolvedValue([]);
 
-        const result = await customerResolver.getAccounts({ id: 'cust789' }, {}, { requestId: 'req-009' });
+        const result = await customerResolver.getAccounts({ id: 'cust789' }, {}, testContext('req-009'));
 
         expect(result).toEqual([]);
         expect(accountService.getAccountsByCustomerId).toHaveBeenCalledWith('cust789');
@@ -201,11 +218,11 @@ describe('GraphQL Resolvers', () => {
         vi.mocked(accountService.getAccountsByCustomerId).mockRejectedValue(new Error('Service timeout'));
 
         await expect(
-          customerResolver.getAccounts({ id: 'cust789' }, {}, { requestId: 'req-010' })
+          customerResolver.getAccounts({ id: 'cust789' }, {}, testContext('req-010'))
         ).rejects.toThrow(GraphQLError);
 
         await expect(
-          customerResolver.getAccounts({ id: 'cust789' }, {}, { requestId: 'req-010' })
+          customerResolver.getAccounts({ id: 'cust789' }, {}, testContext('req-010'))
         ).rejects.toThrow('Service timeout');
       });
     });
@@ -229,6 +246,24 @@ describe('GraphQL Resolvers', () => {
       expect(typeof resolvers.Customer.accounts).toBe('function');
     });
 
+    it('should merge user, product and notification Query resolvers', () => {
+      for (const field of ['user', 'users', 'product', 'products', 'notifications', 'unreadNotificationCount', 'health']) {
+        expect(typeof (resolvers.Query as Record<string, unknown>)[field]).toBe('function');
+      }
+    });
+
+    it('should have correct Mutation resolvers', () => {
+      const mutations = [
+        'createUser', 'updateUser', 'deleteUser',
+        'createProduct', 'updateProduct', 'deleteProduct',
+        'createNotification', 'markNotificationAsRead', 'deleteNotification',
+      ];
+
+      for (const field of mutations) {
+        expect(typeof (resolvers.Mutation as Record<string, unknown>)[field]).toBe('function');
+      }
+    });
+
     it('should map to correct resolver functions', () => {
       expect(resolvers.Query.account).toBe(accountResolver.getAccount);
       expect(resolvers.Query.customer).toBe(customerResolver.getCustomer);
@@ -247,10 +282,10 @@ describe('GraphQL Resolvers', () => {
       vi.mocked(customerService.getCustomerById).mockRejectedValue(new Error('Test error'));
       vi.mocked(accountService.getAccountsByCustomerId).mockRejectedValue(new Error('Test error'));
 
-      await expect(accountResolver.getAccount({}, { id: 'test' }, {})).rejects.toBeInstanceOf(GraphQLError);
-      await expect(accountResolver.getCustomer({ customerId: 'test' }, {}, {})).rejects.toBeInstanceOf(GraphQLError);
-      await expect(customerResolver.getCustomer({}, { id: 'test' }, {})).rejects.toBeInstanceOf(GraphQLError);
-      await expect(customerResolver.getAccounts({ id: 'test' }, {}, {})).rejects.toBeInstanceOf(GraphQLError);
+      await expect(accountResolver.getAccount({}, { id: 'test' }, testContext())).rejects.toBeInstanceOf(GraphQLError);
+      await expect(accountResolver.getCustomer({ customerId: 'test' }, {}, testContext())).rejects.toBeInstanceOf(GraphQLError);
+      await expect(customerResolver.getCustomer({}, { id: 'test' }, testContext())).rejects.toBeInstanceOf(GraphQLError);
+      await expect(customerResolver.getAccounts({ id: 'test' }, {}, testContext())).rejects.toBeInstanceOf(GraphQLError);
     });
 
     it('should preserve error messages when converting to GraphQLError', async () => {
@@ -259,7 +294,7 @@ describe('GraphQL Resolvers', () => {
       vi.mocked(accountService.getAccountById).mockRejectedValue(new Error(errorMessage));
 
       try {
-        await accountResolver.getAccount({}, { id: 'test' }, {});
+        await accountResolver.getAccount({}, { id: 'test' }, testContext());
       } catch (error) {
         expect(error).toBeInstanceOf(GraphQLError);
         expect((error as GraphQLError).message).toBe(errorMessage);
@@ -267,6 +302,61 @@ describe('GraphQL Resolvers', () => {
     });
   });
 
+  describe('Downstream Error Mapping', () => {
+    const notFound = (service: string) => new DownstreamNotFound(`${service}: not found`, {
+      service,
+      method: 'GET',
+      url: `http://${service}:8080/x`,
+      status: 404,
+      elapsedMs: 3,
+    });
+
+    it('should resolve nullable lookups to null when the resource is not found', async () => {
+      const { accountService } = await import('../../services/accountService.js');
+      const { customerService } = await import('../../services/customerService.js');
+      vi.mocked(accountService.getAccountById).mockRejectedValue(notFound('account-service'));
+      vi.mocked(customerService.getCustomerById).mockRejectedValue(notFound('customer-service'));
+
+      await expect(accountResolver.getAccount({}, { id: 'missing' }, testContext())).resolves.toBeNull();
+      await expect(customerResolver.getCustomer({}, { id: 'missing' }, testContext())).resolves.toBeNull();
+    });
+
+    it('should raise NOT_FOUND for non-nullable fields', async () => {
+      const { customerService } = await import('../../services/customerService.js');
+      vi.mocked(customerService.getCustomerById).mockRejectedValue(notFound('customer-service'));
+
+      const error = await accountResolver
+        .getCustomer({ customerId: 'missing' }, {}, testContext('req-404'))
+        .catch(e => e);
+
+      expect(error).toBeInstanceOf(GraphQLError);
+      expect(error.extensions).toMatchObject({
+        code: 'NOT_FOUND',
+        requestId: 'req-404',
+        service: 'customer-service',
+      });
+    });
+
+    it('should raise DOWNSTREAM_TIMEOUT with requestId and service', async () => {
+      const { accountService } = await import('../../services/accountService.js');
+      vi.mocked(accountService.getAccountsByCustomerId).mockRejectedValue(new DownstreamTimeout('timed out', {
+        service: 'account-service',
+        method: 'GET',
+        url: 'http://account-service:8080/accounts?customerId=c1',
+        elapsedMs: 5000,
+      }));
+
+      const error = await customerResolver.getAccounts({ id: 'c1' }, {}, testContext('req-slow')).catch(e => e);
+
+      expect(error.message).toBe('Failed to fetch accounts: account-service timed out');
+      expect(error.extensions).toMatchObject({
+        code: 'DOWNSTREAM_TIMEOUT',
+        requestId: 'req-slow',
+        service: 'account-service',
+      });
+    });
+  });
+
   describe('Logging Behavior', () => {
     it('should log all resolver calls with request IDs', async () => {
       const { accountService } = await import('../../services/accountService.js');
@@ -276,24 +366,25 @@ describe('GraphQL Resolvers', () => {
       vi.mocked(customerService.getCustomerById).mockResolvedValue({} as any);
       vi.mocked(accountService.getAccountsByCustomerId).mockResolvedValue([]);
 
-      await accountResolver.getAccount({}, { id: 'acc123' }, { requestId: 'req-001' });
-      await accountResolver.getCustomer({ customerId: 'cust456' }, {}, { requestId: 'req-002' });
-      await customerResolver.getCustomer({}, { id: 'cust789' }, { requestId: 'req-003' });
-      await customerResolver.getAccounts({ id: 'cust101' }, {}, { requestId: 'req-004' });
+      await accountResolver.getAccount({}, { id: 'acc123' }, testContext('req-001'));
+      await accountResolver.getCustomer({ customerId: 'cust456' }, {}, testContext('req-002'));
+      await customerResolver.getCustomer({}, { id: 'cust789' }, testContext('req-003'));
+      await customerResolver.getAccounts({ id: 'cust101' }, {}, testContext('req-004'));
 
-      expect(consoleLogSpy).toHaveBeenCalledWith('[req-001] Fetching account: acc123');
-      expect(consoleLogSpy).toHaveBeenCalledWith('[req-002] Fetching customer for account: cust456');
-      expect(consoleLogSpy).toHaveBeenCalledWith('[req-003] Fetching customer: cust789');
-      expect(consoleLogSpy).toHaveBeenCalledWith('[req-004] Fetching accounts for customer: cust101');
+      expect(logged).toContainEqual(logEntry('Fetching account', { requestId: 'req-001', accountId: 'acc123' }));
+      expect(logged).toContainEqual(logEntry('Fetching customer for account', { requestId: 'req-002', customerId: 'cust456' }));
+      expect(logged).toContainEqual(logEntry('Fetching customer', { requestId: 'req-003', customerId: 'cust789' }));
+      expect(logged).toContainEqual(logEntry('Fetching accounts for customer', { requestId: 'req-004', customerId: 'cust101' }));
     });
 
-    it('should use "unknown" for missing request IDs', async () => {
+    it('should log without a request ID when none is set', async () => {
       const { accountService } = await import('../../services/accountService.js');
       vi.mocked(accountService.getAccountById).mockResolvedValue({} as any);
 
-      await accountResolver.getAccount({}, { id: 'acc123' }, {});
+      await accountResolver.getAccount({}, { id: 'acc123' }, testContext());
 
-      expect(consoleLogSpy).toHaveBeenCalledWith('[unknown] Fetching account: acc123');
+      expect(logged).toContainEqual(logEntry('Fetching account', { accountId: 'acc123' }));
+      expect(logged[0]).not.toHaveProperty('requestId');
     });
   });
 
@@ -310,7 +401,7 @@ describe('GraphQL Resolvers', () => {
 
       vi.mocked(accountService.getAccountById).mockResolvedValue(originalData);
 
-      const result = await accountResolver.getAccount({}, { id: 'acc123' }, {});
+      const result = await accountResolver.getAccount({}, { id: 'acc123' }, testContext());
 
       expect(result).toEqual(originalData);
       expect(result).toBe(originalData); // Same object reference - no transformation
@@ -326,10 +417,10 @@ describe('GraphQL Resolvers', () => {
 
       vi.mocked(customerService.getCustomerById).mockResolvedValue(customerData);
 
-      const result = await customerResolver.getCustomer({}, { id: 'cust123' }, {});
+      const result = await customerResolver.getCustomer({}, { id: 'cust123' }, testContext());
 
       // Result should be exactly what service returned - no additional fields, formatting, etc.
-      expect(Object.keys(result)).toEqual(Object.keys(customerData));
+      expect(Object.keys(result!)).toEqual(Object.keys(customerData));
       expect(result).toEqual(customerData);
     });
 
@@ -337,7 +428,7 @@ describe('GraphQL Resolvers', () => {
       const { accountService } = await import('../../services/accountService.js');
       vi.mocked(accountService.getAccountsByCustomerId).mockResolvedValue([]);
 
-      await customerResolver.getAccounts({ id: 'cust123' }, {}, {});
+      await customerResolver.getAccounts({ id: 'cust123' }, {}, testContext());
 
       // Verify only one service call was made - no additional processing
       expect(accountService.getAccountsByCustomerId).toHaveBeenCalledTimes(1);
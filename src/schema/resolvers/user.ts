@@ -1,32 +1,57 @@
 import { userService } from '../../services/userService.js';
+import type { GraphQLContext } from '../context.js';
+import { isNotFound, toGraphQLError } from '../errors.js';
 
 export const userResolvers = {
   Query: {
-    // Get single user by ID - pass-through to user service
-    async user(_: any, { id }: { id: string }) {
-      return await userService.getUserById(id);
+    // Get single user by ID - pass-through to user service, null when not found
+    async user(_: any, { id }: { id: string }, context: GraphQLContext) {
+      try {
+        return await userService.getUserById(id);
+      } catch (error) {
+        if (isNotFound(error)) {
+          return null;
+        }
+        throw toGraphQLError(error, context, 'Failed to fetch user');
+      }
     },
 
     // Get list of users with pagination - pass-through to user service
-    async users(_: any, { limit, offset }: { limit: number; offset: number }) {
-      return await userService.getUsers({ limit, offset });
+    async users(_: any, { limit, offset }: { limit: number; offset: number }, context: GraphQLContext) {
+      try {
+        return await userService.getUsers({ limit, offset });
+      } catch (error) {
+        throw toGraphQLError(error, context, 'Failed to fetch users');
+      }
     },
   },
 
   Mutation: {
     // Create new user - pass-through to user service
-    async createUser(_: any, { input }: { input: any }) {
-      return await userService.createUser(input);
+    async createUser(_: any, { input }: { input: any }, context: GraphQLContext) {
+      try {
+        return await userService.createUser(input);
+      } catch (error) {
+        throw toGraphQLError(error, context, 'Failed to create user');
+      }
     },
 
     // Update user - pass-through to user service
-    async updateUser(_: any, { id, input }: { id: string; input: any }) {
-      return await userService.updateUser(id, input);
+    async updateUser(_: any, { id, input }: { id: string; input: any }, context: GraphQLContext) {
+      try {
+        return await userService.updateUser(id, input);
+      } catch (error) {
+        throw toGraphQLError(error, context, 'Failed to update user');
+      }
     },
 
     // Delete user - pass-through to user service
-    async deleteUser(_: any, { id }: { id: string }) {
-      return await userService.deleteUser(id);
+    async deleteUser(_: any, { id }: { id: string }, context: GraphQLContext) {
+      try {
+        return await userService.deleteUser(id);
+      } catch (error) {
+        throw toGraphQLError(error, context, 'Failed to delete user');
+      }
     },
   },
-};
\ No newline at end of file
+};
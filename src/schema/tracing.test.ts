@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createSchema, createYoga } from 'graphql-yoga';
+import { SpanStatusCode } from '@opentelemetry/api';
+import { InMemorySpanExporter } from '@opentelemetry/sdk-trace-base';
+import { useTracing } from './tracing.js';
+import { tracer } from '../services/tracing.js';
+import { createTraceContext, runWithTraceContext } from '../services/traceContext.js';
+
+const schema = createSchema({
+  typeDefs: /* GraphQL */ `
+    type Account { id: ID!, owner: Customer }
+    type Customer { id: ID!, name: String }
+    type Query { accounts: [Account!]!, broken: String }
+  `,
+  resolvers: {
+    Query: {
+      accounts: async () => [{ id: 'acc1' }, { id: 'acc2' }],
+      broken: () => { throw new Error('downstream failed'); },
+    },
+    Account: {
+      owner: async (account: { id: string }) => ({ id: `owner-of-${account.id}` }),
+    },
+  },
+});
+
+describe('useTracing', () => {
+  let exporter: InMemorySpanExporter;
+  const yoga = createYoga({ schema, plugins: [useTracing()], logging: false });
+
+  const execute = (query: string) => runWithTraceContext(
+    createTraceContext(name => (name === 'traceparent' ? '00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01' : undefined)),
+    async () => {
+      const response = await yoga.fetch('http://localhost/graphql', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ query }),
+      });
+      await response.json();
+      await tracer.forceFlush();
+      return exporter.getFinishedSpans();
+    },
+  );
+
+  beforeEach(() => {
+    exporter = new InMemorySpanExporter();
+    tracer.start(exporter);
+  });
+
+  afterEach(async () => {
+    await tracer.shutdown();
+  });
+
+  it('should record the operation with a child span per resolver', async () => {
+    const spans = await execute('query ListAccounts { accounts { id owner { id name } } }');
+
+    const operation = spans.find(span => span.name === 'query ListAccounts')!;
+    expect(operation).toMatchObject({
+      parentSpanContext: { spanId: 'b7ad6b7169203331' },
+      attributes: { 'graphql.operation.type': 'query', 'graphql.operation.name': 'ListAccounts' },
+    });
+
+    const resolvers = spans.filter(span => span !== operation);
+    expect(resolvers.map(span => span.attributes['graphql.field.path']).sort()).toEqual([
+      'accounts',
+      'accounts.0.owner',
+      'accounts.1.owner',
+    ]);
+    for (const span of resolvers) {
+      expect(span.parentSpanContext?.spanId).toBe(operation.spanContext().spanId);
+    }
+    expect(resolvers.find(span => span.name === 'Account.owner')!.attributes).toMatchObject({
+      'graphql.field.name': 'owner',
+      'graphql.field.type': 'Customer',
+      'graphql.parent.type': 'Account',
+    });
+  });
+
+  it('should mark failing resolvers and the operation as errors', async () => {
+    const spans = await execute('{ broken }');
+
+    const resolver = spans.find(span => span.name === 'Query.broken')!;
+    const operation = spans.find(span => span.name === 'query')!;
+    expect(resolver.status).toEqual({ code: SpanStatusCode.ERROR, message: 'downstream failed' });
+    expect(operation.status.code).toBe(SpanStatusCode.ERROR);
+    expect(operation.attributes['graphql.error.count']).toBe(1);
+  });
+});
@@ -0,0 +1,79 @@
+import { getOperationAST, isObjectType, responsePathAsArray } from 'graphql';
+import type { GraphQLFieldResolver, GraphQLSchema } from 'graphql';
+import type { Plugin } from 'graphql-yoga';
+import { SpanStatusCode } from '@opentelemetry/api';
+import { tracer } from '../services/tracing.js';
+
+const traced = Symbol('traced');
+
+type TracedResolver = GraphQLFieldResolver<unknown, unknown> & { [traced]?: true };
+
+/**
+ * Wrap every field that has its own resolver in a span
+ * Default property resolvers are skipped - they do no I/O and would only add noise
+ */
+function traceResolvers(schema: GraphQLSchema): void {
+  for (const type of Object.values(schema.getTypeMap())) {
+    if (!isObjectType(type) || type.name.startsWith('__')) {
+      continue;
+    }
+
+    for (const field of Object.values(type.getFields())) {
+      const resolve = field.resolve as TracedResolver | undefined;
+      if (!resolve || resolve[traced]) {
+        continue;
+      }
+
+      const tracedResolve: TracedResolver = (source, args, context, info) =>
+        tracer.trace(`${info.parentType.name}.${info.fieldName}`, {
+          attributes: {
+            'graphql.field.name': info.fieldName,
+            'graphql.field.path': responsePathAsArray(info.path).join('.'),
+            'graphql.field.type': String(info.returnType),
+            'graphql.parent.type': info.parentType.name,
+          },
+        }, () => resolve(source, args, context, info));
+      tracedResolve[traced] = true;
+      field.resolve = tracedResolve;
+    }
+  }
+}
+
+/**
+ * Yoga plugin adding a span per executed operation and per resolver
+ * Resolver spans are children of the operation span, downstream client spans
+ * children of the resolver that made the call
+ */
+export function useTracing(): Plugin {
+  return {
+    onSchemaChange({ schema }) {
+      traceResolvers(schema);
+    },
+
+    onExecute({ args, executeFn, setExecuteFn }) {
+      const operation = getOperationAST(args.document, args.operationName);
+      const type = operation?.operation ?? 'unknown';
+      const name = operation?.name?.value;
+      const span = tracer.startSpan(name ? `${type} ${name}` : type, {
+        attributes: {
+          'graphql.operation.type': type,
+          'graphql.operation.name': name,
+        },
+      });
+
+      setExecuteFn(executeArgs => tracer.withSpan(span, () => executeFn(executeArgs)));
+
+      return {
+        onExecuteDone({ result }) {
+          // A streamed (@defer/@stream) result counts as successful when it starts
+          const errors = Symbol.asyncIterator in result ? undefined : result.errors;
+          if (errors?.length) {
+            span.setAttribute('graphql.error.count', errors.length);
+            span.setStatus({ code: SpanStatusCode.ERROR, message: errors[0].message });
+          }
+          span.end();
+        },
+      };
+    },
+  };
+}
@@ -1,11 +1,48 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { accountService } from './accountService.js';
+import { createTraceContext, runWithTraceContext } from './traceContext.js';
+import { runWithCallerToken } from './credentials.js';
+import { DownstreamBadResponse, DownstreamNotFound, DownstreamUnavailable } from './errors.js';
 
 // Mock the config
-vi.mock('../config/environment.js', () => ({
+vi.mock('../config/index.js', () => ({
   config: {
-    downstream: {
+    services: {
       accountService: 'http://account-service:8080',
+      authService: 'http://auth-service:8080',
+    },
+    downstreamCredentials: {
+      accountService: { mode: 'passthrough' },
+    },
+    tokenExchange: {
+      expiryMarginSeconds: 30,
+      cacheEnabled: true,
+    },
+    request: {
+      timeout: 5000,
+      retry: {
+        maxRetries: 0,
+        baseDelayMs: 100,
+        maxDelayMs: 1000,
+      },
+    },
+    sharedStore: {
+      timeoutMs: 1000,
+    },
+    logging: {
+      level: 'info',
+      format: 'json',
+    },
+    redaction: {
+      enabled: false,
+      fields: [],
+    },
+    serviceMesh: {
+      serviceName: 'graph-conduit-accounts',
+      serviceVersion: '1.0.0',
+    },
+    circuitBreaker: {
+      enabled: false,
     },
   },
 }));
@@ -39,7 +76,7 @@ describe('AccountService', () => {
 
       const result = await accountService.getAccountById('123');
 
-      expect(mockFetch).toHaveBeenCalledWith('http://account-service:8080/accounts/123');
+      expect(mockFetch).toHaveBeenCalledWith('http://account-service:8080/accounts/123', expect.objectContaining({ method: 'GET' }));
       expect(result).toEqual(mockAccount);
     });
 
@@ -52,9 +89,9 @@ describe('AccountService', () => {
 
       await expect(accountService.getAccountById('999'))
         .rejects
-        .toThrow('Failed to fetch account 999: 404 Not Found');
+        .toThrow(DownstreamNotFound);
 
-      expect(mockFetch).toHaveBeenCalledWith('http://account-service:8080/accounts/999');
+      expect(mockFetch).toHaveBeenCalledWith('http://account-service:8080/accounts/999', expect.objectContaining({ method: 'GET' }));
     });
 
     it('should throw error when fetch fails', async () => {
@@ -76,7 +113,7 @@ describe('AccountService', () => {
 
         await accountService.getAccountById(accountId);
 
-        expect(mockFetch).toHaveBeenCalledWith(`http://account-service:8080/accounts/${accountId}`);
+        expect(mockFetch).toHaveBeenCalledWith(`http://account-service:8080/accounts/${accountId}`, expect.objectContaining({ method: 'GET' }));
       }
     });
 
@@ -90,7 +127,7 @@ describe('AccountService', () => {
 
       await expect(accountService.getAccountById('123'))
         .rejects
-        .toThrow('Invalid JSON');
+        .toThrow(DownstreamBadResponse);
     });
   });
 
@@ -118,7 +155,7 @@ describe('AccountService', () => {
 
       const result = await accountService.getAccountsByCustomerId('CUST-123');
 
-      expect(mockFetch).toHaveBeenCalledWith('http://account-service:8080/accounts?customerId=CUST-123');
+      expect(mockFetch).toHaveBeenCalledWith('http://account-service:8080/accounts?customerId=CUST-123', expect.objectContaining({ method: 'GET' }));
       expect(result).toEqual(mockAccounts);
     });
 
@@ -142,7 +179,7 @@ describe('AccountService', () => {
 
       await expect(accountService.getAccountsByCustomerId('CUST-123'))
         .rejects
-        .toThrow('Failed to fetch accounts for customer CUST-123: 500 Internal Server Error');
+        .toThrow('account-service: GET http://account-service:8080/accounts?customerId=CUST-123 returned HTTP 500: Internal Server Error');
     });
 
     it('should handle various customer IDs', async () => {
@@ -156,7 +193,7 @@ describe('AccountService', () => {
 
         await accountService.getAccountsByCustomerId(customerId);
 
-        expect(mockFetch).toHaveBeenCalledWith(`http://account-service:8080/accounts?customerId=${customerId}`);
+        expect(mockFetch).toHaveBeenCalledWith(`http://account-service:8080/accounts?customerId=${customerId}`, expect.objectContaining({ method: 'GET' }));
       }
     });
 
@@ -169,6 +206,92 @@ describe('AccountService', () => {
     });
   });
 
+  describe('getAccountsByCustomerIds', () => {
+    it('should fetch accounts for several customers in one call', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => [],
+      });
+
+      await accountService.getAccountsByCustomerIds(['CUST-1', 'CUST-2']);
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(mockFetch).toHaveBeenCalledWith('http://account-service:8080/accounts?customerIds=CUST-1,CUST-2', expect.objectContaining({ method: 'GET' }));
+    });
+
+    it('should throw error when response is not ok', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 502,
+        statusText: 'Bad Gateway',
+      });
+
+      await expect(accountService.getAccountsByCustomerIds(['CUST-1', 'CUST-2']))
+        .rejects
+        .toThrow(DownstreamUnavailable);
+    });
+  });
+
+  describe('Request Headers', () => {
+    it('should send shared HttpClient headers with all requests', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ id: '123' }),
+      });
+
+      await accountService.getAccountById('123');
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.objectContaining({
+          headers: expect.objectContaining({
+            'Content-Type': 'application/json',
+            'User-Agent': 'graph-conduit-accounts/1.0.0',
+          }),
+          signal: expect.anything(),
+        })
+      );
+    });
+  });
+
+  describe('Trace Propagation', () => {
+    it('should forward request ID and trace headers of the current request', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ id: '123' }),
+      });
+
+      const trace = createTraceContext(name => ({
+        'x-request-id': 'req-abc',
+        'traceparent': '00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01',
+      } as Record<string, string>)[name]);
+
+      await runWithTraceContext(trace, () => accountService.getAccountById('123'));
+
+      expect(mockFetch).toHaveBeenCalledWith('http://account-service:8080/accounts/123', expect.objectContaining({
+        headers: expect.objectContaining({
+          'x-request-id': 'req-abc',
+          'traceparent': '00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01',
+        }),
+      }));
+    });
+  });
+
+  describe('Credential Propagation', () => {
+    it('should forward the caller token and send none for anonymous requests', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: async () => ({ id: '123' }),
+      });
+
+      await runWithCallerToken('caller-token', () => accountService.getAccountById('123'));
+      await accountService.getAccountById('123');
+
+      expect(mockFetch.mock.calls[0][1].headers).toMatchObject({ Authorization: 'Bearer caller-token' });
+      expect(mockFetch.mock.calls[1][1].headers).not.toHaveProperty('Authorization');
+    });
+  });
+
   describe('HTTP Status Codes', () => {
     it('should handle different HTTP error codes', async () => {
       const testCases = [
@@ -190,13 +313,17 @@ describe('AccountService', () => {
 
         await expect(accountService.getAccountById('123'))
           .rejects
-          .toThrow(`Failed to fetch account 123: ${testCase.status} ${testCase.statusText}`);
+          .toMatchObject({
+            service: 'account-service',
+            status: testCase.status,
+            message: `account-service: GET http://account-service:8080/accounts/123 returned HTTP ${testCase.status}: ${testCase.statusText}`,
+          });
       }
     });
   });
 
   describe('Service URL Configuration', () => {
-    it('should use configured base URL', () => {
+    it('should use configured base URL', async () => {
       // This test verifies the service uses the mocked config
       expect(mockFetch).not.toHaveBeenCalled();
       
@@ -206,9 +333,9 @@ describe('AccountService', () => {
         json: async () => ({ id: '123' }),
       });
 
-      accountService.getAccountById('123');
+      await accountService.getAccountById('123');
 
-      expect(mockFetch).toHaveBeenCalledWith('http://account-service:8080/accounts/123');
+      expect(mockFetch).toHaveBeenCalledWith('http://account-service:8080/accounts/123', expect.objectContaining({ method: 'GET' }));
     });
   });
 
@@ -1,4 +1,6 @@
-import { config } from '../config/environment.js';
+import { HttpClient } from './httpClient.js';
+import { credentialProvider } from './credentials.js';
+import { config } from '../config/index.js';
 
 /**
  * Account data interface
@@ -12,50 +14,59 @@ export interface Account {
 
 /**
  * Account service client - HTTP client for account microservice
- * THIN client: just HTTP fetch, no retry/circuit breaker (service mesh handles that)
+ * THIN client: shared HttpClient for timeout, headers, trace and credential propagation
  */
 class AccountService {
-  private baseUrl: string;
+  private client: HttpClient;
 
   constructor() {
-    this.baseUrl = config.downstream.accountService;
+    this.client = new HttpClient(config.services.accountService, {
+      serviceName: 'account-service',
+      credentials: credentialProvider(config.downstreamCredentials.accountService),
+    });
   }
 
   /**
    * Get account by ID from downstream account service
    * @param id - Account ID
    * @returns Account data
-   * @throws Error if response not ok
+   * @throws DownstreamError if the downstream call fails
    */
   async getAccountById(id: string): Promise<Account> {
-    const url = `${this.baseUrl}/accounts/${id}`;
+    const response = await this.client.get<Account>(`/accounts/${id}`);
     
-    const response = await fetch(url);
-    
-    if (!response.ok) {
-      throw new Error(`Failed to fetch account ${id}: ${response.status} ${response.statusText}`);
-    }
-    
-    return await response.json();
+    return response.data;
   }
 
   /**
    * Get accounts by customer ID from downstream account service
    * @param customerId - Customer ID
    * @returns Array of account data
-   * @throws Error if response not ok
+   * @throws DownstreamError if the downstream call fails
    */
   async getAccountsByCustomerId(customerId: string): Promise<Account[]> {
-    const url = `${this.baseUrl}/accounts?customerId=${customerId}`;
-    
-    const response = await fetch(url);
+    const response = await this.client.get<Account[]>(`/accounts?customerId=${customerId}`);
     
-    if (!response.ok) {
-      throw new Error(`Failed to fetch accounts for customer ${customerId}: ${response.status} ${response.statusText}`);
-    }
+    return response.data;
+  }
+
+  /**
+   * Get accounts for several customers in a single call to the account service
+   * Requires the batch endpoint to be enabled on the downstream service
+   * @param customerIds - Customer IDs
+   * @returns Flat array of account data for all requested customers
+   * @throws DownstreamError if the downstream call fails
+   */
+  async getAccountsByCustomerIds(customerIds: readonly string[]): Promise<Account[]> {
+    const ids = customerIds.map(encodeURIComponent).join(',');
+    const response = await this.client.get<Account[]>(`/accounts?customerIds=${ids}`);
     
-    return await response.json();
+    return response.data;
+  }
+
+  async healthCheck(timeoutMs?: number) {
+    return this.client.healthCheck(timeoutMs);
   }
 }
 
-export const accountService = new AccountService();
\ No newline at end of file
+export const accountService = new AccountService();
@@ -0,0 +1,215 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { constants, generateKeyPairSync, sign } from 'crypto';
+import type { KeyObject } from 'crypto';
+import { AuthenticationError, JwksClient, TokenVerifier } from './auth.js';
+import type { Jwk, JwtAlgorithm, TokenVerifierOptions } from './auth.js';
+
+// Local stand-in for the auth service: key pairs, their JWKS and a token signer
+const rsa = generateKeyPairSync('rsa', { modulusLength: 2048 });
+const ec = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+const ed = generateKeyPairSync('ed25519');
+
+const jwk = (key: KeyObject, kid: string): Jwk => ({ ...key.export({ format: 'jwk' }), kid, use: 'sig' });
+
+const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+function signToken(claims: Record<string, unknown>, options: { alg?: JwtAlgorithm | 'HS256' | 'none'; kid?: string; key?: KeyObject } = {}) {
+  const alg = options.alg ?? 'RS256';
+  const header = { alg, typ: 'JWT', ...(options.kid !== undefined ? { kid: options.kid } : { kid: 'rsa-1' }) };
+  const data = `${encode(header)}.${encode(claims)}`;
+  const key = options.key ?? rsa.privateKey;
+  const digest = alg === 'EdDSA' ? null : `sha${alg.slice(2)}`;
+  const signature = alg === 'none' || alg === 'HS256'
+    ? Buffer.from('forged')
+    : sign(digest, Buffer.from(data), alg.startsWith('PS')
+      ? { key, padding: constants.RSA_PKCS1_PSS_PADDING, saltLength: constants.RSA_PSS_SALTLEN_DIGEST }
+      : alg.startsWith('ES') ? { key, dsaEncoding: 'ieee-p1363' } : key);
+  return `${data}.${signature.toString('base64url')}`;
+}
+
+const now = () => Math.floor(Date.now() / 1000);
+
+const validClaims = () => ({
+  iss: 'https://auth.example.com',
+  aud: ['conduites-bff', 'other-api'],
+  sub: 'user-123',
+  exp: now() + 300,
+  iat: now(),
+  realm_access: { roles: ['customer', 'beta'] },
+  customer_id: 'cust1',
+  scope: 'accounts:read profile',
+});
+
+const verifierOptions: TokenVerifierOptions = {
+  issuer: 'https://auth.example.com',
+  audience: 'conduites-bff',
+  algorithms: ['RS256', 'PS256', 'ES256', 'EdDSA'],
+  clockToleranceSeconds: 30,
+  rolesClaim: 'realm_access.roles',
+  customerIdClaim: 'customer_id',
+};
+
+describe('TokenVerifier', () => {
+  const keys = [jwk(rsa.publicKey, 'rsa-1'), jwk(ec.publicKey, 'ec-1'), jwk(ed.publicKey, 'ed-1')];
+  const verifier = new TokenVerifier(
+    new JwksClient(async () => keys, { cacheTtlMs: 60000, refreshCooldownMs: 0 }),
+    verifierOptions,
+  );
+
+  const rejection = (token: string) => verifier.verify(token).then(
+    () => { throw new Error('Token was accepted'); },
+    (error: unknown) => {
+      expect(error).toBeInstanceOf(AuthenticationError);
+      return (error as Error).message;
+    },
+  );
+
+  it('should map the verified claims to a principal', async () => {
+    const claims = validClaims();
+
+    await expect(verifier.verify(signToken(claims))).resolves.toEqual({
+      subject: 'user-123',
+      roles: ['customer', 'beta'],
+      customerId: 'cust1',
+      scopes: ['accounts:read', 'profile'],
+      expiresAt: claims.exp,
+      claims,
+    });
+  });
+
+  it.each([
+    ['PS256', rsa.privateKey, 'rsa-1'],
+    ['ES256', ec.privateKey, 'ec-1'],
+    ['EdDSA', ed.privateKey, 'ed-1'],
+  ] as const)('should verify %s signatures', async (alg, key, kid) => {
+    const principal = await verifier.verify(signToken(validClaims(), { alg, key, kid }));
+
+    expect(principal.subject).toBe('user-123');
+  });
+
+  it('should reject tokens that are not signed by a trusted key', async () => {
+    const other = generateKeyPairSync('rsa', { modulusLength: 2048 });
+    const [header, payload, signature] = signToken(validClaims()).split('.');
+    const tampered = encode({ ...validClaims(), sub: 'admin' });
+
+    expect(await rejection(signToken(validClaims(), { key: other.privateKey }))).toBe('Token signature is invalid');
+    expect(await rejection(`${header}.${tampered}.${signature}`)).toBe('Token signature is invalid');
+    expect(await rejection(`${header}.${payload}`)).toBe('Token is malformed');
+    expect(await rejection('not.a.token')).toBe('Token is malformed');
+  });
+
+  it('should only accept the configured asymmetric algorithms', async () => {
+    expect(await rejection(signToken(validClaims(), { alg: 'none' }))).toBe('Token algorithm is not accepted');
+    expect(await rejection(signToken(validClaims(), { alg: 'HS256' }))).toBe('Token algorithm is not accepted');
+    expect(await rejection(signToken(validClaims(), { alg: 'RS512' }))).toBe('Token algorithm is not accepted');
+    expect(await rejection(`${encode({ alg: 'RS256"\r\nX-Injected: 1' })}.${encode(validClaims())}.c2ln`)).toBe('Token algorithm is not accepted');
+  });
+
+  it('should not verify with a key of another type', async () => {
+    // ES256 token pointing at the RSA key
+    expect(await rejection(signToken(validClaims(), { alg: 'ES256', key: ec.privateKey, kid: 'rsa-1' })))
+      .toBe('Token is signed with an unknown key');
+  });
+
+  it('should validate expiry, not-before, issuer, audience and subject', async () => {
+    expect(await rejection(signToken({ ...validClaims(), exp: now() - 60 }))).toBe('Token has expired');
+    expect(await rejection(signToken({ ...validClaims(), exp: undefined }))).toBe('Token has no expiry');
+    expect(await rejection(signToken({ ...validClaims(), nbf: now() + 120 }))).toBe('Token is not valid yet');
+    expect(await rejection(signToken({ ...validClaims(), iss: 'https://evil.example.com' }))).toBe('Token issuer is not trusted');
+    expect(await rejection(signToken({ ...validClaims(), aud: 'other-api' }))).toBe('Token audience does not include this service');
+    expect(await rejection(signToken({ ...validClaims(), sub: '' }))).toBe('Token has no subject');
+  });
+
+  it('should allow for clock skew', async () => {
+    const principal = await verifier.verify(signToken({ ...validClaims(), exp: now() - 10, nbf: now() + 10, aud: 'conduites-bff' }));
+
+    expect(principal.subject).toBe('user-123');
+  });
+});
+
+describe('JwksClient', () => {
+  let fetchKeys: ReturnType<typeof vi.fn<[], Promise<Jwk[]>>>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    fetchKeys = vi.fn(async () => [jwk(rsa.publicKey, 'rsa-1')]);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should fetch keys once and reuse them until they expire', async () => {
+    const client = new JwksClient(fetchKeys, { cacheTtlMs: 60000, refreshCooldownMs: 1000 });
+
+    await Promise.all([client.getKey('rsa-1', 'RS256'), client.getKey('rsa-1', 'RS256')]);
+    await client.getKey('rsa-1', 'RS256');
+    expect(fetchKeys).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(60000);
+    await client.getKey('rsa-1', 'RS256');
+    expect(fetchKeys).toHaveBeenCalledTimes(2);
+  });
+
+  it('should refetch for an unknown key ID at most once per cool-down', async () => {
+    const client = new JwksClient(fetchKeys, { cacheTtlMs: 60000, refreshCooldownMs: 1000 });
+    await client.getKey('rsa-1', 'RS256');
+
+    // Rotation: the new key appears in the JWKS
+    vi.advanceTimersByTime(1000);
+    fetchKeys.mockResolvedValue([jwk(rsa.publicKey, 'rsa-1'), jwk(ec.publicKey, 'ec-2')]);
+    await expect(client.getKey('ec-2', 'ES256')).resolves.toBeDefined();
+    expect(fetchKeys).toHaveBeenCalledTimes(2);
+
+    await expect(client.getKey('unknown', 'RS256')).rejects.toThrow('Token is signed with an unknown key');
+    expect(fetchKeys).toHaveBeenCalledTimes(2);
+  });
+
+  it('should only use a key without an ID when exactly one fits', async () => {
+    const client = new JwksClient(
+      async () => [jwk(rsa.publicKey, 'rsa-1'), jwk(rsa.publicKey, 'rsa-2'), jwk(ec.publicKey, 'ec-1')],
+      { cacheTtlMs: 60000, refreshCooldownMs: 1000 },
+    );
+
+    await expect(client.getKey(undefined, 'ES256')).resolves.toBeDefined();
+    await expect(client.getKey(undefined, 'RS256')).rejects.toBeInstanceOf(AuthenticationError);
+  });
+
+  it('should keep cached keys when a refresh fails', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const client = new JwksClient(fetchKeys, { cacheTtlMs: 60000, refreshCooldownMs: 1000 });
+    await client.getKey('rsa-1', 'RS256');
+
+    vi.advanceTimersByTime(60000);
+    fetchKeys.mockRejectedValue(new Error('auth-service unavailable'));
+
+    await expect(client.getKey('rsa-1', 'RS256')).resolves.toBeDefined();
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('JWKS refresh failed'));
+    warn.mockRestore();
+  });
+
+  it('should hold off refetching for the cool-down after a failed refresh', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const client = new JwksClient(fetchKeys, { cacheTtlMs: 60000, refreshCooldownMs: 1000 });
+    await client.getKey('rsa-1', 'RS256');
+
+    vi.advanceTimersByTime(60000);
+    fetchKeys.mockRejectedValue(new Error('auth-service unavailable'));
+    await client.getKey('rsa-1', 'RS256');
+    await client.getKey('rsa-1', 'RS256');
+    await expect(client.getKey('rotated', 'RS256')).rejects.toThrow('Token is signed with an unknown key');
+    expect(fetchKeys).toHaveBeenCalledTimes(2);
+
+    vi.advanceTimersByTime(1000);
+    fetchKeys.mockResolvedValue([jwk(rsa.publicKey, 'rsa-1')]);
+    await client.getKey('rsa-1', 'RS256');
+    expect(fetchKeys).toHaveBeenCalledTimes(3);
+    warn.mockRestore();
+  });
+
+  it('should fail when the first fetch fails', async () => {
+    const client = new JwksClient(async () => { throw new Error('auth-service unavailable'); }, { cacheTtlMs: 60000, refreshCooldownMs: 1000 });
+
+    await expect(client.getKey('rsa-1', 'RS256')).rejects.toThrow('auth-service unavailable');
+  });
+});
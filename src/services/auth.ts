@@ -0,0 +1,306 @@
+import { constants, createPublicKey, verify as verifySignature } from 'crypto';
+import type { JsonWebKey, KeyObject } from 'crypto';
+import { config } from '../config/index.js';
+import { HttpClient } from './httpClient.js';
+import { logger } from './logger.js';
+
+/**
+ * Signature algorithms a token may use - symmetric (HS*) and `none` are never accepted
+ */
+export type JwtAlgorithm =
+  | 'RS256' | 'RS384' | 'RS512'
+  | 'PS256' | 'PS384' | 'PS512'
+  | 'ES256' | 'ES384' | 'ES512'
+  | 'EdDSA';
+
+/**
+ * Verified identity of the caller, available to resolvers as context.principal
+ */
+export interface Principal {
+  subject: string;
+  roles: string[];
+  customerId?: string;
+  scopes: string[];
+  expiresAt: number;                  // Token expiry, epoch seconds
+  claims: Record<string, unknown>;    // Every claim of the verified token
+}
+
+/**
+ * The bearer token is missing, malformed, expired or not signed by a trusted key
+ * The message is safe to return to the client
+ */
+export class AuthenticationError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = new.target.name;
+  }
+}
+
+export interface Jwk extends JsonWebKey {
+  kid?: string;
+  use?: string;
+  alg?: string;
+}
+
+interface SigningKey {
+  kid?: string;
+  alg?: string;
+  key: KeyObject;
+}
+
+// Digest and key type per algorithm - ECDSA signatures in JWTs are raw r||s
+const ALGORITHMS: Record<JwtAlgorithm, { digest: string | null; keyTypes: string[]; curve?: string }> = {
+  RS256: { digest: 'sha256', keyTypes: ['rsa'] },
+  RS384: { digest: 'sha384', keyTypes: ['rsa'] },
+  RS512: { digest: 'sha512', keyTypes: ['rsa'] },
+  PS256: { digest: 'sha256', keyTypes: ['rsa', 'rsa-pss'] },
+  PS384: { digest: 'sha384', keyTypes: ['rsa', 'rsa-pss'] },
+  PS512: { digest: 'sha512', keyTypes: ['rsa', 'rsa-pss'] },
+  ES256: { digest: 'sha256', keyTypes: ['ec'], curve: 'prime256v1' },
+  ES384: { digest: 'sha384', keyTypes: ['ec'], curve: 'secp384r1' },
+  ES512: { digest: 'sha512', keyTypes: ['ec'], curve: 'secp521r1' },
+  EdDSA: { digest: null, keyTypes: ['ed25519', 'ed448'] },
+};
+
+const isAlgorithm = (value: unknown): value is JwtAlgorithm =>
+  typeof value === 'string' && Object.hasOwn(ALGORITHMS, value);
+
+/**
+ * True when the key can verify signatures made with the algorithm
+ */
+function keyFits(key: KeyObject, algorithm: JwtAlgorithm): boolean {
+  const { keyTypes, curve } = ALGORITHMS[algorithm];
+  return keyTypes.includes(key.asymmetricKeyType ?? '')
+    && (!curve || key.asymmetricKeyDetails?.namedCurve === curve);
+}
+
+export interface JwksOptions {
+  cacheTtlMs: number;           // Keys are refetched once this old
+  refreshCooldownMs: number;    // Minimum time between refetches for an unknown key ID, and after a failed refresh
+}
+
+/**
+ * Signing keys from a JWKS endpoint, cached and refetched when they expire or
+ * a token names a key ID we have not seen (key rotation)
+ * Concurrent lookups share one fetch; a failed refresh keeps the cached keys
+ * and holds off refetching for the cool-down instead of on every request
+ */
+export class JwksClient {
+  private keys: SigningKey[] = [];
+  private fetchedAt?: number;
+  private retryAt = 0;    // No refetch before this while cached keys are in use, epoch ms
+  private refreshing?: Promise<void>;
+
+  constructor(private fetchKeys: () => Promise<Jwk[]>, private options: JwksOptions) {}
+
+  /**
+   * Key for a token header - by key ID, or the only fitting key when the token has none
+   * @throws AuthenticationError when no trusted key matches
+   */
+  async getKey(kid: string | undefined, algorithm: JwtAlgorithm): Promise<KeyObject> {
+    const age = this.fetchedAt === undefined ? Infinity : Date.now() - this.fetchedAt;
+    if (age >= this.options.cacheTtlMs && (this.keys.length === 0 || Date.now() >= this.retryAt)) {
+      await this.refresh(this.keys.length > 0);
+    }
+
+    let key = this.find(kid, algorithm);
+    if (!key && kid && Date.now() - (this.fetchedAt ?? 0) >= this.options.refreshCooldownMs && Date.now() >= this.retryAt) {
+      await this.refresh(true);
+      key = this.find(kid, algorithm);
+    }
+
+    if (!key) {
+      throw new AuthenticationError('Token is signed with an unknown key');
+    }
+    return key;
+  }
+
+  private find(kid: string | undefined, algorithm: JwtAlgorithm): KeyObject | undefined {
+    const candidates = this.keys.filter(candidate =>
+      (!kid || candidate.kid === kid)
+      && (!candidate.alg || candidate.alg === algorithm)
+      && keyFits(candidate.key, algorithm));
+    // Without a key ID only an unambiguous match is trusted
+    return kid || candidates.length === 1 ? candidates[0]?.key : undefined;
+  }
+
+  /**
+   * @param tolerateFailure - Keep the cached keys when the fetch fails
+   */
+  private async refresh(tolerateFailure: boolean): Promise<void> {
+    this.refreshing ??= this.load().finally(() => {
+      this.refreshing = undefined;
+    });
+
+    try {
+      await this.refreshing;
+    } catch (error) {
+      if (!tolerateFailure) {
+        throw error;
+      }
+      this.retryAt = Date.now() + this.options.refreshCooldownMs;
+      logger.warn('JWKS refresh failed, using cached keys', { error, retryInMs: this.options.refreshCooldownMs });
+    }
+  }
+
+  private async load(): Promise<void> {
+    const keys: SigningKey[] = [];
+    for (const jwk of await this.fetchKeys()) {
+      if (jwk.use && jwk.use !== 'sig') {
+        continue;
+      }
+      try {
+        keys.push({ kid: jwk.kid, alg: jwk.alg, key: createPublicKey({ key: jwk, format: 'jwk' }) });
+      } catch (error) {
+        logger.warn('Skipping unusable JWKS key', { kid: jwk.kid, error });
+      }
+    }
+    this.keys = keys;
+    this.fetchedAt = Date.now();
+  }
+}
+
+export interface TokenVerifierOptions {
+  issuer: string;
+  audience: string;
+  algorithms: JwtAlgorithm[];
+  clockToleranceSeconds: number;    // Allowed clock skew for exp and nbf
+  rolesClaim: string;               // Dotted claim path, e.g. roles or realm_access.roles
+  customerIdClaim: string;
+}
+
+function decodeSegment(segment: string): Record<string, unknown> {
+  const value: unknown = JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error('Not a JSON object');
+  }
+  return value as Record<string, unknown>;
+}
+
+function claimAt(claims: Record<string, unknown>, path: string): unknown {
+  return path.split('.').reduce<unknown>(
+    (value, key) => (typeof value === 'object' && value !== null ? (value as Record<string, unknown>)[key] : undefined),
+    claims,
+  );
+}
+
+// Roles and scopes arrive as arrays or space-separated strings depending on the issuer
+function stringList(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value.filter((entry): entry is string => typeof entry === 'string');
+  }
+  return typeof value === 'string' ? value.split(' ').filter(Boolean) : [];
+}
+
+/**
+ * Verifies signed JWT bearer tokens and maps their claims to a Principal
+ */
+export class TokenVerifier {
+  constructor(private jwks: Pick<JwksClient, 'getKey'>, private options: TokenVerifierOptions) {}
+
+  /**
+   * @throws AuthenticationError describing why the token was rejected
+   */
+  async verify(token: string): Promise<Principal> {
+    const segments = token.split('.');
+    if (segments.length !== 3) {
+      throw new AuthenticationError('Token is malformed');
+    }
+
+    const [encodedHeader, encodedPayload, encodedSignature] = segments;
+    let header: Record<string, unknown>;
+    let claims: Record<string, unknown>;
+    try {
+      header = decodeSegment(encodedHeader);
+      claims = decodeSegment(encodedPayload);
+    } catch (error) {
+      throw new AuthenticationError('Token is malformed', { cause: error });
+    }
+
+    const algorithm = header.alg;
+    if (!isAlgorithm(algorithm) || !this.options.algorithms.includes(algorithm)) {
+      // Fixed message - the header is attacker-controlled and the message ends up in WWW-Authenticate
+      throw new AuthenticationError('Token algorithm is not accepted');
+    }
+
+    const key = await this.jwks.getKey(typeof header.kid === 'string' ? header.kid : undefined, algorithm);
+    if (!this.signatureMatches(algorithm, key, `${encodedHeader}.${encodedPayload}`, encodedSignature)) {
+      throw new AuthenticationError('Token signature is invalid');
+    }
+
+    this.checkClaims(claims);
+
+    const customerId = claimAt(claims, this.options.customerIdClaim);
+    return {
+      subject: claims.sub as string,
+      roles: stringList(claimAt(claims, this.options.rolesClaim)),
+      customerId: typeof customerId === 'string' || typeof customerId === 'number' ? String(customerId) : undefined,
+      scopes: stringList(claims.scope ?? claims.scp),
+      expiresAt: claims.exp as number,
+      claims,
+    };
+  }
+
+  private signatureMatches(algorithm: JwtAlgorithm, key: KeyObject, signedData: string, signature: string): boolean {
+    const { digest } = ALGORITHMS[algorithm];
+    const verifyKey = algorithm.startsWith('PS')
+      ? { key, padding: constants.RSA_PKCS1_PSS_PADDING, saltLength: constants.RSA_PSS_SALTLEN_DIGEST }
+      : algorithm.startsWith('ES')
+        ? { key, dsaEncoding: 'ieee-p1363' as const }
+        : key;
+
+    try {
+      return verifySignature(digest, Buffer.from(signedData), verifyKey, Buffer.from(signature, 'base64url'));
+    } catch {
+      return false;
+    }
+  }
+
+  private checkClaims(claims: Record<string, unknown>): void {
+    const now = Date.now() / 1000;
+    const tolerance = this.options.clockToleranceSeconds;
+
+    if (typeof claims.exp !== 'number') {
+      throw new AuthenticationError('Token has no expiry');
+    }
+    if (now > claims.exp + tolerance) {
+      throw new AuthenticationError('Token has expired');
+    }
+    if (typeof claims.nbf === 'number' && now < claims.nbf - tolerance) {
+      throw new AuthenticationError('Token is not valid yet');
+    }
+    if (claims.iss !== this.options.issuer) {
+      throw new AuthenticationError('Token issuer is not trusted');
+    }
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (!audiences.includes(this.options.audience)) {
+      throw new AuthenticationError('Token audience does not include this service');
+    }
+    if (typeof claims.sub !== 'string' || !claims.sub) {
+      throw new AuthenticationError('Token has no subject');
+    }
+  }
+}
+
+// JWKS from the auth service - bearer verification waits on this fetch, so it
+// gets a short timeout and no retries; the circuit breaker and tracing come with HttpClient
+const authService = new HttpClient(config.services.authService, {
+  serviceName: 'auth-service',
+  timeout: config.auth.jwksTimeoutMs,
+  retry: { maxRetries: 0 },
+});
+
+export const jwksClient = new JwksClient(
+  async () => (await authService.get<{ keys?: Jwk[] }>(config.auth.jwksPath)).data?.keys ?? [],
+  { cacheTtlMs: config.auth.jwksCacheTtlMs, refreshCooldownMs: config.auth.jwksRefreshCooldownMs },
+);
+
+// Verifier for bearer tokens on /graphql, configured from AUTH_* variables
+export const tokenVerifier = new TokenVerifier(jwksClient, {
+  issuer: config.auth.issuer,
+  audience: config.auth.audience,
+  algorithms: config.auth.algorithms,
+  clockToleranceSeconds: config.auth.clockToleranceSeconds,
+  rolesClaim: config.auth.rolesClaim,
+  customerIdClaim: config.auth.customerIdClaim,
+});
@@ -0,0 +1,188 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { CircuitBreaker, getCircuitBreaker, getCircuitSnapshots } from './circuitBreaker.js';
+import type { CircuitBreakerOptions } from './circuitBreaker.js';
+
+const options: CircuitBreakerOptions = {
+  failureRateThreshold: 0.5,
+  minimumRequests: 4,
+  windowMs: 10000,
+  coolDownMs: 5000,
+  halfOpenMaxCalls: 1,
+};
+
+describe('CircuitBreaker', () => {
+  let breaker: CircuitBreaker;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    breaker = new CircuitBreaker('account-service', 'http://account-service:8080', options);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  const fail = (times: number) => {
+    for (let i = 0; i < times; i++) {
+      breaker.tryAcquire();
+      breaker.onFailure();
+    }
+  };
+
+  describe('Closed state', () => {
+    it('should start closed and allow requests', () => {
+      expect(breaker.getState()).toBe('closed');
+      expect(breaker.tryAcquire()).toBe(true);
+    });
+
+    it('should not open before the minimum number of requests', () => {
+      fail(3);
+
+      expect(breaker.getState()).toBe('closed');
+    });
+
+    it('should open when the failure rate reaches the threshold', () => {
+      breaker.onSuccess();
+      breaker.onSuccess();
+      fail(2);
+
+      expect(breaker.getState()).toBe('open');
+      expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('Circuit open'));
+    });
+
+    it('should stay closed while the failure rate is below the threshold', () => {
+      breaker.onSuccess();
+      breaker.onSuccess();
+      breaker.onSuccess();
+      fail(2);
+
+      expect(breaker.getState()).toBe('closed');
+    });
+
+    it('should only count outcomes inside the rolling window', () => {
+      fail(3);
+      vi.advanceTimersByTime(options.windowMs + 1);
+      fail(1);
+
+      expect(breaker.getState()).toBe('closed');
+      expect(breaker.snapshot().requests).toBe(1);
+    });
+
+    it('should expire outcomes slice by slice as the window rolls', () => {
+      fail(2);
+      vi.advanceTimersByTime(options.windowMs / 2);
+      breaker.onSuccess();
+      expect(breaker.snapshot().requests).toBe(3);
+
+      vi.advanceTimersByTime(options.windowMs / 2);
+      expect(breaker.snapshot()).toMatchObject({ requests: 1, failureRate: 0 });
+    });
+  });
+
+  describe('Open state', () => {
+    it('should reject requests until the cool-down elapses', () => {
+      fail(4);
+
+      expect(breaker.tryAcquire()).toBe(false);
+      expect(breaker.remainingCoolDownMs()).toBe(5000);
+
+      vi.advanceTimersByTime(2000);
+      expect(breaker.tryAcquire()).toBe(false);
+      expect(breaker.remainingCoolDownMs()).toBe(3000);
+    });
+
+    it('should move to half-open after the cool-down', () => {
+      fail(4);
+      vi.advanceTimersByTime(options.coolDownMs);
+
+      expect(breaker.getState()).toBe('half-open');
+      expect(breaker.tryAcquire()).toBe(true);
+    });
+  });
+
+  describe('Half-open state', () => {
+    beforeEach(() => {
+      fail(4);
+      vi.advanceTimersByTime(options.coolDownMs);
+    });
+
+    it('should limit concurrent probe calls', () => {
+      expect(breaker.tryAcquire()).toBe(true);
+      expect(breaker.tryAcquire()).toBe(false);
+    });
+
+    it('should close after a successful probe', () => {
+      breaker.tryAcquire();
+      breaker.onSuccess();
+
+      expect(breaker.getState()).toBe('closed');
+      expect(breaker.snapshot().requests).toBe(0);
+    });
+
+    it('should log recovery at info rather than warn', () => {
+      const info = vi.spyOn(console, 'log').mockImplementation(() => {});
+      breaker.getState();
+      breaker.tryAcquire();
+      breaker.onSuccess();
+
+      expect(info).toHaveBeenCalledWith(expect.stringContaining('Circuit half-open'));
+      expect(info).toHaveBeenCalledWith(expect.stringContaining('Circuit closed'));
+      expect(console.warn).not.toHaveBeenCalledWith(expect.stringContaining('Circuit closed'));
+      expect(console.warn).not.toHaveBeenCalledWith(expect.stringContaining('Circuit half-open'));
+    });
+
+    it('should re-open after a failed probe', () => {
+      breaker.tryAcquire();
+      breaker.onFailure();
+
+      expect(breaker.getState()).toBe('open');
+      expect(breaker.tryAcquire()).toBe(false);
+    });
+  });
+
+  describe('snapshot', () => {
+    it('should report state, failure rate and request count', () => {
+      breaker.onSuccess();
+      fail(1);
+
+      expect(breaker.snapshot()).toEqual({
+        name: 'account-service',
+        baseUrl: 'http://account-service:8080',
+        state: 'closed',
+        failureRate: 0.5,
+        requests: 2,
+      });
+    });
+
+    it('should include when the circuit opened', () => {
+      fail(4);
+
+      expect(breaker.snapshot()).toMatchObject({
+        state: 'open',
+        openedAt: expect.any(String),
+      });
+    });
+  });
+});
+
+describe('Circuit breaker registry', () => {
+  it('should share one breaker per base URL', () => {
+    const a = getCircuitBreaker('svc', 'http://registry-test:8080', options);
+    const b = getCircuitBreaker('svc', 'http://registry-test:8080', options);
+    const c = getCircuitBreaker('other', 'http://registry-other:8080', options);
+
+    expect(a).toBe(b);
+    expect(a).not.toBe(c);
+  });
+
+  it('should expose snapshots of every registered breaker', () => {
+    getCircuitBreaker('svc', 'http://registry-snapshot:8080', options);
+
+    expect(getCircuitSnapshots()).toContainEqual(expect.objectContaining({
+      baseUrl: 'http://registry-snapshot:8080',
+      state: 'closed',
+    }));
+  });
+});
@@ -0,0 +1,192 @@
+import { logger } from './logger.js';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+  failureRateThreshold: number; // Failure ratio (0-1) in the window that opens the circuit
+  minimumRequests: number;      // Calls required in the window before the rate is evaluated
+  windowMs: number;             // Rolling window for the failure rate
+  coolDownMs: number;           // Time spent open before allowing half-open probes
+  halfOpenMaxCalls: number;     // Concurrent probe calls allowed while half-open
+}
+
+export interface CircuitSnapshot {
+  name: string;
+  baseUrl: string;
+  state: CircuitState;
+  failureRate: number;
+  requests: number;
+  openedAt?: string;
+}
+
+/**
+ * Outcomes counted in one slice of the rolling window
+ */
+interface Bucket {
+  id: number;           // Slice number since the epoch - a stale id means the bucket needs resetting
+  successes: number;
+  failures: number;
+}
+
+// Slices per window - outcomes expire with a granularity of windowMs / WINDOW_BUCKETS
+const WINDOW_BUCKETS = 10;
+
+/**
+ * Circuit breaker for a single downstream base URL
+ * The failure rate comes from per-slice counters, so recording an outcome is O(1)
+ * closed -> open when the failure rate crosses the threshold,
+ * open -> half-open after the cool-down, half-open -> closed on a successful probe
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private buckets: Bucket[] = this.emptyBuckets();
+  private bucketMs: number;
+  private openedAt = 0;
+  private halfOpenCalls = 0;
+
+  constructor(
+    readonly name: string,
+    readonly baseUrl: string,
+    private options: CircuitBreakerOptions
+  ) {
+    this.bucketMs = Math.max(1, Math.ceil(options.windowMs / WINDOW_BUCKETS));
+  }
+
+  /**
+   * Whether a call may proceed - reserves a probe slot when half-open
+   */
+  tryAcquire(): boolean {
+    if (this.state === 'open') {
+      if (Date.now() - this.openedAt < this.options.coolDownMs) {
+        return false;
+      }
+      this.transition('half-open');
+    }
+
+    if (this.state === 'half-open') {
+      if (this.halfOpenCalls >= this.options.halfOpenMaxCalls) {
+        return false;
+      }
+      this.halfOpenCalls++;
+    }
+
+    return true;
+  }
+
+  onSuccess(): void {
+    if (this.state === 'half-open') {
+      this.transition('closed');
+      return;
+    }
+    this.record(false);
+  }
+
+  onFailure(): void {
+    if (this.state === 'half-open') {
+      this.transition('open');
+      return;
+    }
+    this.record(true);
+
+    const { requests, failureRate } = this.windowStats();
+    if (requests >= this.options.minimumRequests && failureRate >= this.options.failureRateThreshold) {
+      this.transition('open');
+    }
+  }
+
+  /**
+   * Milliseconds until an open circuit allows a probe (0 when not open)
+   */
+  remainingCoolDownMs(): number {
+    return this.state === 'open' ? Math.max(0, this.openedAt + this.options.coolDownMs - Date.now()) : 0;
+  }
+
+  getState(): CircuitState {
+    // Report half-open as soon as the cool-down has elapsed
+    return this.state === 'open' && this.remainingCoolDownMs() === 0 ? 'half-open' : this.state;
+  }
+
+  snapshot(): CircuitSnapshot {
+    const { requests, failureRate } = this.windowStats();
+    return {
+      name: this.name,
+      baseUrl: this.baseUrl,
+      state: this.getState(),
+      failureRate: Math.round(failureRate * 100) / 100,
+      requests,
+      ...(this.state !== 'closed' && { openedAt: new Date(this.openedAt).toISOString() }),
+    };
+  }
+
+  private emptyBuckets(): Bucket[] {
+    return Array.from({ length: WINDOW_BUCKETS }, () => ({ id: -1, successes: 0, failures: 0 }));
+  }
+
+  private record(failed: boolean): void {
+    const id = Math.floor(Date.now() / this.bucketMs);
+    const bucket = this.buckets[id % WINDOW_BUCKETS];
+    if (bucket.id !== id) {
+      bucket.id = id;
+      bucket.successes = 0;
+      bucket.failures = 0;
+    }
+    if (failed) {
+      bucket.failures++;
+    } else {
+      bucket.successes++;
+    }
+  }
+
+  private windowStats() {
+    const oldest = Math.floor(Date.now() / this.bucketMs) - WINDOW_BUCKETS;
+    let requests = 0;
+    let failures = 0;
+    for (const bucket of this.buckets) {
+      if (bucket.id > oldest) {
+        requests += bucket.successes + bucket.failures;
+        failures += bucket.failures;
+      }
+    }
+    return { requests, failureRate: requests === 0 ? 0 : failures / requests };
+  }
+
+  private transition(next: CircuitState): void {
+    this.state = next;
+    this.halfOpenCalls = 0;
+
+    if (next === 'open') {
+      this.openedAt = Date.now();
+    }
+    if (next === 'closed') {
+      this.buckets = this.emptyBuckets();
+    }
+
+    // Only opening is a fault - probing and recovery are routine
+    logger[next === 'open' ? 'warn' : 'info'](`Circuit ${next}`, {
+      downstream: this.name,
+      baseUrl: this.baseUrl,
+    });
+  }
+}
+
+// One breaker per downstream base URL, shared by every client pointing at it
+const breakers = new Map<string, CircuitBreaker>();
+
+/**
+ * Get (or create) the circuit breaker for a base URL
+ */
+export function getCircuitBreaker(name: string, baseUrl: string, options: CircuitBreakerOptions): CircuitBreaker {
+  let breaker = breakers.get(baseUrl);
+  if (!breaker) {
+    breaker = new CircuitBreaker(name, baseUrl, options);
+    breakers.set(baseUrl, breaker);
+  }
+  return breaker;
+}
+
+/**
+ * Current state of every registered breaker, for health endpoints
+ */
+export function getCircuitSnapshots(): CircuitSnapshot[] {
+  return [...breakers.values()].map(breaker => breaker.snapshot());
+}
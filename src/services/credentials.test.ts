@@ -0,0 +1,164 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { TokenExchanger, credentialProvider, getCallerToken, runWithCallerToken, tokenExchanger } from './credentials.js';
+import type { ExchangedToken } from './credentials.js';
+import { DownstreamBadResponse } from './errors.js';
+import { MemorySharedStore } from './sharedStore.js';
+import type { SharedStore } from './sharedStore.js';
+
+describe('TokenExchanger', () => {
+  let exchange: ReturnType<typeof vi.fn<[string, string], Promise<ExchangedToken>>>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    exchange = vi.fn(async (subjectToken: string, audience: string): Promise<ExchangedToken> => ({
+      accessToken: `${audience}:${subjectToken}`,
+      expiresIn: 300,
+    }));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should reuse an exchanged token until shortly before it expires', async () => {
+    const exchanger = new TokenExchanger(exchange, new MemorySharedStore(), { expiryMarginSeconds: 30, cache: true });
+
+    await expect(exchanger.getToken('user-a', 'account-service')).resolves.toBe('account-service:user-a');
+    await exchanger.getToken('user-a', 'account-service');
+    expect(exchange).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(270_000);
+    await exchanger.getToken('user-a', 'account-service');
+    expect(exchange).toHaveBeenCalledTimes(2);
+  });
+
+  it('should exchange separately per caller and audience', async () => {
+    const exchanger = new TokenExchanger(exchange, new MemorySharedStore(), { expiryMarginSeconds: 30, cache: true });
+
+    await exchanger.getToken('user-a', 'account-service');
+    await exchanger.getToken('user-b', 'account-service');
+    await expect(exchanger.getToken('user-a', 'customer-service')).resolves.toBe('customer-service:user-a');
+    expect(exchange).toHaveBeenCalledTimes(3);
+  });
+
+  it('should share one exchange between concurrent requests', async () => {
+    const exchanger = new TokenExchanger(exchange, new MemorySharedStore(), { expiryMarginSeconds: 30, cache: true });
+
+    const tokens = await Promise.all([
+      exchanger.getToken('user-a', 'account-service'),
+      exchanger.getToken('user-a', 'account-service'),
+    ]);
+
+    expect(tokens).toEqual(['account-service:user-a', 'account-service:user-a']);
+    expect(exchange).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not cache failures or tokens without an expiry', async () => {
+    const exchanger = new TokenExchanger(exchange, new MemorySharedStore(), { expiryMarginSeconds: 30, cache: true });
+    exchange.mockRejectedValueOnce(new Error('auth-service unavailable'));
+    exchange.mockResolvedValueOnce({ accessToken: 'no-expiry' });
+
+    await expect(exchanger.getToken('user-a', 'account-service')).rejects.toThrow('auth-service unavailable');
+    await expect(exchanger.getToken('user-a', 'account-service')).resolves.toBe('no-expiry');
+    await expect(exchanger.getToken('user-a', 'account-service')).resolves.toBe('account-service:user-a');
+    expect(exchange).toHaveBeenCalledTimes(3);
+  });
+
+  it('should share cached tokens through the shared store, keyed by a token digest', async () => {
+    const store = new MemorySharedStore();
+    const workers = [1, 2].map(() => new TokenExchanger(exchange, store, { expiryMarginSeconds: 30, cache: true }));
+    const set = vi.spyOn(store, 'set');
+
+    await workers[0].getToken('user-a', 'account-service');
+    await expect(workers[1].getToken('user-a', 'account-service')).resolves.toBe('account-service:user-a');
+
+    expect(exchange).toHaveBeenCalledTimes(1);
+    expect(set).toHaveBeenCalledWith(expect.stringMatching(/^token-exchange:account-service:[\w-]{43}$/), 'account-service:user-a', 270_000);
+    expect(set.mock.calls[0][0]).not.toContain('user-a');
+  });
+
+  it('should exchange when the shared store fails or caching is off', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const failing: SharedStore = {
+      incr: vi.fn(),
+      get: vi.fn().mockRejectedValue(new Error('Shared store connection closed')),
+      set: vi.fn().mockRejectedValue(new Error('Shared store connection closed')),
+      delete: vi.fn(),
+    };
+    const unavailable = new TokenExchanger(exchange, failing, { expiryMarginSeconds: 30, cache: true });
+    const uncached = new TokenExchanger(exchange, new MemorySharedStore(), { expiryMarginSeconds: 30, cache: false });
+
+    await expect(unavailable.getToken('user-a', 'account-service')).resolves.toBe('account-service:user-a');
+    await uncached.getToken('user-a', 'account-service');
+    await uncached.getToken('user-a', 'account-service');
+
+    expect(exchange).toHaveBeenCalledTimes(3);
+    vi.mocked(console.warn).mockRestore();
+  });
+});
+
+describe('tokenExchanger', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should post an RFC 8693 token exchange to the auth service', async () => {
+    const fetch = vi.fn(async () => new Response(JSON.stringify({
+      access_token: 'downstream-token',
+      issued_token_type: 'urn:ietf:params:oauth:token-type:access_token',
+      token_type: 'Bearer',
+      expires_in: 300,
+    }), { status: 200 }));
+    vi.stubGlobal('fetch', fetch);
+
+    await expect(tokenExchanger.getToken('caller-token', 'account-service')).resolves.toBe('downstream-token');
+
+    const [url, init] = fetch.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe('http://auth-service:8080/oauth/token');
+    expect(init.headers).toMatchObject({ 'Content-Type': 'application/x-www-form-urlencoded' });
+    expect(Object.fromEntries(new URLSearchParams(init.body as string))).toEqual({
+      grant_type: 'urn:ietf:params:oauth:grant-type:token-exchange',
+      subject_token: 'caller-token',
+      subject_token_type: 'urn:ietf:params:oauth:token-type:access_token',
+      requested_token_type: 'urn:ietf:params:oauth:token-type:access_token',
+      audience: 'account-service',
+      client_id: 'conduites-bff',
+    });
+  });
+
+  it('should report a token response without an access token as a bad downstream response', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({ token_type: 'Bearer' }), { status: 200 })));
+
+    await expect(tokenExchanger.getToken('caller-token', 'customer-service')).rejects.toBeInstanceOf(DownstreamBadResponse);
+  });
+});
+
+describe('credentialProvider', () => {
+  const exchanger = { getToken: vi.fn(async (token: string, audience: string) => `exchanged-for-${audience}`) };
+
+  it('should send nothing under the none policy', () => {
+    expect(credentialProvider({ mode: 'none' }, exchanger)).toBeUndefined();
+  });
+
+  it('should forward or exchange the caller token and send nothing for anonymous callers', async () => {
+    const passthrough = credentialProvider({ mode: 'passthrough' }, exchanger)!;
+    const exchange = credentialProvider({ mode: 'exchange', audience: 'account-service' }, exchanger)!;
+
+    await runWithCallerToken('caller-token', async () => {
+      expect(getCallerToken()).toBe('caller-token');
+      await expect(passthrough()).resolves.toBe('Bearer caller-token');
+      await expect(exchange()).resolves.toBe('Bearer exchanged-for-account-service');
+    });
+    expect(exchanger.getToken).toHaveBeenCalledWith('caller-token', 'account-service');
+
+    await expect(passthrough()).resolves.toBeUndefined();
+    await expect(exchange()).resolves.toBeUndefined();
+  });
+
+  it('should always send a static credential', async () => {
+    const provider = credentialProvider({ mode: 'static', token: 'service-token' }, exchanger)!;
+
+    await expect(provider()).resolves.toBe('Bearer service-token');
+    await expect(runWithCallerToken('caller-token', provider)).resolves.toBe('Bearer service-token');
+  });
+});
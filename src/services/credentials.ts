@@ -0,0 +1,196 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { createHash } from 'crypto';
+import { config } from '../config/index.js';
+import { HttpClient } from './httpClient.js';
+import { DownstreamBadResponse } from './errors.js';
+import { sharedStore } from './sharedStore.js';
+import type { SharedStore } from './sharedStore.js';
+import { logger } from './logger.js';
+
+/**
+ * How a downstream call identifies the end user
+ * - none: no Authorization header
+ * - passthrough: the caller's verified bearer token, unchanged
+ * - exchange: a token for the downstream's audience, obtained from the auth service
+ * - static: a fixed service credential, sent whether or not there is a caller
+ */
+export type CredentialMode = 'none' | 'passthrough' | 'exchange' | 'static';
+
+export type CredentialPolicy =
+  | { mode: 'none' | 'passthrough' }
+  | { mode: 'exchange'; audience: string }
+  | { mode: 'static'; token: string };
+
+/**
+ * Authorization header value for the current downstream call - undefined sends none
+ */
+export type CredentialProvider = () => Promise<string | undefined>;
+
+export interface ExchangedToken {
+  accessToken: string;
+  expiresIn?: number;       // Seconds - the token is not cached without it
+}
+
+export interface TokenExchangerOptions {
+  expiryMarginSeconds: number; // Stop reusing a token this long before it expires
+  cache: boolean;              // Reuse exchanged tokens across requests and workers
+}
+
+const TOKEN_EXCHANGE_GRANT = 'urn:ietf:params:oauth:grant-type:token-exchange';
+const ACCESS_TOKEN_TYPE = 'urn:ietf:params:oauth:token-type:access_token';
+
+const storage = new AsyncLocalStorage<string>();
+
+/**
+ * Run a callback with the caller's verified bearer token bound to the async call chain
+ */
+export function runWithCallerToken<T>(token: string, callback: () => T): T {
+  return storage.run(token, callback);
+}
+
+/**
+ * Bearer token of the caller whose request is being handled, if any
+ */
+export function getCallerToken(): string | undefined {
+  return storage.getStore();
+}
+
+/**
+ * Caches downstream-scoped tokens per caller token and audience on the shared
+ * store until shortly before they expire, so every worker reuses them;
+ * concurrent requests in a worker for the same token share one exchange
+ */
+export class TokenExchanger {
+  private pending = new Map<string, Promise<string>>();
+
+  constructor(
+    private exchange: (subjectToken: string, audience: string) => Promise<ExchangedToken>,
+    private store: SharedStore,
+    private options: TokenExchangerOptions,
+  ) {}
+
+  /**
+   * Token for calling the audience on behalf of the subject token's user
+   * @throws DownstreamError when the auth service rejects or fails the exchange
+   */
+  async getToken(subjectToken: string, audience: string): Promise<string> {
+    // Keyed by digest so the store does not hold caller tokens
+    const key = `token-exchange:${audience}:${createHash('sha256').update(subjectToken).digest('base64url')}`;
+    const cached = await this.cached(key);
+    if (cached) {
+      return cached;
+    }
+
+    let pending = this.pending.get(key);
+    if (!pending) {
+      pending = this.exchange(subjectToken, audience)
+        .then(async result => {
+          await this.save(key, result);
+          return result.accessToken;
+        })
+        .finally(() => this.pending.delete(key));
+      this.pending.set(key, pending);
+    }
+    return pending;
+  }
+
+  /**
+   * Cached token - a store failure only costs an exchange
+   */
+  private async cached(key: string): Promise<string | undefined> {
+    if (!this.options.cache) {
+      return undefined;
+    }
+    try {
+      return await this.store.get<string>(key);
+    } catch (error) {
+      logger.forRequest().warn('Token exchange cache unavailable', { error });
+      return undefined;
+    }
+  }
+
+  private async save(key: string, { accessToken, expiresIn }: ExchangedToken): Promise<void> {
+    const ttlMs = ((expiresIn ?? 0) - this.options.expiryMarginSeconds) * 1000;
+    if (!this.options.cache || expiresIn === undefined || ttlMs <= 0) {
+      return;
+    }
+    try {
+      await this.store.set(key, accessToken, ttlMs);
+    } catch (error) {
+      logger.forRequest().warn('Token exchange cache unavailable', { error });
+    }
+  }
+}
+
+/**
+ * Authorization header for each call made under the policy
+ * Passthrough and exchange send nothing for anonymous callers
+ */
+export function credentialProvider(
+  policy: CredentialPolicy,
+  exchanger: Pick<TokenExchanger, 'getToken'> = tokenExchanger,
+): CredentialProvider | undefined {
+  switch (policy.mode) {
+    case 'none':
+      return undefined;
+    case 'static':
+      return async () => `Bearer ${policy.token}`;
+    case 'passthrough':
+      return async () => {
+        const token = getCallerToken();
+        return token && `Bearer ${token}`;
+      };
+    case 'exchange':
+      return async () => {
+        const token = getCallerToken();
+        return token && `Bearer ${await exchanger.getToken(token, policy.audience)}`;
+      };
+  }
+}
+
+const authService = new HttpClient(config.services.authService, { serviceName: 'auth-service' });
+
+/**
+ * RFC 8693 token exchange against the auth service token endpoint
+ * The BFF authenticates with HTTP Basic when it has a client secret
+ */
+async function exchangeWithAuthService(subjectToken: string, audience: string): Promise<ExchangedToken> {
+  const { clientId, clientSecret, path } = config.tokenExchange;
+  const form = new URLSearchParams({
+    grant_type: TOKEN_EXCHANGE_GRANT,
+    subject_token: subjectToken,
+    subject_token_type: ACCESS_TOKEN_TYPE,
+    requested_token_type: ACCESS_TOKEN_TYPE,
+    audience,
+  });
+  const headers: Record<string, string> = { 'Content-Type': 'application/x-www-form-urlencoded' };
+  if (clientSecret) {
+    const credentials = `${encodeURIComponent(clientId)}:${encodeURIComponent(clientSecret)}`;
+    headers['Authorization'] = `Basic ${Buffer.from(credentials).toString('base64')}`;
+  } else {
+    form.set('client_id', clientId);
+  }
+
+  const startedAt = Date.now();
+  const response = await authService.post<{ access_token?: string; expires_in?: number }>(path, form, headers);
+  if (typeof response.data?.access_token !== 'string') {
+    throw new DownstreamBadResponse(`Token exchange for ${audience} returned no access_token`, {
+      service: 'auth-service',
+      method: 'POST',
+      url: `${config.services.authService}${path}`,
+      status: response.status,
+      elapsedMs: Date.now() - startedAt,
+    });
+  }
+  return {
+    accessToken: response.data.access_token,
+    expiresIn: typeof response.data.expires_in === 'number' ? response.data.expires_in : undefined,
+  };
+}
+
+// Shared by every downstream with the exchange policy, configured from TOKEN_EXCHANGE_* variables
+// Exchanged tokens are cached on the shared store
+export const tokenExchanger = new TokenExchanger(exchangeWithAuthService, sharedStore, {
+  expiryMarginSeconds: config.tokenExchange.expiryMarginSeconds,
+  cache: config.tokenExchange.cacheEnabled,
+});
@@ -1,11 +1,47 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { customerService } from './customerService.js';
+import { createTraceContext, runWithTraceContext } from './traceContext.js';
+import { DownstreamBadResponse, DownstreamNotFound } from './errors.js';
 
 // Mock the config
-vi.mock('../config/environment.js', () => ({
+vi.mock('../config/index.js', () => ({
   config: {
-    downstream: {
+    services: {
       customerService: 'http://customer-service:8080',
+      authService: 'http://auth-service:8080',
+    },
+    downstreamCredentials: {
+      customerService: { mode: 'none' },
+    },
+    tokenExchange: {
+      expiryMarginSeconds: 30,
+      cacheEnabled: true,
+    },
+    request: {
+      timeout: 5000,
+      retry: {
+        maxRetries: 0,
+        baseDelayMs: 100,
+        maxDelayMs: 1000,
+      },
+    },
+    sharedStore: {
+      timeoutMs: 1000,
+    },
+    logging: {
+      level: 'info',
+      format: 'json',
+    },
+    redaction: {
+      enabled: false,
+      fields: [],
+    },
+    serviceMesh: {
+      serviceName: 'graph-conduit-accounts',
+      serviceVersion: '1.0.0',
+    },
+    circuitBreaker: {
+      enabled: false,
     },
   },
 }));
@@ -38,11 +74,12 @@ describe('CustomerService', () => {
 
       const result = await customerService.getCustomerById('123');
 
-      expect(mockFetch).toHaveBeenCalledWith('http://customer-service:8080/customers/123', {
-        headers: {
+      expect(mockFetch).toHaveBeenCalledWith('http://customer-service:8080/customers/123', expect.objectContaining({
+        method: 'GET',
+        headers: expect.objectContaining({
           'Content-Type': 'application/json',
-        },
-      });
+        }),
+      }));
       expect(result).toEqual(mockCustomer);
     });
 
@@ -55,13 +92,14 @@ describe('CustomerService', () => {
 
       await expect(customerService.getCustomerById('999'))
         .rejects
-        .toThrow('Failed to fetch customer 999: 404 Not Found');
+        .toThrow(DownstreamNotFound);
 
-      expect(mockFetch).toHaveBeenCalledWith('http://customer-service:8080/customers/999', {
-        headers: {
+      expect(mockFetch).toHaveBeenCalledWith('http://customer-service:8080/customers/999', expect.objectContaining({
+        method: 'GET',
+        headers: expect.objectContaining({
           'Content-Type': 'application/json',
-        },
-      });
+        }),
+      }));
     });
 
     it('should throw error when fetch fails', async () => {
@@ -83,11 +121,12 @@ describe('CustomerService', () => {
 
         await customerService.getCustomerById(customerId);
 
-        expect(mockFetch).toHaveBeenCalledWith(`http://customer-service:8080/customers/${customerId}`, {
-          headers: {
+        expect(mockFetch).toHaveBeenCalledWith(`http://customer-service:8080/customers/${customerId}`, expect.objectContaining({
+          method: 'GET',
+          headers: expect.objectContaining({
             'Content-Type': 'application/json',
-          },
-        });
+          }),
+        }));
       }
     });
 
@@ -101,7 +140,7 @@ describe('CustomerService', () => {
 
       await expect(customerService.getCustomerById('123'))
         .rejects
-        .toThrow('Malformed JSON response');
+        .toThrow(DownstreamBadResponse);
     });
 
     it('should include proper headers in request', async () => {
@@ -115,14 +154,89 @@ describe('CustomerService', () => {
       expect(mockFetch).toHaveBeenCalledWith(
         expect.any(String),
         expect.objectContaining({
-          headers: {
+          headers: expect.objectContaining({
             'Content-Type': 'application/json',
-          },
+            'User-Agent': 'graph-conduit-accounts/1.0.0',
+          }),
         })
       );
     });
   });
 
+  describe('getCustomersByIds', () => {
+    it('should fetch several customers in one call', async () => {
+      const mockCustomers = [
+        { id: '1', name: 'John Doe', email: 'john@example.com' },
+        { id: '2', name: 'Jane Doe', email: 'jane@example.com' },
+      ];
+
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => mockCustomers,
+      });
+
+      const result = await customerService.getCustomersByIds(['1', '2']);
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(mockFetch).toHaveBeenCalledWith('http://customer-service:8080/customers?ids=1,2', expect.objectContaining({
+        method: 'GET',
+        headers: expect.objectContaining({
+          'Content-Type': 'application/json',
+        }),
+      }));
+      expect(result).toEqual(mockCustomers);
+    });
+
+    it('should encode IDs in the query string', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => [],
+      });
+
+      await customerService.getCustomersByIds(['a b', 'c&d']);
+
+      expect(mockFetch).toHaveBeenCalledWith('http://customer-service:8080/customers?ids=a%20b,c%26d', expect.any(Object));
+    });
+
+    it('should throw error when response is not ok', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 500,
+        statusText: 'Internal Server Error',
+      });
+
+      await expect(customerService.getCustomersByIds(['1', '2']))
+        .rejects
+        .toThrow('customer-service: GET http://customer-service:8080/customers?ids=1,2 returned HTTP 500: Internal Server Error');
+    });
+  });
+
+  describe('Trace Propagation', () => {
+    it('should forward request ID and trace headers of the current request', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ id: '123' }),
+      });
+
+      const trace = createTraceContext(name => ({
+        'x-request-id': 'req-abc',
+        'x-b3-traceid': '463ac35c9f6413ad',
+        'x-b3-spanid': 'a2fb4a1d1a96d312',
+      } as Record<string, string>)[name]);
+
+      await runWithTraceContext(trace, () => customerService.getCustomerById('123'));
+
+      expect(mockFetch).toHaveBeenCalledWith('http://customer-service:8080/customers/123', expect.objectContaining({
+        headers: expect.objectContaining({
+          'Content-Type': 'application/json',
+          'x-request-id': 'req-abc',
+          'x-b3-traceid': '0000000000000000463ac35c9f6413ad',
+          'x-b3-spanid': 'a2fb4a1d1a96d312',
+        }),
+      }));
+    });
+  });
+
   describe('HTTP Status Codes', () => {
     it('should handle different HTTP error codes', async () => {
       const testCases = [
@@ -145,7 +259,11 @@ describe('CustomerService', () => {
 
         await expect(customerService.getCustomerById('123'))
           .rejects
-          .toThrow(`Failed to fetch customer 123: ${testCase.status} ${testCase.statusText}`);
+          .toMatchObject({
+            service: 'customer-service',
+            status: testCase.status,
+            message: `customer-service: GET http://customer-service:8080/customers/123 returned HTTP ${testCase.status}: ${testCase.statusText}`,
+          });
       }
     });
   });
@@ -314,9 +432,10 @@ describe('CustomerService', () => {
         },
       });
 
-      await expect(customerService.getCustomerById('123'))
-        .rejects
-        .toThrow('Unexpected token < in JSON at position 0');
+      const error = await customerService.getCustomerById('123').catch(e => e);
+
+      expect(error).toBeInstanceOf(DownstreamBadResponse);
+      expect(error.cause.message).toBe('Unexpected token < in JSON at position 0');
     });
   });
 
@@ -1,4 +1,6 @@
-import { config } from '../config/environment.js';
+import { HttpClient } from './httpClient.js';
+import { credentialProvider } from './credentials.js';
+import { config } from '../config/index.js';
 
 /**
  * Customer data interface
@@ -11,36 +13,46 @@ export interface Customer {
 
 /**
  * Customer service client - HTTP client for customer microservice
- * THIN client: just HTTP fetch, service mesh handles resilience
+ * THIN client: shared HttpClient for timeout, headers, trace and credential propagation
  */
 class CustomerService {
-  private baseUrl: string;
+  private client: HttpClient;
 
   constructor() {
-    this.baseUrl = config.downstream.customerService;
+    this.client = new HttpClient(config.services.customerService, {
+      serviceName: 'customer-service',
+      credentials: credentialProvider(config.downstreamCredentials.customerService),
+    });
   }
 
   /**
    * Get customer by ID from downstream customer service
    * @param id - Customer ID
    * @returns Customer data
-   * @throws Error if response not ok
+   * @throws DownstreamError if the downstream call fails
    */
   async getCustomerById(id: string): Promise<Customer> {
-    const url = `${this.baseUrl}/customers/${id}`;
-    
-    const response = await fetch(url, {
-      headers: {
-        'Content-Type': 'application/json',
-      },
-    });
+    const response = await this.client.get<Customer>(`/customers/${id}`);
     
-    if (!response.ok) {
-      throw new Error(`Failed to fetch customer ${id}: ${response.status} ${response.statusText}`);
-    }
+    return response.data;
+  }
+
+  /**
+   * Get several customers in a single call to the customer service
+   * Requires the batch endpoint to be enabled on the downstream service
+   * @param ids - Customer IDs
+   * @returns Customer data for the IDs that exist (order not guaranteed)
+   * @throws DownstreamError if the downstream call fails
+   */
+  async getCustomersByIds(ids: readonly string[]): Promise<Customer[]> {
+    const response = await this.client.get<Customer[]>(`/customers?ids=${ids.map(encodeURIComponent).join(',')}`);
     
-    return await response.json();
+    return response.data;
+  }
+
+  async healthCheck(timeoutMs?: number) {
+    return this.client.healthCheck(timeoutMs);
   }
 }
 
-export const customerService = new CustomerService();
\ No newline at end of file
+export const customerService = new CustomerService();
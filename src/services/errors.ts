@@ -0,0 +1,67 @@
+/**
+ * Context captured for every failed downstream call
+ */
+export interface DownstreamErrorDetails {
+  service: string;      // Downstream service name (e.g. account-service)
+  method: string;       // HTTP method of the failed call
+  url: string;          // Full request URL
+  status?: number;      // HTTP status, when a response was received
+  body?: unknown;       // Parsed error body (JSON when possible, text otherwise)
+  elapsedMs: number;    // Time from request start to failure
+  retryAfterMs?: number; // Delay requested by a Retry-After response header
+  attempts?: number;    // Attempts made before giving up (set by HttpClient retries)
+  cause?: unknown;      // Underlying error for network/parse failures
+}
+
+/**
+ * Base class for all downstream failures raised by HttpClient
+ * Lets resolvers and logs distinguish a 404 from a timeout or network failure
+ */
+export class DownstreamError extends Error {
+  readonly service: string;
+  readonly method: string;
+  readonly url: string;
+  readonly status?: number;
+  readonly body?: unknown;
+  readonly elapsedMs: number;
+  readonly retryAfterMs?: number;
+  attempts: number;
+
+  constructor(message: string, details: DownstreamErrorDetails) {
+    super(message, { cause: details.cause });
+    this.name = new.target.name;
+    this.service = details.service;
+    this.method = details.method;
+    this.url = details.url;
+    this.status = details.status;
+    this.body = details.body;
+    this.elapsedMs = details.elapsedMs;
+    this.retryAfterMs = details.retryAfterMs;
+    this.attempts = details.attempts ?? 1;
+  }
+}
+
+/**
+ * Downstream answered 404 - the requested resource does not exist
+ */
+export class DownstreamNotFound extends DownstreamError {}
+
+/**
+ * Request exceeded the client timeout, or downstream answered 408/504
+ */
+export class DownstreamTimeout extends DownstreamError {}
+
+/**
+ * Downstream could not be reached (connection refused, DNS, reset) or answered 502/503
+ */
+export class DownstreamUnavailable extends DownstreamError {}
+
+/**
+ * Downstream answered with any other error status, or a body that could not be parsed
+ */
+export class DownstreamBadResponse extends DownstreamError {}
+
+/**
+ * Circuit for the downstream is open - the call was not attempted
+ */
+export class DownstreamCircuitOpen extends DownstreamUnavailable {}
@@ -1,16 +1,49 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { SpanKind, SpanStatusCode } from '@opentelemetry/api';
+import { InMemorySpanExporter } from '@opentelemetry/sdk-trace-base';
 import { HttpClient } from './httpClient.js';
+import { config } from '../config/index.js';
+import {
+  DownstreamBadResponse,
+  DownstreamCircuitOpen,
+  DownstreamError,
+  DownstreamNotFound,
+  DownstreamTimeout,
+  DownstreamUnavailable,
+} from './errors.js';
+import { createTraceContext, runWithTraceContext } from './traceContext.js';
+import { tracer } from './tracing.js';
+import { Logger } from './logger.js';
 
 // Mock the config
 vi.mock('../config/index.js', () => ({
-  appConfig: {
+  config: {
     request: {
       timeout: 5000,
+      retry: {
+        maxRetries: 0,
+        baseDelayMs: 100,
+        maxDelayMs: 1000,
+      },
+    },
+    sharedStore: {
+      timeoutMs: 1000,
+    },
+    logging: {
+      level: 'info',
+      format: 'json',
+    },
+    redaction: {
+      enabled: false,
+      fields: [],
     },
     serviceMesh: {
       serviceName: 'graph-conduit-accounts',
       serviceVersion: '1.0.0',
     },
+    circuitBreaker: {
+      enabled: false,
+    },
   },
 }));
 
@@ -102,19 +135,25 @@ describe('HttpClient', () => {
       });
     });
 
-    it('should handle 404 error response', async () => {
+    it('should throw DownstreamNotFound for 404 responses', async () => {
       mockFetch.mockResolvedValueOnce({
         ok: false,
         status: 404,
         statusText: 'Not Found',
+        text: async () => JSON.stringify({ code: 'NOT_FOUND', message: 'No such item' }),
       });
 
-      const result = await httpClient.get('/notfound');
+      const error = await httpClient.get('/notfound').catch(e => e);
 
-      expect(result).toEqual({
-        status: 404,
-        error: 'HTTP 404: Not Found',
-      });
+      expect(error).toBeInstanceOf(DownstreamNotFound);
+      expect(error).toBeInstanceOf(DownstreamError);
+      expect(error.message).toBe('example.com: GET http://example.com/notfound returned HTTP 404: Not Found');
+      expect(error.service).toBe('example.com');
+      expect(error.method).toBe('GET');
+      expect(error.url).toBe('http://example.com/notfound');
+      expect(error.status).toBe(404);
+      expect(error.body).toEqual({ code: 'NOT_FOUND', message: 'No such item' });
+      expect(error.elapsedMs).toBeGreaterThanOrEqual(0);
     });
   });
 
@@ -204,47 +243,54 @@ describe('HttpClient', () => {
   });
 
   describe('Error Handling', () => {
-    it('should handle network errors', async () => {
+    it('should throw DownstreamUnavailable for network errors', async () => {
       mockFetch.mockRejectedValueOnce(new Error('Network error'));
 
-      const result = await httpClient.get('/test');
+      const error = await httpClient.get('/test').catch(e => e);
 
-      expect(result).toEqual({
-        status: 500,
-        error: 'Network error',
-      });
+      expect(error).toBeInstanceOf(DownstreamUnavailable);
+      expect(error.message).toBe('example.com: GET http://example.com/test failed: Network error');
+      expect(error.status).toBeUndefined();
+      expect(error.cause).toBeInstanceOf(Error);
     });
 
-    it('should handle timeout errors', async () => {
+    it('should throw DownstreamTimeout when the request is aborted', async () => {
       mockFetch.mockRejectedValueOnce(Object.assign(new Error('Timeout'), { name: 'AbortError' }));
 
-      const result = await httpClient.get('/test');
+      const error = await httpClient.get('/test').catch(e => e);
 
-      expect(result).toEqual({
-        status: 408,
-        error: 'Request timeout',
-      });
+      expect(error).toBeInstanceOf(DownstreamTimeout);
+      expect(error.message).toBe('example.com: GET http://example.com/test timed out after 5000ms');
     });
 
     it('should handle unknown errors', async () => {
       mockFetch.mockRejectedValueOnce('String error');
 
-      const result = await httpClient.get('/test');
+      await expect(httpClient.get('/test')).rejects.toThrow(
+        'example.com: GET http://example.com/test failed: Unknown error occurred'
+      );
+    });
 
-      expect(result).toEqual({
-        status: 500,
-        error: 'Unknown error occurred',
-      });
+    it('should use the configured service name', async () => {
+      const client = new HttpClient('http://example.com', { serviceName: 'user-service' });
+      mockFetch.mockRejectedValueOnce(new Error('Network error'));
+
+      const error = await client.get('/test').catch(e => e);
+
+      expect(error.service).toBe('user-service');
+      expect(error.message).toMatch(/^user-service: /);
     });
 
-    it('should handle HTTP error status codes', async () => {
+    it('should classify HTTP error status codes', async () => {
       const testCases = [
-        { status: 400, statusText: 'Bad Request' },
-        { status: 401, statusText: 'Unauthorized' },
-        { status: 403, statusText: 'Forbidden' },
-        { status: 500, statusText: 'Internal Server Error' },
-        { status: 502, statusText: 'Bad Gateway' },
-        { status: 503, statusText: 'Service Unavailable' },
+        { status: 400, statusText: 'Bad Request', errorClass: DownstreamBadResponse },
+        { status: 401, statusText: 'Unauthorized', errorClass: DownstreamBadResponse },
+        { status: 403, statusText: 'Forbidden', errorClass: DownstreamBadResponse },
+        { status: 408, statusText: 'Request Timeout', errorClass: DownstreamTimeout },
+        { status: 500, statusText: 'Internal Server Error', errorClass: DownstreamBadResponse },
+        { status: 502, statusText: 'Bad Gateway', errorClass: DownstreamUnavailable },
+        { status: 503, statusText: 'Service Unavailable', errorClass: DownstreamUnavailable },
+        { status: 504, statusText: 'Gateway Timeout', errorClass: DownstreamTimeout },
       ];
 
       for (const testCase of testCases) {
@@ -254,16 +300,322 @@ describe('HttpClient', () => {
           statusText: testCase.statusText,
         });
 
-        const result = await httpClient.get('/test');
+        const error = await httpClient.get('/test').catch(e => e);
 
-        expect(result).toEqual({
-          status: testCase.status,
-          error: `HTTP ${testCase.status}: ${testCase.statusText}`,
-        });
+        expect(error).toBeInstanceOf(testCase.errorClass);
+        expect(error.status).toBe(testCase.status);
+        expect(error.message).toContain(`HTTP ${testCase.status}: ${testCase.statusText}`);
 
         mockFetch.mockClear();
       }
     });
+
+    it('should keep non-JSON error bodies as text', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 500,
+        statusText: 'Internal Server Error',
+        text: async () => 'upstream exploded',
+      });
+
+      const error = await httpClient.get('/test').catch(e => e);
+
+      expect(error.body).toBe('upstream exploded');
+    });
+
+    it('should throw DownstreamBadResponse for invalid JSON bodies', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => {
+          throw new SyntaxError('Unexpected token < in JSON at position 0');
+        },
+      });
+
+      const error = await httpClient.get('/test').catch(e => e);
+
+      expect(error).toBeInstanceOf(DownstreamBadResponse);
+      expect(error.status).toBe(200);
+      expect(error.message).toBe('example.com: GET http://example.com/test returned an invalid JSON body');
+    });
+  });
+
+  describe('Retries', () => {
+    const unavailable = { ok: false, status: 503, statusText: 'Service Unavailable' };
+    const success = { ok: true, status: 200, json: async () => ({ id: 1 }) };
+
+    let retryingClient: HttpClient;
+
+    beforeEach(() => {
+      retryingClient = new HttpClient('http://example.com', {
+        retry: { maxRetries: 2, baseDelayMs: 100, maxDelayMs: 1000 },
+      });
+      vi.spyOn(Math, 'random').mockReturnValue(0.5);
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('should retry idempotent requests on transient failures', async () => {
+      mockFetch
+        .mockResolvedValueOnce(unavailable)
+        .mockRejectedValueOnce(new Error('ECONNRESET'))
+        .mockResolvedValueOnce(success);
+
+      const promise = retryingClient.get('/test');
+      await vi.runAllTimersAsync();
+      const result = await promise;
+
+      expect(result.data).toEqual({ id: 1 });
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+      expect(retryingClient.getRetryStats()).toEqual({ attempts: 3, retries: 2, recovered: 1, exhausted: 0 });
+    });
+
+    it('should back off exponentially with jitter', async () => {
+      const setTimeoutSpy = vi.spyOn(global, 'setTimeout');
+      mockFetch
+        .mockResolvedValueOnce(unavailable)
+        .mockResolvedValueOnce(unavailable)
+        .mockResolvedValueOnce(success);
+
+      const promise = retryingClient.get('/test');
+      await vi.runAllTimersAsync();
+      await promise;
+
+      // Backoff delays are the only timers shorter than the 5000ms request timeout
+      const delays = setTimeoutSpy.mock.calls.map(([, ms]) => ms).filter(ms => ms !== 5000);
+      expect(delays).toEqual([50, 100]);
+    });
+
+    it('should throw the last error with the attempt count once retries are exhausted', async () => {
+      mockFetch.mockResolvedValue(unavailable);
+
+      const promise = retryingClient.get('/test').catch(e => e);
+      await vi.runAllTimersAsync();
+      const error = await promise;
+
+      expect(error).toBeInstanceOf(DownstreamUnavailable);
+      expect(error.attempts).toBe(3);
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+      expect(retryingClient.getRetryStats().exhausted).toBe(1);
+      expect(console.error).toHaveBeenCalledWith(expect.stringContaining('Downstream request failed after retries'));
+    });
+
+    it('should log every retried attempt', async () => {
+      mockFetch
+        .mockResolvedValueOnce(unavailable)
+        .mockResolvedValueOnce(success);
+
+      const promise = retryingClient.get('/test');
+      await vi.runAllTimersAsync();
+      await promise;
+
+      const logged = JSON.parse(vi.mocked(console.warn).mock.calls[0][0]);
+      expect(logged).toMatchObject({
+        level: 'warn',
+        message: 'Retrying downstream request',
+        downstream: 'example.com',
+        method: 'GET',
+        attempt: 1,
+        delayMs: 50,
+        status: 503,
+        error: 'DownstreamUnavailable',
+      });
+    });
+
+    it('should log first attempts too - debug on success, warn on a failure that is not retried', async () => {
+      const debug = vi.spyOn(Logger.prototype, 'debug');
+      mockFetch
+        .mockResolvedValueOnce(success)
+        .mockResolvedValueOnce({ ok: false, status: 404, statusText: 'Not Found' });
+
+      await retryingClient.get('/test');
+      await retryingClient.get('/missing').catch(() => undefined);
+
+      expect(debug).toHaveBeenCalledWith('Downstream request succeeded', expect.objectContaining({
+        downstream: 'example.com',
+        method: 'GET',
+        attempt: 1,
+        status: 200,
+      }));
+      expect(JSON.parse(vi.mocked(console.warn).mock.calls[0][0])).toMatchObject({
+        level: 'warn',
+        message: 'Downstream request failed',
+        attempt: 1,
+        status: 404,
+        error: 'DownstreamNotFound',
+      });
+    });
+
+    it('should not retry non-transient failures', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: false, status: 404, statusText: 'Not Found' });
+
+      await expect(retryingClient.get('/test')).rejects.toBeInstanceOf(DownstreamNotFound);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not retry POST without an idempotency key', async () => {
+      mockFetch.mockResolvedValueOnce(unavailable);
+
+      await expect(retryingClient.post('/create', { a: 1 })).rejects.toBeInstanceOf(DownstreamUnavailable);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should retry POST when an idempotency key is present', async () => {
+      mockFetch
+        .mockResolvedValueOnce(unavailable)
+        .mockResolvedValueOnce(success);
+
+      const promise = retryingClient.post('/create', { a: 1 }, { 'Idempotency-Key': 'abc' });
+      await vi.runAllTimersAsync();
+      await promise;
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should retry PUT and DELETE', async () => {
+      mockFetch
+        .mockResolvedValueOnce(unavailable)
+        .mockResolvedValueOnce(success)
+        .mockResolvedValueOnce(unavailable)
+        .mockResolvedValueOnce({ ok: true, status: 204 });
+
+      const put = retryingClient.put('/item/1', { a: 1 });
+      await vi.runAllTimersAsync();
+      await put;
+      const del = retryingClient.delete('/item/1');
+      await vi.runAllTimersAsync();
+      await del;
+
+      expect(mockFetch).toHaveBeenCalledTimes(4);
+    });
+
+    it('should honour Retry-After on 429 responses', async () => {
+      const setTimeoutSpy = vi.spyOn(global, 'setTimeout');
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: false,
+          status: 429,
+          statusText: 'Too Many Requests',
+          headers: new Headers({ 'Retry-After': '1' }),
+        })
+        .mockResolvedValueOnce(success);
+
+      const promise = retryingClient.get('/test');
+      await vi.runAllTimersAsync();
+      await promise;
+
+      expect(setTimeoutSpy.mock.calls.map(([, ms]) => ms)).toContain(1000);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should give up when Retry-After exceeds the maximum delay', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 503,
+        statusText: 'Service Unavailable',
+        headers: new Headers({ 'Retry-After': '120' }),
+      });
+
+      const error = await retryingClient.get('/test').catch(e => e);
+
+      expect(error).toBeInstanceOf(DownstreamUnavailable);
+      expect(error.retryAfterMs).toBe(120000);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not retry when retries are disabled', async () => {
+      mockFetch.mockResolvedValueOnce(unavailable);
+
+      await expect(httpClient.get('/test')).rejects.toBeInstanceOf(DownstreamUnavailable);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Circuit Breaker', () => {
+    const unavailable = { ok: false, status: 503, statusText: 'Service Unavailable' };
+
+    beforeEach(() => {
+      Object.assign(config.circuitBreaker, {
+        enabled: true,
+        failureRateThreshold: 0.5,
+        minimumRequests: 2,
+        windowMs: 10000,
+        coolDownMs: 5000,
+        halfOpenMaxCalls: 1,
+      });
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      config.circuitBreaker.enabled = false;
+      vi.restoreAllMocks();
+    });
+
+    it('should fail fast with DownstreamCircuitOpen once the circuit opens', async () => {
+      const client = new HttpClient('http://breaker-open.test', { serviceName: 'breaker-open' });
+      mockFetch.mockResolvedValue(unavailable);
+
+      await expect(client.get('/a')).rejects.toBeInstanceOf(DownstreamUnavailable);
+      await expect(client.get('/a')).rejects.toBeInstanceOf(DownstreamUnavailable);
+      mockFetch.mockClear();
+
+      const error = await client.get('/a').catch(e => e);
+
+      expect(error).toBeInstanceOf(DownstreamCircuitOpen);
+      expect(error).toBeInstanceOf(DownstreamUnavailable);
+      expect(error.retryAfterMs).toBe(5000);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should not count client errors as failures', async () => {
+      const client = new HttpClient('http://breaker-4xx.test');
+      mockFetch.mockResolvedValue({ ok: false, status: 404, statusText: 'Not Found' });
+
+      for (let i = 0; i < 3; i++) {
+        await expect(client.get('/missing')).rejects.toBeInstanceOf(DownstreamNotFound);
+      }
+
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('should close again after a successful half-open probe', async () => {
+      const client = new HttpClient('http://breaker-recover.test');
+      mockFetch.mockResolvedValue(unavailable);
+      await client.get('/a').catch(() => {});
+      await client.get('/a').catch(() => {});
+
+      vi.advanceTimersByTime(5000);
+      mockFetch.mockResolvedValue({ ok: true, status: 200, json: async () => ({ ok: true }) });
+
+      await expect(client.get('/a')).resolves.toMatchObject({ status: 200 });
+      await expect(client.get('/a')).resolves.toMatchObject({ status: 200 });
+    });
+
+    it('should share the breaker between clients for the same base URL', async () => {
+      const first = new HttpClient('http://breaker-shared.test');
+      const second = new HttpClient('http://breaker-shared.test');
+      mockFetch.mockResolvedValue(unavailable);
+
+      await first.get('/a').catch(() => {});
+      await first.get('/a').catch(() => {});
+
+      await expect(second.get('/b')).rejects.toBeInstanceOf(DownstreamCircuitOpen);
+    });
+
+    it('should allow opting a client out of the breaker', async () => {
+      const client = new HttpClient('http://breaker-optout.test', { circuitBreaker: false });
+      mockFetch.mockResolvedValue(unavailable);
+
+      for (let i = 0; i < 4; i++) {
+        await expect(client.get('/a')).rejects.not.toBeInstanceOf(DownstreamCircuitOpen);
+      }
+      expect(mockFetch).toHaveBeenCalledTimes(4);
+    });
   });
 
   describe('Health Check', () => {
@@ -296,6 +648,7 @@ describe('HttpClient', () => {
       expect(result).toEqual({
         status: 'unhealthy',
         responseTime: expect.any(Number),
+        error: 'HTTP 503',
       });
     });
 
@@ -307,8 +660,28 @@ describe('HttpClient', () => {
       expect(result).toEqual({
         status: 'unhealthy',
         responseTime: expect.any(Number),
+        error: 'DownstreamUnavailable',
       });
     });
+
+    it('should probe once without retrying', async () => {
+      const client = new HttpClient('http://example.com', { retry: { maxRetries: 3 } });
+      mockFetch.mockResolvedValue({ ok: false, status: 503, statusText: 'Service Unavailable' });
+
+      await client.healthCheck();
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should use the probe timeout instead of the client timeout', async () => {
+      const setTimeoutSpy = vi.spyOn(global, 'setTimeout');
+      mockFetch.mockRejectedValueOnce(Object.assign(new Error('Timeout'), { name: 'AbortError' }));
+
+      const result = await httpClient.healthCheck(50);
+
+      expect(setTimeoutSpy).toHaveBeenCalledWith(expect.any(Function), 50);
+      expect(result).toMatchObject({ status: 'unhealthy', error: 'DownstreamTimeout' });
+    });
   });
 
   describe('Request Configuration', () => {
@@ -367,6 +740,113 @@ describe('HttpClient', () => {
     });
   });
 
+  describe('Trace Propagation', () => {
+    it('should forward request ID and trace headers of the current request', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => ({}),
+      });
+
+      const trace = createTraceContext(name => ({
+        'x-request-id': 'req-abc',
+        'traceparent': '00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01',
+        'tracestate': 'vendor=value',
+      } as Record<string, string>)[name]);
+
+      await runWithTraceContext(trace, () => httpClient.get('/test'));
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.objectContaining({
+          headers: expect.objectContaining({
+            'x-request-id': 'req-abc',
+            'traceparent': '00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01',
+            'tracestate': 'vendor=value',
+          }),
+        })
+      );
+    });
+
+    it('should not add trace headers outside of a request', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => ({}),
+      });
+
+      await httpClient.get('/test');
+
+      const [, init] = mockFetch.mock.calls[0];
+      expect(init.headers).not.toHaveProperty('x-request-id');
+      expect(init.headers).not.toHaveProperty('traceparent');
+    });
+
+    describe('with tracing enabled', () => {
+      let exporter: InMemorySpanExporter;
+      const trace = createTraceContext(name => ({
+        'traceparent': '00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01',
+      } as Record<string, string>)[name]);
+
+      beforeEach(() => {
+        exporter = new InMemorySpanExporter();
+        tracer.start(exporter);
+      });
+
+      afterEach(async () => {
+        await tracer.shutdown();
+      });
+
+      // The in-memory exporter reports each export back on a timer
+      const finishedSpans = async () => {
+        await vi.runAllTimersAsync();
+        await tracer.forceFlush();
+        return exporter.getFinishedSpans();
+      };
+
+      it('should record a client span and send it as the parent', async () => {
+        mockFetch.mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({}) });
+
+        await runWithTraceContext(trace, () => httpClient.get('/test'));
+
+        const [span] = await finishedSpans();
+        expect(span.spanContext().traceId).toBe('0af7651916cd43dd8448eb211c80319c');
+        expect(span).toMatchObject({
+          name: 'GET example.com',
+          kind: SpanKind.CLIENT,
+          parentSpanContext: { spanId: 'b7ad6b7169203331' },
+          attributes: {
+            'http.request.method': 'GET',
+            'url.full': 'http://example.com/test',
+            'server.address': 'example.com',
+            'peer.service': 'example.com',
+            'http.response.status_code': 200,
+          },
+        });
+        const [, init] = mockFetch.mock.calls[0];
+        expect(init.headers.traceparent).toBe(`00-0af7651916cd43dd8448eb211c80319c-${span.spanContext().spanId}-01`);
+      });
+
+      it('should record a span per attempt and mark failed ones', async () => {
+        const retrying = new HttpClient('http://example.com', { retry: { maxRetries: 1 } });
+        mockFetch
+          .mockResolvedValueOnce({ ok: false, status: 503, statusText: 'Service Unavailable', text: async () => '', headers: new Headers() })
+          .mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({}) });
+
+        const pending = runWithTraceContext(trace, () => retrying.get('/test'));
+        await vi.runAllTimersAsync();
+        await pending;
+
+        const [failed, recovered] = await finishedSpans();
+        expect(failed.status.code).toBe(SpanStatusCode.ERROR);
+        expect(failed.attributes).toMatchObject({ 'http.response.status_code': 503, 'error.type': 'DownstreamUnavailable' });
+        expect(recovered.status.code).toBe(SpanStatusCode.UNSET);
+        const traceparents = mockFetch.mock.calls.map(([, init]) => init.headers.traceparent);
+        expect(traceparents).toEqual([failed, recovered].map(span => `00-${span.spanContext().traceId}-${span.spanContext().spanId}-01`));
+      });
+    });
+  });
+
   describe('URL Construction', () => {
     it('should construct URLs correctly', async () => {
       mockFetch.mockResolvedValueOnce({
@@ -432,20 +912,28 @@ describe('HttpClient', () => {
 
       expect(result.data).toEqual(mockResponse);
       expect(result.status).toBe(200);
-      expect(result.error).toBeUndefined();
     });
 
     it('should handle empty responses', async () => {
-      mockFetch.mockResolvedValueOnce({
+      const noContent = {
         ok: true,
         status: 204,
-        json: async () => null,
-      });
-
-      const result = await httpClient.get('/test');
+        json: async () => {
+          throw new SyntaxError('Unexpected end of JSON input');
+        },
+      };
+      mockFetch.mockResolvedValueOnce(noContent).mockResolvedValueOnce(noContent);
 
+      const result = await httpClient.delete('/test');
       expect(result.data).toBeNull();
       expect(result.status).toBe(204);
+
+      // Callers of GET, POST and PUT expect a body
+      await expect(httpClient.get('/test')).rejects.toMatchObject({
+        name: 'DownstreamBadResponse',
+        status: 204,
+        message: 'example.com: GET http://example.com/test returned no content',
+      });
     });
   });
 });
\ No newline at end of file
@@ -1,84 +1,412 @@
-import { appConfig } from '../config/index.js';
+import { SpanKind } from '@opentelemetry/api';
+import type { Span } from '@opentelemetry/api';
+import { config } from '../config/index.js';
+import { getPropagationHeaders } from './traceContext.js';
+import { logger } from './logger.js';
+import type { LogLevel } from './logger.js';
+import { redactor } from './redaction.js';
+import { metrics } from './metrics.js';
+import { tracer } from './tracing.js';
+import { getCircuitBreaker } from './circuitBreaker.js';
+import type { CircuitBreaker, CircuitBreakerOptions } from './circuitBreaker.js';
+import type { CredentialProvider } from './credentials.js';
+import {
+  DownstreamBadResponse,
+  DownstreamCircuitOpen,
+  DownstreamError,
+  DownstreamNotFound,
+  DownstreamTimeout,
+  DownstreamUnavailable,
+} from './errors.js';
+import type { DownstreamErrorDetails } from './errors.js';
+
+export interface RetryOptions {
+  maxRetries: number;   // Retries after the first attempt (0 disables retries)
+  baseDelayMs: number;  // Backoff base - delay ceiling doubles on every retry
+  maxDelayMs: number;   // Upper bound for a single delay, including Retry-After
+}
 
 interface HttpClientOptions {
   timeout?: number;
   headers?: Record<string, string>;
+  serviceName?: string;
+  retry?: Partial<RetryOptions>;
+  circuitBreaker?: Partial<CircuitBreakerOptions> | false;
+  credentials?: CredentialProvider; // Authorization header per call (see credentialProvider)
 }
 
-interface ServiceResponse<T = any> {
-  data?: T;
-  error?: string;
+export interface RetryStats {
+  attempts: number;       // Every fetch made, including first attempts
+  retries: number;        // Attempts after the first one
+  recovered: number;      // Requests that succeeded after at least one retry
+  exhausted: number;      // Requests that failed after using every retry
+}
+
+export interface ServiceResponse<T = any> {
+  data: T;
   status: number;
 }
 
+export interface HealthCheckResult {
+  status: 'healthy' | 'unhealthy';
+  responseTime: number;
+  error?: string;       // Failure reason, e.g. "HTTP 503" or "DownstreamTimeout"
+}
+
+// Every attempt, including retries and health checks
+const downstreamDuration = metrics.histogram({
+  name: 'downstream_request_duration_seconds',
+  help: 'Downstream call latency per attempt by service, method and status (HTTP status, timeout or network_error)',
+  labelNames: ['service', 'method', 'status'],
+});
+
+/**
+ * Read a failed response body for error reporting - JSON when possible, text otherwise
+ * PII is masked here so the captured body is safe to log anywhere
+ */
+async function readErrorBody(response: Response): Promise<unknown> {
+  try {
+    const text = await response.text();
+    if (!text) {
+      return undefined;
+    }
+    try {
+      return redactor.redact(JSON.parse(text));
+    } catch {
+      return redactor.redactText(text);
+    }
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP date) into milliseconds
+ */
+function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Only idempotent methods are safe to replay; POST needs an idempotency key
+ */
+function isIdempotent(method: string, headers: Record<string, string>): boolean {
+  if (['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'].includes(method)) {
+    return true;
+  }
+  return Object.keys(headers).some(name => name.toLowerCase() === 'idempotency-key');
+}
+
+/**
+ * Transient failures worth another attempt: timeouts, unreachable service, 429
+ */
+function isRetryable(error: unknown): error is DownstreamError {
+  return error instanceof DownstreamTimeout
+    || error instanceof DownstreamUnavailable
+    || (error instanceof DownstreamError && error.status === 429);
+}
+
+/**
+ * Failures that count against the circuit: timeouts, unreachable service, 5xx
+ * Client errors (4xx) mean the service is up and answering
+ */
+function isCircuitFailure(error: unknown): boolean {
+  return error instanceof DownstreamTimeout
+    || error instanceof DownstreamUnavailable
+    || (error instanceof DownstreamError && (error.status ?? 0) >= 500);
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Derive a service name from the base URL host (e.g. http://user-service:8080 -> user-service)
+ */
+function serviceNameFromUrl(baseUrl: string): string {
+  try {
+    return new URL(baseUrl).hostname;
+  } catch {
+    return baseUrl;
+  }
+}
+
 export class HttpClient {
   private baseUrl: string;
+  private serviceName: string;
   private timeout: number;
+  private retry: RetryOptions;
+  private breaker?: CircuitBreaker;
+  private credentials?: CredentialProvider;
   private defaultHeaders: Record<string, string>;
+  private stats: RetryStats = { attempts: 0, retries: 0, recovered: 0, exhausted: 0 };
 
   constructor(baseUrl: string, options: HttpClientOptions = {}) {
     this.baseUrl = baseUrl.replace(/\/$/, ''); // Remove trailing slash
-    this.timeout = options.timeout || appConfig.request.timeout;
+    this.serviceName = options.serviceName || serviceNameFromUrl(this.baseUrl);
+    this.timeout = options.timeout || config.request.timeout;
+    this.retry = { ...config.request.retry, ...options.retry };
+    if (options.circuitBreaker !== false && config.circuitBreaker.enabled) {
+      const { enabled, ...defaults } = config.circuitBreaker;
+      this.breaker = getCircuitBreaker(this.serviceName, this.baseUrl, { ...defaults, ...options.circuitBreaker });
+    }
+    this.credentials = options.credentials;
     this.defaultHeaders = {
       'Content-Type': 'application/json',
-      'User-Agent': `${appConfig.serviceMesh.serviceName}/${appConfig.serviceMesh.serviceVersion}`,
+      'User-Agent': `${config.serviceMesh.serviceName}/${config.serviceMesh.serviceVersion}`,
       ...options.headers,
     };
   }
 
+  /**
+   * Perform a request against the downstream service, retrying transient
+   * failures of idempotent calls with exponential backoff and full jitter
+   * The end-user credential is resolved once and reused by every attempt
+   * @param allowNoContent - Accept 204 No Content (data null); otherwise it is a bad response
+   * @throws DownstreamError subclass describing the final failure
+   */
   private async request<T>(
     method: string,
     path: string,
     data?: any,
-    headers?: Record<string, string>
+    headers?: Record<string, string>,
+    allowNoContent = false
   ): Promise<ServiceResponse<T>> {
+    const startTime = Date.now();
     // Ensure path starts with / for proper URL construction
     const normalizedPath = path.startsWith('/') ? path : `/${path}`;
     const url = `${this.baseUrl}${normalizedPath}`;
-    const requestHeaders = { ...this.defaultHeaders, ...headers };
+    const authorization = this.credentials && await this.credentials();
+    const requestHeaders = {
+      ...this.defaultHeaders,
+      ...(authorization && { Authorization: authorization }),
+      ...headers,
+    };
+    const maxAttempts = isIdempotent(method, requestHeaders) ? this.retry.maxRetries + 1 : 1;
 
-    try {
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+    for (let attempt = 1; ; attempt++) {
+      // Fail fast while the downstream is known to be down
+      if (this.breaker && !this.breaker.tryAcquire()) {
+        throw new DownstreamCircuitOpen(
+          `${this.serviceName}: circuit open, ${method} ${url} not attempted`,
+          {
+            service: this.serviceName,
+            method,
+            url,
+            elapsedMs: 0,
+            retryAfterMs: this.breaker.remainingCoolDownMs(),
+            attempts: attempt - 1,
+          }
+        );
+      }
+
+      this.stats.attempts++;
+      if (attempt > 1) {
+        this.stats.retries++;
+      }
+
+      try {
+        const response = await this.attempt<T>(method, url, data, requestHeaders);
+        if (response.status === 204 && !allowNoContent) {
+          // The caller expects a body - handled below like any other non-retryable failure
+          throw new DownstreamBadResponse(`${this.serviceName}: ${method} ${url} returned no content`, {
+            service: this.serviceName,
+            method,
+            url,
+            status: response.status,
+            elapsedMs: Date.now() - startTime,
+          });
+        }
+        this.breaker?.onSuccess();
+        if (attempt > 1) {
+          this.stats.recovered++;
+          this.logAttempt('info', 'Downstream request recovered after retry', { method, url, attempt, status: response.status });
+        } else {
+          this.logAttempt('debug', 'Downstream request succeeded', { method, url, attempt, status: response.status });
+        }
+        return response;
+      } catch (error) {
+        if (isCircuitFailure(error)) {
+          this.breaker?.onFailure();
+        } else {
+          this.breaker?.onSuccess();
+        }
+
+        const delayMs = isRetryable(error) && attempt < maxAttempts ? this.retryDelay(attempt, error) : undefined;
 
-      const response = await fetch(url, {
+        if (delayMs === undefined) {
+          if (error instanceof DownstreamError) {
+            error.attempts = attempt;
+          }
+          if (attempt > 1) {
+            this.stats.exhausted++;
+            this.logAttempt('error', 'Downstream request failed after retries', { method, url, attempt, error });
+          } else {
+            this.logAttempt('warn', 'Downstream request failed', { method, url, attempt, error });
+          }
+          throw error;
+        }
+
+        this.logAttempt('warn', 'Retrying downstream request', { method, url, attempt, delayMs, error });
+        await sleep(delayMs);
+      }
+    }
+  }
+
+  /**
+   * Delay before the next attempt: Retry-After when the service sent one,
+   * otherwise a random delay up to baseDelayMs * 2^(attempt - 1)
+   * Returns undefined when the requested delay exceeds maxDelayMs
+   */
+  private retryDelay(attempt: number, error: DownstreamError): number | undefined {
+    if (error.retryAfterMs !== undefined) {
+      return error.retryAfterMs <= this.retry.maxDelayMs ? error.retryAfterMs : undefined;
+    }
+    const ceiling = Math.min(this.retry.maxDelayMs, this.retry.baseDelayMs * 2 ** (attempt - 1));
+    return Math.round(Math.random() * ceiling);
+  }
+
+  /**
+   * One log entry per attempt - debug for a first-try success
+   */
+  private logAttempt(
+    level: LogLevel,
+    message: string,
+    fields: { method: string; url: string; attempt: number; status?: number; delayMs?: number; error?: unknown }
+  ) {
+    const { error, ...rest } = fields;
+    logger.forRequest()[level](message, {
+      downstream: this.serviceName,
+      ...rest,
+      ...(error instanceof DownstreamError && { status: error.status, error: error.name }),
+    });
+  }
+
+  /**
+   * Retry counters for this client - every attempt is counted
+   */
+  getRetryStats(): RetryStats {
+    return { ...this.stats };
+  }
+
+  /**
+   * Single fetch against the downstream service, in its own client span
+   * @throws DownstreamError subclass describing the failure
+   */
+  private attempt<T>(
+    method: string,
+    url: string,
+    data: any,
+    requestHeaders: Record<string, string>,
+    timeoutMs: number = this.timeout
+  ): Promise<ServiceResponse<T>> {
+    const target = URL.canParse(url) ? new URL(url) : undefined;
+    return tracer.trace(`${method} ${this.serviceName}`, {
+      kind: SpanKind.CLIENT,
+      attributes: {
+        'http.request.method': method,
+        'url.full': url,
+        'server.address': target?.hostname,
+        'server.port': target?.port ? Number(target.port) : undefined,
+        'peer.service': this.serviceName,
+      },
+    }, span => this.send<T>(method, url, data, requestHeaders, timeoutMs, span));
+  }
+
+  private async send<T>(
+    method: string,
+    url: string,
+    data: any,
+    requestHeaders: Record<string, string>,
+    timeoutMs: number,
+    span: Span
+  ): Promise<ServiceResponse<T>> {
+    const startTime = Date.now();
+    const details = (extra: Partial<DownstreamErrorDetails> = {}): DownstreamErrorDetails => ({
+      service: this.serviceName,
+      method,
+      url,
+      elapsedMs: Date.now() - startTime,
+      ...extra,
+    });
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+    const stopTimer = downstreamDuration.startTimer({ service: this.serviceName, method });
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
         method,
-        headers: requestHeaders,
-        body: data ? JSON.stringify(data) : undefined,
+        // Request ID and trace headers - the traceparent names this attempt's span
+        headers: { ...getPropagationHeaders(), ...requestHeaders },
+        // URLSearchParams for form posts such as the token exchange, JSON otherwise
+        body: data instanceof URLSearchParams ? data.toString() : data ? JSON.stringify(data) : undefined,
         signal: controller.signal,
       });
-
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') {
+        stopTimer({ status: 'timeout' });
+        throw new DownstreamTimeout(
+          `${this.serviceName}: ${method} ${url} timed out after ${timeoutMs}ms`,
+          details({ cause: error })
+        );
+      }
+      stopTimer({ status: 'network_error' });
+      const reason = error instanceof Error ? error.message : 'Unknown error occurred';
+      throw new DownstreamUnavailable(
+        `${this.serviceName}: ${method} ${url} failed: ${reason}`,
+        details({ cause: error })
+      );
+    } finally {
       clearTimeout(timeoutId);
+    }
+    stopTimer({ status: response.status });
+    span.setAttribute('http.response.status_code', response.status);
+
+    if (!response.ok) {
+      const message = `${this.serviceName}: ${method} ${url} returned HTTP ${response.status}: ${response.statusText}`;
+      const errorDetails = details({
+        status: response.status,
+        body: await readErrorBody(response),
+        retryAfterMs: parseRetryAfter(response.headers?.get('retry-after')),
+      });
 
-      if (!response.ok) {
-        return {
-          status: response.status,
-          error: `HTTP ${response.status}: ${response.statusText}`,
-        };
+      switch (response.status) {
+        case 404:
+          throw new DownstreamNotFound(message, errorDetails);
+        case 408:
+        case 504:
+          throw new DownstreamTimeout(message, errorDetails);
+        case 502:
+        case 503:
+          throw new DownstreamUnavailable(message, errorDetails);
+        default:
+          throw new DownstreamBadResponse(message, errorDetails);
       }
+    }
+
+    // 204 No Content has no body to parse - request() only passes it on to callers typed for null
+    if (response.status === 204) {
+      return { status: response.status, data: null as T };
+    }
 
-      const responseData = await response.json();
+    try {
       return {
         status: response.status,
-        data: responseData,
+        data: await response.json(),
       };
     } catch (error) {
-      if (error instanceof Error) {
-        if (error.name === 'AbortError') {
-          return {
-            status: 408,
-            error: 'Request timeout',
-          };
-        }
-        return {
-          status: 500,
-          error: error.message,
-        };
-      }
-      return {
-        status: 500,
-        error: 'Unknown error occurred',
-      };
+      throw new DownstreamBadResponse(
+        `${this.serviceName}: ${method} ${url} returned an invalid JSON body`,
+        details({ status: response.status, cause: error })
+      );
     }
   }
 
@@ -94,15 +422,24 @@ export class HttpClient {
     return this.request<T>('PUT', path, data, headers);
   }
 
-  async delete<T>(path: string, headers?: Record<string, string>): Promise<ServiceResponse<T>> {
-    return this.request<T>('DELETE', path, undefined, headers);
+  /**
+   * DELETE - the only call that may answer 204 No Content, with data null
+   */
+  async delete<T = null>(path: string, headers?: Record<string, string>): Promise<ServiceResponse<T | null>> {
+    return this.request<T | null>('DELETE', path, undefined, headers, true);
   }
 
-  // Health check method for service mesh monitoring
-  async healthCheck(): Promise<{ status: string; responseTime: number }> {
+  /**
+   * Probe GET /health with a single attempt
+   * Bypasses retries and the circuit breaker so the result reflects the
+   * downstream's current state
+   * @param timeoutMs - Probe timeout (defaults to the client timeout)
+   */
+  async healthCheck(timeoutMs?: number): Promise<HealthCheckResult> {
     const startTime = Date.now();
+    const url = `${this.baseUrl}/health`;
     try {
-      const response = await this.get('/health');
+      const response = await this.attempt('GET', url, undefined, this.defaultHeaders, timeoutMs);
       const responseTime = Date.now() - startTime;
       
       return {
@@ -110,11 +447,13 @@ export class HttpClient {
         responseTime,
       };
     } catch (error) {
+      // Any DownstreamError (non-2xx, timeout, network) means unhealthy
       const responseTime = Date.now() - startTime;
       return {
         status: 'unhealthy',
         responseTime,
+        error: error instanceof DownstreamError && error.status ? `HTTP ${error.status}` : error instanceof Error ? error.name : 'Unknown error',
       };
     }
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,208 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createServer, request } from 'http';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+
+const clusterMock = vi.hoisted(() => ({
+  workers: {} as Record<string, any>,
+  worker: undefined,
+  on: vi.fn(),
+}));
+
+vi.mock('cluster', () => ({ default: clusterMock }));
+
+/**
+ * Fresh module per test - the shutdown flag is process-wide
+ */
+const loadLifecycle = async () => {
+  vi.resetModules();
+  return import('./lifecycle.js');
+};
+
+const get = (server: Server) => new Promise<{ status: number; connection?: string }>((resolve, reject) => {
+  const { port } = server.address() as AddressInfo;
+  request({ port, path: '/' }, res => {
+    res.resume();
+    res.on('end', () => resolve({ status: res.statusCode!, connection: res.headers.connection }));
+  }).on('error', reject).end();
+});
+
+describe('Graceful Shutdown', () => {
+  let server: Server;
+  let respond: (() => void) | undefined;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const { drainConnections } = await loadLifecycle();
+    respond = undefined;
+
+    server = createServer((req, res) => {
+      drainConnections(req as any, res as any, () => {
+        const finish = () => res.end('ok');
+        // Requests to a slow path wait for the test to release them
+        respond ? finish() : (respond = finish);
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, resolve));
+  });
+
+  afterEach(() => {
+    server.closeAllConnections();
+    server.close();
+    vi.restoreAllMocks();
+  });
+
+  it('should fail readiness immediately and exit 0 once drained', async () => {
+    const lifecycle = await import('./lifecycle.js');
+    const exit = vi.fn();
+    const shutdown = lifecycle.createGracefulShutdown(server, { preStopDelayMs: 20, drainTimeoutMs: 1000 }, exit);
+
+    const done = shutdown('SIGTERM');
+
+    expect(lifecycle.isShuttingDown()).toBe(true);
+    expect(server.listening).toBe(true);
+    await done;
+    expect(server.listening).toBe(false);
+    expect(exit).toHaveBeenCalledWith(0);
+  });
+
+  it('should keep serving during the pre-stop delay with Connection: close', async () => {
+    const lifecycle = await import('./lifecycle.js');
+    const exit = vi.fn();
+    const shutdown = lifecycle.createGracefulShutdown(server, { preStopDelayMs: 100, drainTimeoutMs: 1000 }, exit);
+
+    const done = shutdown('SIGTERM');
+    const pending = get(server);
+    await vi.waitFor(() => expect(respond).toBeDefined());
+    respond!();
+
+    expect(await pending).toEqual({ status: 200, connection: 'close' });
+    await done;
+    expect(exit).toHaveBeenCalledWith(0);
+  });
+
+  it('should let in-flight requests finish before exiting', async () => {
+    const lifecycle = await import('./lifecycle.js');
+    const exit = vi.fn();
+    const shutdown = lifecycle.createGracefulShutdown(server, { preStopDelayMs: 0, drainTimeoutMs: 1000 }, exit);
+    const pending = get(server);
+    await vi.waitFor(() => expect(respond).toBeDefined());
+
+    const done = shutdown('SIGTERM');
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(exit).not.toHaveBeenCalled();
+
+    respond!();
+    expect((await pending).status).toBe(200);
+    await done;
+    expect(exit).toHaveBeenCalledWith(0);
+  });
+
+  it('should close remaining connections and exit 1 at the drain deadline', async () => {
+    const lifecycle = await import('./lifecycle.js');
+    const exit = vi.fn();
+    const shutdown = lifecycle.createGracefulShutdown(server, { preStopDelayMs: 0, drainTimeoutMs: 50 }, exit);
+    const pending = get(server).catch(error => error);
+    await vi.waitFor(() => expect(respond).toBeDefined());
+
+    await shutdown('SIGTERM');
+
+    expect(exit).toHaveBeenCalledWith(1);
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('"inFlight":1'));
+    expect(await pending).toBeInstanceOf(Error);
+  });
+
+  it('should ignore repeated signals', async () => {
+    const lifecycle = await import('./lifecycle.js');
+    const exit = vi.fn();
+    const shutdown = lifecycle.createGracefulShutdown(server, { preStopDelayMs: 0, drainTimeoutMs: 1000 }, exit);
+
+    await Promise.all([shutdown('SIGTERM'), shutdown('SIGINT')]);
+
+    expect(exit).toHaveBeenCalledOnce();
+  });
+});
+
+describe('Primary Shutdown', () => {
+  const fakeWorker = (pid: number) => {
+    const worker = { dead: false, process: { pid, kill: vi.fn() }, isDead: () => worker.dead };
+    return worker;
+  };
+
+  let onExit: () => void;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    clusterMock.on.mockImplementation((event: string, listener: () => void) => {
+      if (event === 'exit') onExit = listener;
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should signal every worker and exit once all have stopped', async () => {
+    const { createPrimaryShutdown } = await loadLifecycle();
+    const workers = [fakeWorker(1), fakeWorker(2)];
+    clusterMock.workers = { 1: workers[0], 2: workers[1] };
+    const exit = vi.fn();
+    const shutdown = createPrimaryShutdown({ preStopDelayMs: 100, drainTimeoutMs: 100 }, exit);
+
+    shutdown.stop('SIGTERM');
+
+    expect(shutdown.isStopping()).toBe(true);
+    expect(workers[0]!.process.kill).toHaveBeenCalledWith('SIGTERM');
+    expect(workers[1]!.process.kill).toHaveBeenCalledWith('SIGTERM');
+
+    workers[0]!.dead = true;
+    onExit();
+    expect(exit).not.toHaveBeenCalled();
+
+    workers[1]!.dead = true;
+    onExit();
+    expect(exit).toHaveBeenCalledWith(0);
+  });
+
+  it('should kill workers that miss the deadline and exit 1', async () => {
+    const { createPrimaryShutdown } = await loadLifecycle();
+    const worker = fakeWorker(1);
+    clusterMock.workers = { 1: worker };
+    const exit = vi.fn();
+
+    createPrimaryShutdown({ preStopDelayMs: 100, drainTimeoutMs: 100 }, exit).stop('SIGTERM');
+    vi.advanceTimersByTime(5200);
+
+    expect(worker.process.kill).toHaveBeenCalledWith('SIGKILL');
+    worker.dead = true;
+    onExit();
+    expect(exit).toHaveBeenCalledWith(1);
+  });
+
+  it('should exit with the requested code', async () => {
+    const { createPrimaryShutdown } = await loadLifecycle();
+    clusterMock.workers = {};
+    const exit = vi.fn();
+
+    createPrimaryShutdown({ preStopDelayMs: 0, drainTimeoutMs: 0 }, exit).stop('crash loop', 1);
+
+    expect(exit).toHaveBeenCalledWith(1);
+  });
+
+  it('should not exit on worker exits before shutdown', async () => {
+    const { createPrimaryShutdown } = await loadLifecycle();
+    const worker = fakeWorker(1);
+    clusterMock.workers = { 1: worker };
+    const exit = vi.fn();
+    createPrimaryShutdown({ preStopDelayMs: 0, drainTimeoutMs: 0 }, exit);
+
+    worker.dead = true;
+    onExit();
+
+    expect(exit).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,155 @@
+import cluster from 'cluster';
+import type { Server } from 'http';
+import { Request, Response, NextFunction } from 'express';
+import { logger } from './logger.js';
+
+export interface ShutdownOptions {
+  preStopDelayMs: number;   // Keep serving while load balancers stop routing to us
+  drainTimeoutMs: number;   // Deadline for in-flight requests once we stop listening
+}
+
+let shuttingDown = false;
+
+/**
+ * True once shutdown has started - readiness reports 503 from this point
+ */
+export function isShuttingDown(): boolean {
+  return shuttingDown;
+}
+
+/**
+ * Ask clients to reconnect elsewhere while draining
+ * Responses sent during shutdown close their keep-alive connection
+ */
+export const drainConnections = (req: Request, res: Response, next: NextFunction) => {
+  if (shuttingDown) {
+    res.setHeader('Connection', 'close');
+  }
+  next();
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Graceful shutdown for an HTTP server - create it right after listen so
+ * every request is tracked
+ * 1. Readiness flips to 503 immediately
+ * 2. After preStopDelayMs, stop listening and close keep-alive connections as they go idle
+ * 3. In-flight requests get until drainTimeoutMs, then remaining sockets are destroyed
+ * Repeated signals are ignored while a shutdown is in progress
+ * @returns Signal handler - resolves after calling exit
+ */
+export function createGracefulShutdown(
+  server: Server,
+  options: ShutdownOptions,
+  exit: (code: number) => void = process.exit
+): (signal: string) => Promise<void> {
+  let inFlight = 0;
+  let draining = false;
+  server.on('request', (req, res) => {
+    inFlight++;
+    res.on('close', () => {
+      inFlight--;
+      // Requests that started before shutdown leave an idle keep-alive socket behind
+      if (draining) {
+        server.closeIdleConnections();
+      }
+    });
+  });
+
+  let started = false;
+
+  return async (signal: string) => {
+    if (started) {
+      return;
+    }
+    started = true;
+    shuttingDown = true;
+    logger.info('Shutdown started, readiness now failing', { signal, preStopDelayMs: options.preStopDelayMs });
+
+    await sleep(options.preStopDelayMs);
+
+    draining = true;
+    const closed = new Promise<'drained'>(resolve => server.close(() => resolve('drained')));
+    server.closeIdleConnections();
+    logger.info('Stopped accepting connections, draining requests', { inFlight, drainTimeoutMs: options.drainTimeoutMs });
+
+    let deadline: NodeJS.Timeout | undefined;
+    const timedOut = new Promise<'timeout'>(resolve => {
+      deadline = setTimeout(() => resolve('timeout'), options.drainTimeoutMs);
+    });
+
+    const result = await Promise.race([closed, timedOut]);
+    clearTimeout(deadline);
+
+    if (result === 'timeout') {
+      logger.warn('Drain deadline reached, closing remaining connections', { inFlight });
+      server.closeAllConnections();
+      exit(1);
+      return;
+    }
+
+    logger.info('Server drained');
+    exit(0);
+  };
+}
+
+/**
+ * Coordinated shutdown for the cluster primary
+ * Stops respawning, forwards SIGTERM to every worker and exits once all have
+ * exited - workers still running at the deadline are killed
+ */
+export function createPrimaryShutdown(
+  options: ShutdownOptions,
+  exit: (code: number) => void = process.exit
+) {
+  let stopping = false;
+  let forced = false;
+  let exitCode = 0;
+
+  const remainingWorkers = () => Object.values(cluster.workers ?? {}).filter(worker => worker && !worker.isDead());
+
+  const exitWhenDone = () => {
+    if (stopping && remainingWorkers().length === 0) {
+      logger[forced ? 'warn' : 'info']('All workers stopped, primary exiting');
+      exit(forced ? 1 : exitCode);
+    }
+  };
+
+  cluster.on('exit', exitWhenDone);
+
+  return {
+    /**
+     * True once shutdown started - the primary must not respawn workers
+     */
+    isStopping: () => stopping,
+
+    /**
+     * @param code - Exit code once every worker has stopped (1 when any had to be killed)
+     */
+    stop(signal: string, code = 0) {
+      if (stopping) {
+        return;
+      }
+      stopping = true;
+      exitCode = code;
+
+      const workers = remainingWorkers();
+      logger.info('Primary shutting down, signalling workers', { signal, workers: workers.length });
+      for (const worker of workers) {
+        worker!.process.kill('SIGTERM');
+      }
+
+      // Workers need the pre-stop delay plus the drain deadline - allow a little more
+      setTimeout(() => {
+        forced = true;
+        for (const worker of remainingWorkers()) {
+          logger.warn('Worker did not stop in time, killing it', { workerPid: worker!.process.pid });
+          worker!.process.kill('SIGKILL');
+        }
+      }, options.preStopDelayMs + options.drainTimeoutMs + 5000).unref();
+
+      exitWhenDone();
+    },
+  };
+}
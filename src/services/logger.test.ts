@@ -0,0 +1,105 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Logger } from './logger.js';
+import type { LoggerOptions, LogLevel } from './logger.js';
+import { createTraceContext, runWithTraceContext } from './traceContext.js';
+import { Redactor } from './redaction.js';
+
+describe('Logger', () => {
+  let lines: { level: LogLevel; line: string }[];
+
+  const create = (options: Partial<LoggerOptions> = {}, fields = {}) =>
+    new Logger({ level: 'info', format: 'json', write: (level, line) => lines.push({ level, line }), ...options }, fields);
+
+  const entries = () => lines.map(({ line }) => JSON.parse(line));
+
+  beforeEach(() => {
+    lines = [];
+    vi.useFakeTimers({ now: new Date('2026-01-01T00:00:00.000Z') });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should write one JSON object per entry', () => {
+    create({}, { service: 'bff' }).info('Server ready', { port: 4000 });
+
+    expect(lines).toEqual([{
+      level: 'info',
+      line: '{"timestamp":"2026-01-01T00:00:00.000Z","level":"info","message":"Server ready","service":"bff","port":4000}',
+    }]);
+  });
+
+  it('should drop entries below the configured level', () => {
+    const logger = create({ level: 'warn' });
+
+    logger.debug('debug');
+    logger.info('info');
+    logger.warn('warn');
+    logger.error('error');
+
+    expect(entries().map(entry => entry.level)).toEqual(['warn', 'error']);
+    expect(logger.isLevelEnabled('info')).toBe(false);
+  });
+
+  it('should add child fields to every entry', () => {
+    const child = create({}, { service: 'bff' }).child({ downstream: 'account-service' });
+
+    child.info('Retrying', { attempt: 2 });
+
+    expect(entries()[0]).toMatchObject({ service: 'bff', downstream: 'account-service', attempt: 2 });
+  });
+
+  it('should carry the current request and trace IDs', () => {
+    const trace = createTraceContext(name => (name === 'x-request-id' ? 'req-1' : undefined));
+
+    runWithTraceContext(trace, () => create().forRequest().info('Incoming request'));
+
+    expect(entries()[0]).toMatchObject({ requestId: 'req-1', traceId: trace.traceId });
+  });
+
+  it('should return itself outside of a request', () => {
+    const logger = create();
+
+    expect(logger.forRequest()).toBe(logger);
+  });
+
+  it('should serialize errors and omit undefined fields', () => {
+    const error = new TypeError('boom');
+
+    create().error('Unhandled error', { error, worker: undefined });
+
+    const [entry] = entries();
+    expect(entry.error).toEqual({ name: 'TypeError', message: 'boom', stack: error.stack });
+    expect(entry).not.toHaveProperty('worker');
+  });
+
+  it('should redact PII from messages and fields', () => {
+    const redactor = new Redactor({ fields: ['email'], patterns: ['ACC-\\d+'] });
+
+    create({ redactor }).error('Lookup for ACC-001 failed', {
+      customer: { id: 'cust1', email: 'jane@example.com' },
+      error: new Error('No account ACC-001'),
+    });
+
+    const [entry] = entries();
+    expect(entry.message).toBe('Lookup for [REDACTED] failed');
+    expect(entry.customer).toEqual({ id: 'cust1', email: '[REDACTED]' });
+    expect(entry.error.message).toBe('No account [REDACTED]');
+  });
+
+  it('should write pretty lines for humans', () => {
+    create({ format: 'pretty' }, { requestId: 'req-1' }).warn('Circuit open', { downstream: 'account-service', failures: 3 });
+
+    expect(lines[0].line).toBe('2026-01-01T00:00:00.000Z WARN  Circuit open requestId=req-1 downstream=account-service failures=3');
+  });
+
+  it('should write to the console by default', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    new Logger({ level: 'info', format: 'json' }).warn('Rate limit store unavailable');
+
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('"message":"Rate limit store unavailable"'));
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,113 @@
+import cluster from 'cluster';
+import { config } from '../config/index.js';
+import { getTraceContext } from './traceContext.js';
+import type { TraceContext } from './traceContext.js';
+import { Redactor, redactor } from './redaction.js';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+export type LogFormat = 'json' | 'pretty';
+export type LogFields = Record<string, unknown>;
+
+export interface LoggerOptions {
+  level: LogLevel;
+  format: LogFormat;
+  write?: (level: LogLevel, line: string) => void;  // Output sink (default: console)
+  redactor?: Redactor;                               // Masks PII in messages and fields
+}
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+const writeToConsole = (level: LogLevel, line: string) => {
+  const write = level === 'error' ? console.error : level === 'warn' ? console.warn : console.log;
+  write(line);
+};
+
+const noRedaction = new Redactor({ fields: [], patterns: [] });
+
+/**
+ * Drop undefined fields and mask PII - errors serialize to their name,
+ * message and stack instead of {}
+ */
+function serialize(fields: LogFields, redaction: Redactor): LogFields {
+  const defined = Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined));
+  return redaction.redact(defined) as LogFields;
+}
+
+/**
+ * One line for humans - time, level, message, then key=value pairs
+ */
+function formatPretty(entry: LogFields & { timestamp: string; level: LogLevel; message: string }): string {
+  const { timestamp, level, message, ...fields } = entry;
+  const pairs = Object.entries(fields).map(([key, value]) =>
+    `${key}=${typeof value === 'string' ? value : JSON.stringify(value)}`
+  );
+  return [timestamp, level.toUpperCase().padEnd(5), message, ...pairs].join(' ');
+}
+
+/**
+ * Leveled logger writing one JSON object (or one pretty line) per entry
+ * Child loggers add fields to every entry they write
+ */
+export class Logger {
+  constructor(private options: LoggerOptions, private fields: LogFields = {}) {}
+
+  /**
+   * Logger that adds the given fields to every entry
+   */
+  child(fields: LogFields): Logger {
+    return new Logger(this.options, { ...this.fields, ...fields });
+  }
+
+  /**
+   * Child carrying the request and trace IDs - the current request's by default
+   * Returns this logger unchanged outside of a request
+   */
+  forRequest(trace: Pick<TraceContext, 'requestId' | 'traceId'> | undefined = getTraceContext()): Logger {
+    return trace ? this.child({ requestId: trace.requestId, traceId: trace.traceId }) : this;
+  }
+
+  isLevelEnabled(level: LogLevel): boolean {
+    return LEVELS[level] >= LEVELS[this.options.level];
+  }
+
+  debug(message: string, fields?: LogFields): void {
+    this.log('debug', message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.log('info', message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.log('warn', message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.log('error', message, fields);
+  }
+
+  private log(level: LogLevel, message: string, fields: LogFields = {}): void {
+    if (!this.isLevelEnabled(level)) {
+      return;
+    }
+
+    const redaction = this.options.redactor ?? noRedaction;
+    const entry = {
+      timestamp: new Date().toISOString(),
+      level,
+      message: redaction.redactText(message),
+      ...serialize({ ...this.fields, ...fields }, redaction),
+    };
+    const line = this.options.format === 'pretty' ? formatPretty(entry) : JSON.stringify(entry);
+    (this.options.write ?? writeToConsole)(level, line);
+  }
+}
+
+// Process-wide logger, configured from LOG_LEVEL / LOG_FORMAT and REDACT_*
+// Every entry names the service, its version and the process it came from
+export const logger = new Logger({ ...config.logging, redactor }, {
+  service: config.serviceMesh.serviceName,
+  version: config.serviceMesh.serviceVersion,
+  pid: process.pid,
+  worker: cluster.worker?.id,
+});
@@ -0,0 +1,233 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { EventEmitter } from 'events';
+
+const clusterMock = vi.hoisted(() => ({
+  workers: {} as Record<string, any>,
+  isWorker: false,
+  on: vi.fn(),
+}));
+
+vi.mock('cluster', () => ({ default: clusterMock }));
+
+import {
+  ClusterMetricsClient,
+  MetricsRegistry,
+  formatPrometheus,
+  hostMetrics,
+  mergeSnapshots,
+  registerProcessMetrics,
+} from './metrics.js';
+import type { MessageChannel } from './sharedStore.js';
+
+describe('Metrics', () => {
+  let registry: MetricsRegistry;
+
+  beforeEach(() => {
+    registry = new MetricsRegistry();
+  });
+
+  describe('Prometheus format', () => {
+    it('should format counters and gauges with escaped labels', () => {
+      const requests = registry.counter({ name: 'http_requests_total', help: 'HTTP requests', labelNames: ['route', 'status'] });
+      registry.gauge({ name: 'queue_depth', help: 'Queued\nitems', collect: gauge => gauge.set({}, 3) });
+
+      requests.inc({ route: '/graphql', status: 200 });
+      requests.inc({ route: '/graphql', status: 200 });
+      requests.inc({ route: 'say "hi"\\', status: 500 });
+
+      expect(formatPrometheus(registry.snapshot())).toBe([
+        '# HELP http_requests_total HTTP requests',
+        '# TYPE http_requests_total counter',
+        'http_requests_total{route="/graphql",status="200"} 2',
+        'http_requests_total{route="say \\"hi\\"\\\\",status="500"} 1',
+        '# HELP queue_depth Queued\\nitems',
+        '# TYPE queue_depth gauge',
+        'queue_depth 3',
+        '',
+      ].join('\n'));
+    });
+
+    it('should format histograms with cumulative buckets', () => {
+      const duration = registry.histogram({ name: 'duration_seconds', help: 'Duration', labelNames: ['service'], buckets: [0.1, 1] });
+
+      duration.observe({ service: 'account-service' }, 0.05);
+      duration.observe({ service: 'account-service' }, 0.5);
+      duration.observe({ service: 'account-service' }, 3);
+
+      expect(formatPrometheus(registry.snapshot())).toBe([
+        '# HELP duration_seconds Duration',
+        '# TYPE duration_seconds histogram',
+        'duration_seconds_bucket{service="account-service",le="0.1"} 1',
+        'duration_seconds_bucket{service="account-service",le="1"} 2',
+        'duration_seconds_bucket{service="account-service",le="+Inf"} 3',
+        'duration_seconds_sum{service="account-service"} 3.55',
+        'duration_seconds_count{service="account-service"} 3',
+        '',
+      ].join('\n'));
+    });
+
+    it('should time with labels known only at the end', () => {
+      const duration = registry.histogram({ name: 'duration_seconds', help: 'Duration', labelNames: ['method', 'status'] });
+
+      duration.startTimer({ method: 'GET' })({ status: 404 });
+
+      const [snapshot] = registry.snapshot();
+      expect(snapshot.series).toEqual([expect.objectContaining({ labels: { method: 'GET', status: '404' }, count: 1 })]);
+    });
+
+    it('should reject duplicate metric names', () => {
+      registry.counter({ name: 'requests_total', help: 'Requests' });
+
+      expect(() => registry.counter({ name: 'requests_total', help: 'Requests' })).toThrow('already registered');
+    });
+  });
+
+  describe('mergeSnapshots', () => {
+    const workerSnapshot = (requests: number, lag: number, latency: number) => {
+      const worker = new MetricsRegistry();
+      worker.counter({ name: 'requests_total', help: 'Requests', labelNames: ['status'] }).inc({ status: 200 }, requests);
+      worker.gauge({ name: 'lag_seconds', help: 'Lag', aggregation: 'max', collect: gauge => gauge.set({}, lag) });
+      worker.gauge({ name: 'heap_bytes', help: 'Heap', collect: gauge => gauge.set({}, 100) });
+      worker.histogram({ name: 'latency_seconds', help: 'Latency', buckets: [1] }).observe({}, latency);
+      return worker.snapshot();
+    };
+
+    it('should sum counters and histograms and aggregate gauges', () => {
+      const merged = mergeSnapshots([workerSnapshot(2, 0.01, 0.5), workerSnapshot(3, 0.2, 2)]);
+
+      expect(formatPrometheus(merged)).toContain('requests_total{status="200"} 5');
+      expect(formatPrometheus(merged)).toContain('lag_seconds 0.2');
+      expect(formatPrometheus(merged)).toContain('heap_bytes 200');
+      expect(formatPrometheus(merged)).toContain('latency_seconds_bucket{le="1"} 1\nlatency_seconds_bucket{le="+Inf"} 2');
+    });
+
+    it('should keep series only one worker has seen', () => {
+      const first = new MetricsRegistry();
+      first.counter({ name: 'requests_total', help: 'Requests', labelNames: ['status'] }).inc({ status: 200 });
+      const second = new MetricsRegistry();
+      second.counter({ name: 'requests_total', help: 'Requests', labelNames: ['status'] }).inc({ status: 500 });
+
+      const [merged] = mergeSnapshots([first.snapshot(), second.snapshot()]);
+
+      expect(merged.series).toHaveLength(2);
+    });
+  });
+
+  it('should report process metrics', () => {
+    registerProcessMetrics(registry);
+
+    const output = formatPrometheus(registry.snapshot());
+
+    expect(output).toContain('nodejs_eventloop_lag_seconds{quantile="0.99"}');
+    expect(output).toMatch(/nodejs_heap_used_bytes \d+/);
+    expect(output).toMatch(/nodejs_active_handles \d+/);
+  });
+
+  describe('Cluster aggregation', () => {
+    let onMessage: (worker: any, message: unknown) => void;
+    let onExit: (worker: any) => void;
+
+    // A worker whose IPC messages are delivered to the primary's handler
+    const connectWorker = (id: number, workerRegistry: MetricsRegistry) => {
+      const toWorker = new EventEmitter();
+      const worker = {
+        id,
+        isConnected: () => true,
+        send: (message: unknown) => {
+          setImmediate(() => toWorker.emit('message', message));
+          return true;
+        },
+      };
+      const channel: MessageChannel = {
+        send: message => {
+          setImmediate(() => onMessage(worker, message));
+          return true;
+        },
+        on: (event, listener) => toWorker.on(event, listener),
+      };
+      clusterMock.workers[id] = worker;
+      return new ClusterMetricsClient(workerRegistry, channel, 1000);
+    };
+
+    beforeEach(() => {
+      clusterMock.workers = {};
+      clusterMock.on.mockImplementation((event: string, listener: any) => {
+        if (event === 'message') onMessage = listener;
+        if (event === 'exit') onExit = listener;
+      });
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+      vi.restoreAllMocks();
+    });
+
+    it('should merge every worker\'s metrics into one scrape', async () => {
+      hostMetrics(1000);
+      const registries = [new MetricsRegistry(), new MetricsRegistry()];
+      const counters = registries.map(r => r.counter({ name: 'requests_total', help: 'Requests' }));
+      counters[0].inc({}, 2);
+      counters[1].inc({}, 3);
+      const [client] = registries.map((r, index) => connectWorker(index + 1, r));
+
+      const merged = await client.collect();
+
+      expect(formatPrometheus(merged)).toContain('requests_total 5');
+    });
+
+    it('should leave out workers that do not reply in time', async () => {
+      hostMetrics(20);
+      const registry = new MetricsRegistry();
+      registry.counter({ name: 'requests_total', help: 'Requests' }).inc({}, 4);
+      const client = connectWorker(1, registry);
+      clusterMock.workers[2] = { id: 2, isConnected: () => true, send: () => true };
+
+      const merged = await client.collect();
+
+      expect(formatPrometheus(merged)).toContain('requests_total 4');
+      expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('Metrics scrape missing workers'));
+    });
+
+    it('should never let cluster counters go down when workers are missing or restarted', async () => {
+      hostMetrics(20);
+      const registries = [new MetricsRegistry(), new MetricsRegistry()];
+      const counters = registries.map(r => r.counter({ name: 'requests_total', help: 'Requests' }));
+      registries.map(r => r.gauge({ name: 'nodejs_processes', help: 'Processes', collect: gauge => gauge.set({}, 1) }));
+      counters[0].inc({}, 4);
+      counters[1].inc({}, 3);
+      const [client] = registries.map((r, index) => connectWorker(index + 1, r));
+      expect(formatPrometheus(await client.collect())).toContain('requests_total 7');
+
+      // Worker 2 stops answering - its last snapshot stands in
+      clusterMock.workers[2].send = () => true;
+      counters[1].inc({}, 5);
+      const missing = formatPrometheus(await client.collect());
+      expect(missing).toContain('requests_total 7');
+      expect(missing).toContain('nodejs_processes 2');
+      expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('Metrics scrape missing workers'));
+
+      // Worker 2 exits and a fresh worker replaces it - its totals are kept, its gauges dropped
+      delete clusterMock.workers[2];
+      onExit({ id: 2 });
+      const replacement = new MetricsRegistry();
+      replacement.counter({ name: 'requests_total', help: 'Requests' }).inc({}, 1);
+      replacement.gauge({ name: 'nodejs_processes', help: 'Processes', collect: gauge => gauge.set({}, 1) });
+      connectWorker(3, replacement);
+
+      const restarted = formatPrometheus(await client.collect());
+      expect(restarted).toContain('requests_total 8');
+      expect(restarted).toContain('nodejs_processes 2');
+    });
+
+    it('should reject when the primary does not answer', async () => {
+      vi.useFakeTimers();
+      const client = new ClusterMetricsClient(new MetricsRegistry(), { send: () => true, on: () => undefined }, 100);
+
+      const scrape = client.collect().catch(error => error);
+      await vi.advanceTimersByTimeAsync(200);
+
+      expect((await scrape).message).toBe('Metrics aggregation timed out after 200ms');
+    });
+  });
+});
@@ -0,0 +1,446 @@
+import cluster from 'cluster';
+import { monitorEventLoopDelay } from 'perf_hooks';
+import { config } from '../config/index.js';
+import { logger } from './logger.js';
+import { workerChannel } from './sharedStore.js';
+import type { MessageChannel } from './sharedStore.js';
+
+export type Labels = Record<string, string | number>;
+
+/**
+ * How a gauge combines across cluster workers - counters and histograms always sum
+ */
+export type GaugeAggregation = 'sum' | 'max';
+
+interface ValueSeries {
+  labels: Record<string, string>;
+  value: number;
+}
+
+interface HistogramSeries {
+  labels: Record<string, string>;
+  counts: number[];     // Observations per bucket (not cumulative), last entry is +Inf
+  sum: number;
+  count: number;
+}
+
+/**
+ * JSON-serializable state of one metric - what workers send to the primary
+ */
+export type MetricSnapshot =
+  | { type: 'counter'; name: string; help: string; series: ValueSeries[] }
+  | { type: 'gauge'; name: string; help: string; aggregation: GaugeAggregation; series: ValueSeries[] }
+  | { type: 'histogram'; name: string; help: string; buckets: number[]; series: HistogramSeries[] };
+
+export interface MetricOptions {
+  name: string;
+  help: string;
+  labelNames?: string[];
+}
+
+export const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+/**
+ * Labels in declared order, missing ones empty - also the series key
+ */
+function normalize(labelNames: string[], labels: Labels): Record<string, string> {
+  return Object.fromEntries(labelNames.map(name => [name, String(labels[name] ?? '')]));
+}
+
+const seriesKey = (labels: Record<string, string>) => JSON.stringify(Object.values(labels));
+
+export class Counter {
+  private series = new Map<string, ValueSeries>();
+
+  constructor(private options: MetricOptions) {}
+
+  inc(labels: Labels = {}, by = 1): void {
+    const normalized = normalize(this.options.labelNames ?? [], labels);
+    const key = seriesKey(normalized);
+    const series = this.series.get(key) ?? { labels: normalized, value: 0 };
+    series.value += by;
+    this.series.set(key, series);
+  }
+
+  snapshot(): MetricSnapshot {
+    return { type: 'counter', name: this.options.name, help: this.options.help, series: [...this.series.values()].map(s => ({ ...s })) };
+  }
+}
+
+export class Gauge {
+  private series = new Map<string, ValueSeries>();
+
+  constructor(
+    private options: MetricOptions & {
+      aggregation?: GaugeAggregation;
+      collect?: (gauge: Gauge) => void;   // Refresh the value when scraped
+    }
+  ) {}
+
+  set(labels: Labels, value: number): void {
+    const normalized = normalize(this.options.labelNames ?? [], labels);
+    this.series.set(seriesKey(normalized), { labels: normalized, value });
+  }
+
+  snapshot(): MetricSnapshot {
+    this.options.collect?.(this);
+    return {
+      type: 'gauge',
+      name: this.options.name,
+      help: this.options.help,
+      aggregation: this.options.aggregation ?? 'sum',
+      series: [...this.series.values()].map(s => ({ ...s })),
+    };
+  }
+}
+
+export class Histogram {
+  private series = new Map<string, HistogramSeries>();
+  private buckets: number[];
+
+  constructor(private options: MetricOptions & { buckets?: number[] }) {
+    this.buckets = [...(options.buckets ?? DEFAULT_BUCKETS)].sort((a, b) => a - b);
+  }
+
+  observe(labels: Labels, value: number): void {
+    const normalized = normalize(this.options.labelNames ?? [], labels);
+    const key = seriesKey(normalized);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { labels: normalized, counts: new Array(this.buckets.length + 1).fill(0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+
+    const index = this.buckets.findIndex(bound => value <= bound);
+    series.counts[index === -1 ? this.buckets.length : index]++;
+    series.sum += value;
+    series.count++;
+  }
+
+  /**
+   * Start timing - call the returned function to observe the elapsed seconds
+   * @returns Stop function taking labels only known at the end (e.g. status)
+   */
+  startTimer(labels: Labels = {}): (endLabels?: Labels) => number {
+    const start = process.hrtime.bigint();
+    return (endLabels = {}) => {
+      const seconds = Number(process.hrtime.bigint() - start) / 1e9;
+      this.observe({ ...labels, ...endLabels }, seconds);
+      return seconds;
+    };
+  }
+
+  snapshot(): MetricSnapshot {
+    return {
+      type: 'histogram',
+      name: this.options.name,
+      help: this.options.help,
+      buckets: this.buckets,
+      series: [...this.series.values()].map(s => ({ ...s, counts: [...s.counts] })),
+    };
+  }
+}
+
+type Metric = Counter | Gauge | Histogram;
+
+/**
+ * Metrics of one process - each name may only be registered once
+ */
+export class MetricsRegistry {
+  private metrics = new Map<string, Metric>();
+
+  counter(options: MetricOptions): Counter {
+    return this.register(options.name, new Counter(options));
+  }
+
+  gauge(options: ConstructorParameters<typeof Gauge>[0]): Gauge {
+    return this.register(options.name, new Gauge(options));
+  }
+
+  histogram(options: ConstructorParameters<typeof Histogram>[0]): Histogram {
+    return this.register(options.name, new Histogram(options));
+  }
+
+  snapshot(): MetricSnapshot[] {
+    return [...this.metrics.values()].map(metric => metric.snapshot());
+  }
+
+  private register<T extends Metric>(name: string, metric: T): T {
+    if (this.metrics.has(name)) {
+      throw new Error(`Metric ${name} is already registered`);
+    }
+    this.metrics.set(name, metric);
+    return metric;
+  }
+}
+
+/**
+ * Combine snapshots from several processes into one
+ * Counters and histograms sum per series; gauges use their aggregation
+ */
+export function mergeSnapshots(snapshots: MetricSnapshot[][]): MetricSnapshot[] {
+  const merged = new Map<string, MetricSnapshot>();
+
+  for (const metric of snapshots.flat()) {
+    const existing = merged.get(metric.name);
+    if (!existing) {
+      merged.set(metric.name, structuredClone(metric));
+      continue;
+    }
+
+    const byKey = new Map<string, ValueSeries | HistogramSeries>(
+      existing.series.map(series => [seriesKey(series.labels), series])
+    );
+    for (const series of metric.series) {
+      const target = byKey.get(seriesKey(series.labels));
+      if (!target) {
+        (existing.series as Array<typeof series>).push(structuredClone(series));
+      } else if ('counts' in target && 'counts' in series) {
+        target.counts = target.counts.map((count, index) => count + (series.counts[index] ?? 0));
+        target.sum += series.sum;
+        target.count += series.count;
+      } else if ('value' in target && 'value' in series) {
+        target.value = existing.type === 'gauge' && existing.aggregation === 'max'
+          ? Math.max(target.value, series.value)
+          : target.value + series.value;
+      }
+    }
+  }
+
+  return [...merged.values()];
+}
+
+const escapeHelp = (text: string) => text.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+const escapeLabel = (value: string) => value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+
+const formatNumber = (value: number) =>
+  value === Infinity ? '+Inf' : value === -Infinity ? '-Inf' : Number.isNaN(value) ? 'NaN' : String(value);
+
+function formatLabels(labels: Record<string, string>): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabel(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+/**
+ * Prometheus text exposition format (version 0.0.4)
+ */
+export function formatPrometheus(snapshot: MetricSnapshot[]): string {
+  const lines: string[] = [];
+
+  for (const metric of snapshot) {
+    lines.push(`# HELP ${metric.name} ${escapeHelp(metric.help)}`, `# TYPE ${metric.name} ${metric.type}`);
+
+    if (metric.type !== 'histogram') {
+      for (const series of metric.series) {
+        lines.push(`${metric.name}${formatLabels(series.labels)} ${formatNumber(series.value)}`);
+      }
+      continue;
+    }
+
+    for (const series of metric.series) {
+      let cumulative = 0;
+      [...metric.buckets, Infinity].forEach((bound, index) => {
+        cumulative += series.counts[index] ?? 0;
+        lines.push(`${metric.name}_bucket${formatLabels({ ...series.labels, le: formatNumber(bound) })} ${cumulative}`);
+      });
+      lines.push(`${metric.name}_sum${formatLabels(series.labels)} ${formatNumber(series.sum)}`);
+      lines.push(`${metric.name}_count${formatLabels(series.labels)} ${series.count}`);
+    }
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Node.js runtime gauges, refreshed on every scrape
+ * Event loop lag is measured between scrapes and reported as the worst worker
+ */
+export function registerProcessMetrics(registry: MetricsRegistry): void {
+  const eventLoopDelay = monitorEventLoopDelay({ resolution: 20 });
+  eventLoopDelay.enable();
+
+  const lagSeconds = (nanoseconds: number) => (Number.isFinite(nanoseconds) ? nanoseconds / 1e9 : 0);
+
+  registry.gauge({
+    name: 'nodejs_eventloop_lag_seconds',
+    help: 'Event loop delay since the previous scrape, by quantile',
+    labelNames: ['quantile'],
+    aggregation: 'max',
+    collect: gauge => {
+      gauge.set({ quantile: '0.5' }, lagSeconds(eventLoopDelay.percentile(50)));
+      gauge.set({ quantile: '0.99' }, lagSeconds(eventLoopDelay.percentile(99)));
+      gauge.set({ quantile: '1' }, lagSeconds(eventLoopDelay.max));
+      eventLoopDelay.reset();
+    },
+  });
+  registry.gauge({
+    name: 'nodejs_heap_used_bytes',
+    help: 'V8 heap in use',
+    collect: gauge => gauge.set({}, process.memoryUsage().heapUsed),
+  });
+  registry.gauge({
+    name: 'nodejs_heap_total_bytes',
+    help: 'V8 heap allocated',
+    collect: gauge => gauge.set({}, process.memoryUsage().heapTotal),
+  });
+  registry.gauge({
+    name: 'process_resident_memory_bytes',
+    help: 'Resident set size',
+    collect: gauge => gauge.set({}, process.memoryUsage.rss()),
+  });
+  registry.gauge({
+    name: 'nodejs_active_handles',
+    help: 'Active libuv handles and requests keeping the event loop alive',
+    collect: gauge => gauge.set({}, process.getActiveResourcesInfo().length),
+  });
+  registry.gauge({
+    name: 'nodejs_processes',
+    help: 'Processes contributing to these metrics (cluster workers)',
+    collect: gauge => gauge.set({}, 1),
+  });
+}
+
+// IPC protocol for cluster-wide scrapes - any worker may receive the scrape,
+// the primary collects every worker's snapshot and merges them
+const CHANNEL = 'metrics';
+
+type MetricsMessage =
+  | { channel: typeof CHANNEL; type: 'aggregate'; id: number }                                  // worker -> primary
+  | { channel: typeof CHANNEL; type: 'collect'; id: number }                                    // primary -> workers
+  | { channel: typeof CHANNEL; type: 'snapshot'; id: number; metrics: MetricSnapshot[] }        // workers -> primary
+  | { channel: typeof CHANNEL; type: 'aggregated'; id: number; metrics: MetricSnapshot[] };     // primary -> worker
+
+const isMetricsMessage = (message: unknown): message is MetricsMessage =>
+  typeof message === 'object' && message !== null && (message as { channel?: unknown }).channel === CHANNEL;
+
+/**
+ * Answer metric scrapes in the cluster primary - call once, next to hostSharedStore
+ * Cluster counters and histograms must never go down, or Prometheus sees a reset:
+ * a worker that does not reply within timeoutMs is counted with its last snapshot,
+ * and an exited worker's final totals stay in a retained base (its gauges go with it)
+ */
+export function hostMetrics(timeoutMs: number = config.metrics.collectTimeoutMs): void {
+  let nextId = 1;
+  const collections = new Map<number, { waiting: Set<number>; done: () => void }>();
+  // Last snapshot from each live worker, by worker ID
+  const latest = new Map<number, MetricSnapshot[]>();
+  // Counters and histograms of workers that have exited
+  let retained: MetricSnapshot[] = [];
+
+  const collect = () => new Promise<MetricSnapshot[]>(resolve => {
+    const id = nextId++;
+    const workers = Object.values(cluster.workers ?? {}).filter(worker => worker?.isConnected());
+    const waiting = new Set(workers.map(worker => worker!.id));
+
+    const done = () => {
+      clearTimeout(timer);
+      collections.delete(id);
+      if (waiting.size > 0) {
+        logger.warn('Metrics scrape missing workers - using their last snapshot', { workers: [...waiting] });
+      }
+      resolve(mergeSnapshots([retained, ...latest.values()]));
+    };
+    const timer = setTimeout(done, timeoutMs);
+    collections.set(id, { waiting, done });
+
+    for (const worker of workers) {
+      worker!.send({ channel: CHANNEL, type: 'collect', id });
+    }
+    if (waiting.size === 0) {
+      done();
+    }
+  });
+
+  cluster.on('message', (worker, message) => {
+    if (!isMetricsMessage(message)) {
+      return;
+    }
+
+    if (message.type === 'aggregate') {
+      void collect().then(metrics => {
+        if (worker.isConnected()) {
+          worker.send({ channel: CHANNEL, type: 'aggregated', id: message.id, metrics });
+        }
+      });
+    } else if (message.type === 'snapshot') {
+      latest.set(worker.id, message.metrics);
+      const collection = collections.get(message.id);
+      if (collection?.waiting.delete(worker.id) && collection.waiting.size === 0) {
+        collection.done();
+      }
+    }
+  });
+
+  cluster.on('exit', worker => {
+    const last = latest.get(worker.id);
+    latest.delete(worker.id);
+    if (last) {
+      retained = mergeSnapshots([retained, last.filter(metric => metric.type !== 'gauge')]);
+    }
+  });
+}
+
+/**
+ * Cluster-wide metrics as seen from a worker - sends this worker's snapshot on
+ * request and asks the primary for the merged view when scraped
+ */
+export class ClusterMetricsClient {
+  private nextId = 1;
+  private pending = new Map<number, { resolve: (metrics: MetricSnapshot[]) => void; reject: (error: Error) => void; timer: NodeJS.Timeout }>();
+
+  constructor(private registry: MetricsRegistry, private channel: MessageChannel, private timeoutMs: number) {
+    channel.on('message', message => this.onMessage(message));
+  }
+
+  collect(): Promise<MetricSnapshot[]> {
+    const id = this.nextId++;
+
+    return new Promise((resolve, reject) => {
+      // The primary waits up to timeoutMs for workers - allow for the round trip
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new Error(`Metrics aggregation timed out after ${2 * this.timeoutMs}ms`));
+      }, 2 * this.timeoutMs);
+      this.pending.set(id, { resolve, reject, timer });
+
+      if (!this.channel.send({ channel: CHANNEL, type: 'aggregate', id })) {
+        clearTimeout(timer);
+        this.pending.delete(id);
+        reject(new Error('Metrics primary is not reachable'));
+      }
+    });
+  }
+
+  private onMessage(message: unknown): void {
+    if (!isMetricsMessage(message)) {
+      return;
+    }
+
+    if (message.type === 'collect') {
+      this.channel.send({ channel: CHANNEL, type: 'snapshot', id: message.id, metrics: this.registry.snapshot() });
+    } else if (message.type === 'aggregated') {
+      const call = this.pending.get(message.id);
+      if (call) {
+        this.pending.delete(message.id);
+        clearTimeout(call.timer);
+        call.resolve(message.metrics);
+      }
+    }
+  }
+}
+
+// Metrics of this process - every module registers its metrics here
+export const metrics = new MetricsRegistry();
+
+const channel = workerChannel();
+const clusterClient = channel
+  ? new ClusterMetricsClient(metrics, channel, config.metrics.collectTimeoutMs)
+  : undefined;
+
+/**
+ * Metrics for a scrape - merged across every worker in a cluster, this
+ * process's own otherwise
+ */
+export function collectMetrics(): Promise<MetricSnapshot[]> {
+  return clusterClient ? clusterClient.collect() : Promise.resolve(metrics.snapshot());
+}
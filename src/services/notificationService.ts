@@ -1,5 +1,6 @@
 import { HttpClient } from './httpClient.js';
-import { appConfig } from '../config/index.js';
+import { credentialProvider } from './credentials.js';
+import { config } from '../config/index.js';
 
 type NotificationType = 'INFO' | 'WARNING' | 'SUCCESS' | 'ERROR';
 
@@ -29,7 +30,10 @@ class NotificationService {
   private client: HttpClient;
 
   constructor() {
-    this.client = new HttpClient(appConfig.services.notificationService);
+    this.client = new HttpClient(config.services.notificationService, {
+      serviceName: 'notification-service',
+      credentials: credentialProvider(config.downstreamCredentials.notificationService),
+    });
   }
 
   async getUserNotifications(userId: string, options: GetNotificationsOptions): Promise<Notification[]> {
@@ -42,55 +46,35 @@ class NotificationService {
     
     const response = await this.client.get<Notification[]>(`/notifications?${queryParams}`);
     
-    if (response.error || !response.data) {
-      throw new Error(response.error || 'Failed to fetch notifications');
-    }
-    
     return response.data;
   }
 
   async getUnreadCount(userId: string): Promise<number> {
     const response = await this.client.get<{ count: number }>(`/notifications/unread-count?userId=${userId}`);
     
-    if (response.error || !response.data) {
-      throw new Error(response.error || 'Failed to fetch unread notification count');
-    }
-    
     return response.data.count;
   }
 
   async createNotification(input: NotificationInput): Promise<Notification> {
     const response = await this.client.post<Notification>('/notifications', input);
     
-    if (response.error || !response.data) {
-      throw new Error(response.error || 'Failed to create notification');
-    }
-    
     return response.data;
   }
 
   async markAsRead(id: string): Promise<Notification> {
     const response = await this.client.put<Notification>(`/notifications/${id}/read`);
     
-    if (response.error || !response.data) {
-      throw new Error(response.error || 'Failed to mark notification as read');
-    }
-    
     return response.data;
   }
 
   async deleteNotification(id: string): Promise<boolean> {
     const response = await this.client.delete(`/notifications/${id}`);
     
-    if (response.error) {
-      throw new Error(response.error);
-    }
-    
     return response.status === 204;
   }
 
-  async healthCheck() {
-    return this.client.healthCheck();
+  async healthCheck(timeoutMs?: number) {
+    return this.client.healthCheck(timeoutMs);
   }
 }
 
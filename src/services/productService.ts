@@ -1,5 +1,6 @@
 import { HttpClient } from './httpClient.js';
-import { appConfig } from '../config/index.js';
+import { credentialProvider } from './credentials.js';
+import { config } from '../config/index.js';
 
 export interface Product {
   id: string;
@@ -31,16 +32,15 @@ class ProductService {
   private client: HttpClient;
 
   constructor() {
-    this.client = new HttpClient(appConfig.services.productService);
+    this.client = new HttpClient(config.services.productService, {
+      serviceName: 'product-service',
+      credentials: credentialProvider(config.downstreamCredentials.productService),
+    });
   }
 
   async getProductById(id: string): Promise<Product> {
     const response = await this.client.get<Product>(`/products/${id}`);
     
-    if (response.error || !response.data) {
-      throw new Error(response.error || 'Failed to fetch product');
-    }
-    
     return response.data;
   }
 
@@ -57,45 +57,29 @@ class ProductService {
     
     const response = await this.client.get<Product[]>(`/products?${queryParams}`);
     
-    if (response.error || !response.data) {
-      throw new Error(response.error || 'Failed to fetch products');
-    }
-    
     return response.data;
   }
 
   async createProduct(input: ProductInput): Promise<Product> {
     const response = await this.client.post<Product>('/products', input);
     
-    if (response.error || !response.data) {
-      throw new Error(response.error || 'Failed to create product');
-    }
-    
     return response.data;
   }
 
   async updateProduct(id: string, input: Partial<ProductInput>): Promise<Product> {
     const response = await this.client.put<Product>(`/products/${id}`, input);
     
-    if (response.error || !response.data) {
-      throw new Error(response.error || 'Failed to update product');
-    }
-    
     return response.data;
   }
 
   async deleteProduct(id: string): Promise<boolean> {
     const response = await this.client.delete(`/products/${id}`);
     
-    if (response.error) {
-      throw new Error(response.error);
-    }
-    
     return response.status === 204;
   }
 
-  async healthCheck() {
-    return this.client.healthCheck();
+  async healthCheck(timeoutMs?: number) {
+    return this.client.healthCheck(timeoutMs);
   }
 }
 
@@ -0,0 +1,101 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ReadinessChecker } from './readiness.js';
+import type { Dependency } from './readiness.js';
+import type { HealthCheckResult } from './httpClient.js';
+
+const healthy: HealthCheckResult = { status: 'healthy', responseTime: 5 };
+const unhealthy: HealthCheckResult = { status: 'unhealthy', responseTime: 5, error: 'HTTP 503' };
+
+const dependency = (name: string, critical: boolean, result: HealthCheckResult = healthy): Dependency => ({
+  name,
+  critical,
+  check: vi.fn().mockResolvedValue(result),
+});
+
+describe('ReadinessChecker', () => {
+  const options = { cacheTtlMs: 5000, timeoutMs: 2000 };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should be ready when every dependency is healthy', async () => {
+    const checker = new ReadinessChecker([dependency('account-service', true), dependency('user-service', false)], options);
+
+    const report = await checker.check();
+
+    expect(report.ready).toBe(true);
+    expect(report.dependencies).toEqual([
+      { name: 'account-service', critical: true, status: 'healthy', responseTime: 5 },
+      { name: 'user-service', critical: false, status: 'healthy', responseTime: 5 },
+    ]);
+  });
+
+  it('should not be ready when a critical dependency is down', async () => {
+    const checker = new ReadinessChecker([dependency('account-service', true, unhealthy)], options);
+
+    const report = await checker.check();
+
+    expect(report.ready).toBe(false);
+    expect(report.dependencies[0]).toMatchObject({ name: 'account-service', status: 'unhealthy', error: 'HTTP 503' });
+  });
+
+  it('should stay ready when only an optional dependency is down', async () => {
+    const checker = new ReadinessChecker(
+      [dependency('account-service', true), dependency('notification-service', false, unhealthy)],
+      options
+    );
+
+    const report = await checker.check();
+
+    expect(report.ready).toBe(true);
+    expect(report.dependencies[1]).toMatchObject({ status: 'unhealthy', critical: false });
+  });
+
+  it('should treat a throwing check as unhealthy', async () => {
+    const failing: Dependency = { name: 'customer-service', critical: true, check: vi.fn().mockRejectedValue(new TypeError('boom')) };
+    const checker = new ReadinessChecker([failing], options);
+
+    const report = await checker.check();
+
+    expect(report.ready).toBe(false);
+    expect(report.dependencies[0]).toMatchObject({ status: 'unhealthy', error: 'TypeError' });
+  });
+
+  it('should pass the probe timeout to each check', async () => {
+    const account = dependency('account-service', true);
+    const checker = new ReadinessChecker([account], options);
+
+    await checker.check();
+
+    expect(account.check).toHaveBeenCalledWith(2000);
+  });
+
+  it('should cache results for the TTL', async () => {
+    const account = dependency('account-service', true);
+    const checker = new ReadinessChecker([account], options);
+
+    await checker.check();
+    vi.advanceTimersByTime(4999);
+    await checker.check();
+    expect(account.check).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(1);
+    await checker.check();
+    expect(account.check).toHaveBeenCalledTimes(2);
+  });
+
+  it('should share one in-flight probe between concurrent checks', async () => {
+    const account = dependency('account-service', true);
+    const checker = new ReadinessChecker([account], options);
+
+    const [first, second] = await Promise.all([checker.check(), checker.check()]);
+
+    expect(first).toBe(second);
+    expect(account.check).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,105 @@
+import { config } from '../config/index.js';
+import type { HealthCheckResult } from './httpClient.js';
+import { accountService } from './accountService.js';
+import { customerService } from './customerService.js';
+import { userService } from './userService.js';
+import { productService } from './productService.js';
+import { notificationService } from './notificationService.js';
+
+/**
+ * A downstream the BFF depends on
+ * Critical dependencies fail readiness when down; optional ones are only reported
+ */
+export interface Dependency {
+  name: string;
+  critical: boolean;
+  check: (timeoutMs: number) => Promise<HealthCheckResult>;
+}
+
+export interface DependencyStatus extends HealthCheckResult {
+  name: string;
+  critical: boolean;
+}
+
+export interface ReadinessReport {
+  ready: boolean;             // False when any critical dependency is unhealthy
+  checkedAt: string;          // When the downstream probes ran (may be cached)
+  dependencies: DependencyStatus[];
+}
+
+export interface ReadinessOptions {
+  cacheTtlMs: number;         // Reuse a report for this long
+  timeoutMs: number;          // Per-dependency probe timeout
+}
+
+/**
+ * Probes downstream /health endpoints for the readiness endpoint
+ * Results are cached for a short TTL and concurrent probes share one
+ * in-flight check, so Kubernetes probes never multiply downstream traffic
+ */
+export class ReadinessChecker {
+  private cached?: { report: ReadinessReport; expiresAt: number };
+  private inFlight?: Promise<ReadinessReport>;
+
+  constructor(
+    private dependencies: Dependency[],
+    private options: ReadinessOptions
+  ) {}
+
+  async check(): Promise<ReadinessReport> {
+    if (this.cached && Date.now() < this.cached.expiresAt) {
+      return this.cached.report;
+    }
+
+    if (!this.inFlight) {
+      this.inFlight = this.probe().finally(() => {
+        this.inFlight = undefined;
+      });
+    }
+    return this.inFlight;
+  }
+
+  private async probe(): Promise<ReadinessReport> {
+    const dependencies = await Promise.all(this.dependencies.map(async (dependency): Promise<DependencyStatus> => {
+      const result = await dependency.check(this.options.timeoutMs).catch((error): HealthCheckResult => ({
+        status: 'unhealthy',
+        responseTime: 0,
+        error: error instanceof Error ? error.name : 'Unknown error',
+      }));
+      return { name: dependency.name, critical: dependency.critical, ...result };
+    }));
+
+    const report: ReadinessReport = {
+      ready: dependencies.every(dependency => !dependency.critical || dependency.status === 'healthy'),
+      checkedAt: new Date().toISOString(),
+      dependencies,
+    };
+
+    this.cached = { report, expiresAt: Date.now() + this.options.cacheTtlMs };
+    return report;
+  }
+}
+
+const services = {
+  'account-service': accountService,
+  'customer-service': customerService,
+  'user-service': userService,
+  'product-service': productService,
+  'notification-service': notificationService,
+};
+
+/**
+ * Readiness checker for every configured downstream
+ * Services listed in READINESS_OPTIONAL_SERVICES are optional, the rest critical
+ */
+export const readinessChecker = new ReadinessChecker(
+  Object.entries(services).map(([name, service]) => ({
+    name,
+    critical: !config.healthCheck.optionalServices.includes(name),
+    check: (timeoutMs: number) => service.healthCheck(timeoutMs),
+  })),
+  {
+    cacheTtlMs: config.healthCheck.cacheTtlMs,
+    timeoutMs: config.healthCheck.timeoutMs,
+  }
+);
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import { randomUUID } from 'crypto';
+import { Redactor, REDACTED } from './redaction.js';
+import { loadConfig } from '../config/index.js';
+
+describe('Redactor', () => {
+  const redactor = new Redactor({
+    fields: ['email', 'accountNumber', 'customer.name'],
+    patterns: ['[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\\.[A-Za-z]{2,}', '\\bACC-\\d+\\b'],
+  });
+
+  it('should mask configured fields at any depth', () => {
+    expect(redactor.redact({
+      id: 'acc123',
+      accountNumber: 'ACC-001',
+      balance: 100,
+      owner: { email: 'jane@example.com', id: 'cust1' },
+    })).toEqual({
+      id: 'acc123',
+      accountNumber: REDACTED,
+      balance: 100,
+      owner: { email: REDACTED, id: 'cust1' },
+    });
+  });
+
+  it('should match field names case-insensitively', () => {
+    expect(redactor.redact({ EMAIL: 'x', AccountNumber: 1 })).toEqual({ EMAIL: REDACTED, AccountNumber: REDACTED });
+  });
+
+  it('should only mask a dotted path under the named parent', () => {
+    expect(redactor.redact({
+      name: 'bff',
+      customer: { name: 'Jane Doe' },
+      customers: [{ name: 'John Doe' }],
+      data: { customer: { name: 'Jane Doe' } },
+    })).toEqual({
+      name: 'bff',
+      customer: { name: REDACTED },
+      customers: [{ name: 'John Doe' }],
+      data: { customer: { name: REDACTED } },
+    });
+  });
+
+  it('should mask whole values, including objects', () => {
+    expect(redactor.redact({ email: { primary: 'a', secondary: 'b' } })).toEqual({ email: REDACTED });
+  });
+
+  it('should mask patterns inside any string', () => {
+    expect(redactor.redactText('Customer jane@example.com owns ACC-001 and ACC-002'))
+      .toBe(`Customer ${REDACTED} owns ${REDACTED} and ${REDACTED}`);
+    expect(redactor.redact(['jane@example.com', 42, null])).toEqual([REDACTED, 42, null]);
+  });
+
+  it('should leave verbatim fields out of pattern masking', () => {
+    const ids = new Redactor({ fields: ['email'], patterns: ['\\d{8,}'], verbatim: ['requestId', 'extensions.traceId'] });
+
+    expect(ids.redact({
+      requestId: '47572186-e59e-4c1a-9d3e-0f2b7c1a9e11',
+      extensions: { traceId: '12345678', note: '12345678' },
+      traceId: '12345678',
+    })).toEqual({
+      requestId: '47572186-e59e-4c1a-9d3e-0f2b7c1a9e11',
+      extensions: { traceId: '12345678', note: REDACTED },
+      traceId: REDACTED,
+    });
+  });
+
+  it('should keep UUIDs, timestamps and operation names intact with the default settings', () => {
+    const { fields, emailPattern, accountNumberPattern } = loadConfig({}).redaction;
+    const defaults = new Redactor({ fields, patterns: [emailPattern, accountNumberPattern] });
+    const uuids = Array.from({ length: 200 }, () => randomUUID()).join(' ');
+
+    expect(defaults.redactText(uuids)).toBe(uuids);
+    expect(defaults.redactText('Retry at 1760799901771')).toBe('Retry at 1760799901771');
+    expect(defaults.redactText('Accounts ACC-001 and ACC-cust456-2')).toBe(`Accounts ${REDACTED} and ${REDACTED}`);
+    expect(defaults.redact({ operation: { name: 'GetAccounts' }, customer: { name: 'Jane Doe' } }))
+      .toEqual({ operation: { name: 'GetAccounts' }, customer: { name: REDACTED } });
+  });
+
+  it('should serialize errors with masked messages and stacks', () => {
+    const error = new Error('No customer jane@example.com');
+
+    const redacted = redactor.redact(error) as Record<string, string>;
+
+    expect(redacted.name).toBe('Error');
+    expect(redacted.message).toBe(`No customer ${REDACTED}`);
+    expect(redacted.stack).not.toContain('jane@example.com');
+  });
+
+  it('should leave non-plain objects and circular references alone', () => {
+    const date = new Date(0);
+    const circular: Record<string, unknown> = { id: 1 };
+    circular.self = circular;
+
+    expect(redactor.redact({ date })).toEqual({ date });
+    expect(redactor.redact(circular)).toEqual({ id: 1, self: '[Circular]' });
+  });
+
+  it('should not modify the input', () => {
+    const body = { email: 'jane@example.com' };
+
+    redactor.redact(body);
+
+    expect(body.email).toBe('jane@example.com');
+  });
+
+  it('should mask nothing without fields or patterns', () => {
+    const none = new Redactor({ fields: [], patterns: [] });
+
+    expect(none.redact({ email: 'jane@example.com' })).toEqual({ email: 'jane@example.com' });
+  });
+});
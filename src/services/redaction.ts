@@ -0,0 +1,111 @@
+import { config } from '../config/index.js';
+
+export const REDACTED = '[REDACTED]';
+
+export interface RedactionOptions {
+  fields: string[];     // Field paths - each matches the end of a key path, case-insensitive
+  patterns: string[];   // Regex sources masked wherever they appear in text
+  verbatim?: string[];  // Field paths whose text is never pattern-masked
+}
+
+// Correlation IDs must survive intact - a UUID or trace ID can look like an account number
+const IDENTIFIER_FIELDS = ['requestId', 'traceId', 'spanId', 'parentSpanId'];
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+};
+
+/**
+ * Masks PII in structured values and free text
+ * A field path `email` masks every `email` key; `customer.name` only a `name`
+ * directly under a `customer` key. Array indices are not part of key paths.
+ */
+export class Redactor {
+  private paths: string[][];
+  private verbatimPaths: string[][];
+  private pattern?: RegExp;
+
+  constructor(options: RedactionOptions) {
+    const toPath = (field: string) => field.toLowerCase().split('.');
+    this.paths = options.fields.map(toPath);
+    this.verbatimPaths = (options.verbatim ?? []).map(toPath);
+    this.pattern = options.patterns.length > 0
+      ? new RegExp(options.patterns.map(source => `(?:${source})`).join('|'), 'g')
+      : undefined;
+  }
+
+  /**
+   * Mask pattern matches (emails, account numbers) inside a string
+   */
+  redactText(text: string): string {
+    return this.pattern ? text.replace(this.pattern, REDACTED) : text;
+  }
+
+  /**
+   * Copy of a JSON-like value with configured fields and text patterns masked
+   * @param path - Key path of the value within its parent, for nested calls
+   */
+  redact(value: unknown, path: string[] = [], seen = new WeakSet<object>()): unknown {
+    if (typeof value === 'string') {
+      return this.redactText(value);
+    }
+    if (typeof value !== 'object' || value === null) {
+      return value;
+    }
+    if (seen.has(value)) {
+      return '[Circular]';
+    }
+
+    if (Array.isArray(value)) {
+      seen.add(value);
+      return value.map(item => this.redact(item, path, seen));
+    }
+    if (value instanceof Error) {
+      return {
+        name: value.name,
+        message: this.redactText(value.message),
+        ...(value.stack && { stack: this.redactText(value.stack) }),
+      };
+    }
+    if (!isPlainObject(value)) {
+      return value;
+    }
+
+    seen.add(value);
+    const result: Record<string, unknown> = {};
+    for (const [key, entry] of Object.entries(value)) {
+      const keyPath = [...path, key];
+      if (this.matches(this.paths, keyPath)) {
+        result[key] = REDACTED;
+      } else if (typeof entry === 'string' && this.matches(this.verbatimPaths, keyPath)) {
+        result[key] = entry;
+      } else {
+        result[key] = this.redact(entry, keyPath, seen);
+      }
+    }
+    return result;
+  }
+
+  private matches(paths: string[][], keyPath: string[]): boolean {
+    return paths.some(fieldPath =>
+      fieldPath.length <= keyPath.length
+      && fieldPath.every((segment, index) => keyPath[keyPath.length - fieldPath.length + index].toLowerCase() === segment)
+    );
+  }
+}
+
+/**
+ * Redactor configured from REDACT_* variables - masks nothing when REDACTION_ENABLED=false
+ */
+function createRedactor(): Redactor {
+  const { enabled, fields, emailPattern, accountNumberPattern } = config.redaction;
+  return enabled
+    ? new Redactor({ fields, patterns: [emailPattern, accountNumberPattern], verbatim: IDENTIFIER_FIELDS })
+    : new Redactor({ fields: [], patterns: [] });
+}
+
+export const redactor = createRedactor();
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { createHash } from 'crypto';
+import { CookieCipher, OidcClient, pkcePair } from './session.js';
+import { DownstreamBadResponse } from './errors.js';
+
+describe('CookieCipher', () => {
+  const cipher = new CookieCipher('a-session-secret-of-at-least-32-characters');
+
+  it('should round-trip values without exposing them', () => {
+    const sealed = cipher.seal('bff_session', { id: 'session-1' });
+
+    expect(sealed).not.toContain('session-1');
+    expect(Buffer.from(sealed, 'base64url').toString()).not.toContain('session-1');
+    expect(cipher.open('bff_session', sealed)).toEqual({ id: 'session-1' });
+    expect(cipher.seal('bff_session', { id: 'session-1' })).not.toBe(sealed);
+  });
+
+  it('should reject tampered values, other cookie names and other secrets', () => {
+    const sealed = cipher.seal('bff_session', { id: 'session-1' });
+    const bytes = Buffer.from(sealed, 'base64url');
+    bytes[bytes.length - 1] ^= 1;
+
+    expect(cipher.open('bff_session', bytes.toString('base64url'))).toBeUndefined();
+    expect(cipher.open('bff_session_login', sealed)).toBeUndefined();
+    expect(new CookieCipher('another-secret-of-at-least-32-characters').open('bff_session', sealed)).toBeUndefined();
+    expect(cipher.open('bff_session', 'garbage')).toBeUndefined();
+  });
+});
+
+describe('pkcePair', () => {
+  it('should derive an S256 challenge from a fresh verifier', () => {
+    const { verifier, challenge } = pkcePair();
+
+    expect(verifier).toMatch(/^[A-Za-z0-9_-]{43}$/);
+    expect(challenge).toBe(createHash('sha256').update(verifier).digest('base64url'));
+    expect(pkcePair().verifier).not.toBe(verifier);
+  });
+});
+
+describe('OidcClient', () => {
+  it('should report a token response without an access token as a bad downstream response', async () => {
+    const client = new OidcClient({ post: async <T>() => ({ data: { token_type: 'Bearer' } as T, status: 200 }) }, {
+      clientId: 'conduites-bff',
+      authorizationEndpoint: 'https://auth.example.com/authorize',
+      tokenPath: '/oauth/token',
+      redirectUri: 'http://localhost:4000/auth/callback',
+      scopes: ['openid'],
+    });
+
+    await expect(client.refresh('refresh-token')).rejects.toBeInstanceOf(DownstreamBadResponse);
+  });
+});
@@ -0,0 +1,236 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import { config } from '../config/index.js';
+import { HttpClient } from './httpClient.js';
+import { DownstreamBadResponse } from './errors.js';
+import { sharedStore } from './sharedStore.js';
+import type { SharedStore } from './sharedStore.js';
+import { jwksClient, TokenVerifier } from './auth.js';
+
+export type SameSite = 'lax' | 'strict' | 'none';
+
+/**
+ * Server-side state of a logged-in browser - the cookie only carries its ID
+ */
+export interface Session {
+  subject: string;
+  accessToken: string;
+  accessTokenExpiresAt: number; // Epoch ms
+  refreshToken?: string;
+  idToken?: string;             // Sent as id_token_hint on logout
+  expiresAt: number;            // Epoch ms - end of the session, refreshes do not extend it
+}
+
+/**
+ * Token endpoint response
+ */
+export interface TokenSet {
+  accessToken: string;
+  refreshToken?: string;
+  idToken?: string;
+}
+
+export interface OidcClientOptions {
+  clientId: string;
+  clientSecret?: string;        // Confidential client - PKCE is used either way
+  authorizationEndpoint: string; // Browser-facing
+  tokenPath: string;            // On the auth service
+  endSessionEndpoint?: string;  // Browser-facing RP-initiated logout
+  redirectUri: string;
+  scopes: string[];
+}
+
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+const random = (bytes = 32) => randomBytes(bytes).toString('base64url');
+
+/**
+ * AES-256-GCM for cookie values
+ * The cookie name is authenticated with the value, so one cookie cannot be
+ * replayed under another name
+ */
+export class CookieCipher {
+  private key: Buffer;
+
+  constructor(secret: string) {
+    this.key = createHash('sha256').update(secret).digest();
+  }
+
+  seal(name: string, value: unknown): string {
+    const iv = randomBytes(IV_BYTES);
+    const cipher = createCipheriv('aes-256-gcm', this.key, iv).setAAD(Buffer.from(name));
+    const encrypted = Buffer.concat([cipher.update(JSON.stringify(value)), cipher.final()]);
+    return Buffer.concat([iv, cipher.getAuthTag(), encrypted]).toString('base64url');
+  }
+
+  /**
+   * Decrypted value - undefined when the cookie was tampered with or sealed with another secret
+   */
+  open<T>(name: string, sealed: string): T | undefined {
+    const data = Buffer.from(sealed, 'base64url');
+    if (data.length <= IV_BYTES + TAG_BYTES) {
+      return undefined;
+    }
+    try {
+      const decipher = createDecipheriv('aes-256-gcm', this.key, data.subarray(0, IV_BYTES))
+        .setAAD(Buffer.from(name))
+        .setAuthTag(data.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+      const decrypted = Buffer.concat([decipher.update(data.subarray(IV_BYTES + TAG_BYTES)), decipher.final()]);
+      return JSON.parse(decrypted.toString()) as T;
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Sessions on the shared store, so every worker sees logins, refreshes and logouts
+ */
+export class SessionStore {
+  constructor(private store: SharedStore) {}
+
+  async create(session: Session): Promise<string> {
+    const id = random();
+    await this.save(id, session);
+    return id;
+  }
+
+  /**
+   * Session by ID - undefined when unknown, logged out or past its end
+   */
+  async get(id: string): Promise<Session | undefined> {
+    const session = await this.store.get<Session>(`session:${id}`);
+    return session && session.expiresAt > Date.now() ? session : undefined;
+  }
+
+  async save(id: string, session: Session): Promise<void> {
+    await this.store.set(`session:${id}`, session, Math.max(1, session.expiresAt - Date.now()));
+  }
+
+  async destroy(id: string): Promise<void> {
+    await this.store.delete(`session:${id}`);
+  }
+}
+
+/**
+ * PKCE verifier and its S256 challenge (RFC 7636)
+ */
+export function pkcePair(): { verifier: string; challenge: string } {
+  const verifier = random();
+  return { verifier, challenge: createHash('sha256').update(verifier).digest('base64url') };
+}
+
+/**
+ * Fresh state and nonce for an authorization request
+ */
+export function loginNonces(): { state: string; nonce: string } {
+  return { state: random(), nonce: random() };
+}
+
+/**
+ * OIDC relying party for the authorization code flow with PKCE
+ * Browser redirects go to the public endpoints; token calls go to the auth
+ * service directly
+ */
+export class OidcClient {
+  constructor(private http: Pick<HttpClient, 'post'>, private options: OidcClientOptions) {}
+
+  authorizationUrl(params: { state: string; nonce: string; codeChallenge: string }): string {
+    const url = new URL(this.options.authorizationEndpoint);
+    url.search = new URLSearchParams({
+      response_type: 'code',
+      client_id: this.options.clientId,
+      redirect_uri: this.options.redirectUri,
+      scope: this.options.scopes.join(' '),
+      state: params.state,
+      nonce: params.nonce,
+      code_challenge: params.codeChallenge,
+      code_challenge_method: 'S256',
+    }).toString();
+    return url.toString();
+  }
+
+  /**
+   * @throws DownstreamError - status 400/401 when the code or verifier is rejected
+   */
+  exchangeCode(code: string, codeVerifier: string): Promise<TokenSet> {
+    return this.token({
+      grant_type: 'authorization_code',
+      code,
+      code_verifier: codeVerifier,
+      redirect_uri: this.options.redirectUri,
+    });
+  }
+
+  /**
+   * New tokens for a refresh token - the auth service may rotate the refresh token
+   * @throws DownstreamError - status 400/401 when the refresh token was revoked or reused
+   */
+  refresh(refreshToken: string): Promise<TokenSet> {
+    return this.token({ grant_type: 'refresh_token', refresh_token: refreshToken });
+  }
+
+  /**
+   * RP-initiated logout URL - undefined when the auth service has no end session endpoint
+   */
+  endSessionUrl(idToken: string | undefined, postLogoutRedirectUri: string): string | undefined {
+    if (!this.options.endSessionEndpoint) {
+      return undefined;
+    }
+    const url = new URL(this.options.endSessionEndpoint);
+    url.search = new URLSearchParams({
+      client_id: this.options.clientId,
+      post_logout_redirect_uri: postLogoutRedirectUri,
+      ...(idToken && { id_token_hint: idToken }),
+    }).toString();
+    return url.toString();
+  }
+
+  private async token(params: Record<string, string>): Promise<TokenSet> {
+    const form = new URLSearchParams(params);
+    const headers: Record<string, string> = { 'Content-Type': 'application/x-www-form-urlencoded' };
+    if (this.options.clientSecret) {
+      const credentials = `${encodeURIComponent(this.options.clientId)}:${encodeURIComponent(this.options.clientSecret)}`;
+      headers['Authorization'] = `Basic ${Buffer.from(credentials).toString('base64')}`;
+    } else {
+      form.set('client_id', this.options.clientId);
+    }
+
+    const startedAt = Date.now();
+    const { data, status } = await this.http.post<Record<string, unknown>>(this.options.tokenPath, form, headers);
+    if (typeof data?.access_token !== 'string') {
+      throw new DownstreamBadResponse(`Token endpoint returned no access_token for ${params.grant_type}`, {
+        service: 'auth-service',
+        method: 'POST',
+        url: this.options.tokenPath,
+        status,
+        elapsedMs: Date.now() - startedAt,
+      });
+    }
+    return {
+      accessToken: data.access_token,
+      refreshToken: typeof data.refresh_token === 'string' ? data.refresh_token : undefined,
+      idToken: typeof data.id_token === 'string' ? data.id_token : undefined,
+    };
+  }
+}
+
+// Browser sessions, configured from SESSION_* and OIDC_* variables
+export const cookieCipher = new CookieCipher(config.session.secret ?? '');
+
+export const sessionStore = new SessionStore(sharedStore);
+
+export const oidcClient = new OidcClient(
+  new HttpClient(config.services.authService, { serviceName: 'auth-service' }),
+  config.oidc,
+);
+
+// ID tokens are issued to the BFF's client ID rather than the API audience
+export const idTokenVerifier = new TokenVerifier(jwksClient, {
+  issuer: config.auth.issuer,
+  audience: config.oidc.clientId,
+  algorithms: config.auth.algorithms,
+  clockToleranceSeconds: config.auth.clockToleranceSeconds,
+  rolesClaim: config.auth.rolesClaim,
+  customerIdClaim: config.auth.customerIdClaim,
+});
@@ -0,0 +1,297 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import { EventEmitter } from 'events';
+import net from 'net';
+import type { AddressInfo } from 'net';
+import {
+  ClusterSharedStore,
+  MemorySharedStore,
+  RedisSharedStore,
+  SharedStoreError,
+  handleStoreMessage,
+  workerChannel,
+} from './sharedStore.js';
+import type { MessageChannel, SharedStore } from './sharedStore.js';
+
+describe('MemorySharedStore', () => {
+  let store: MemorySharedStore;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+    store = new MemorySharedStore();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should increment counters from zero', async () => {
+    expect(await store.incr('hits')).toBe(1);
+    expect(await store.incr('hits', 5)).toBe(6);
+    expect(await store.get('hits')).toBe(6);
+  });
+
+  it('should set the counter TTL only on creation', async () => {
+    await store.incr('hits', 1, 1000);
+    vi.setSystemTime(600);
+    await store.incr('hits', 1, 1000);
+
+    vi.setSystemTime(1000);
+    expect(await store.get('hits')).toBeUndefined();
+  });
+
+  it('should reject incrementing a non-numeric value', async () => {
+    await store.set('name', 'bff');
+
+    await expect(store.incr('name')).rejects.toThrow('Shared store key name does not hold a number');
+  });
+
+  it('should get, set and expire cache entries', async () => {
+    await store.set('customer:1', { id: '1' }, 500);
+
+    expect(await store.get('customer:1')).toEqual({ id: '1' });
+    vi.setSystemTime(500);
+    expect(await store.get('customer:1')).toBeUndefined();
+  });
+
+  it('should delete entries', async () => {
+    await store.set('key', 1);
+
+    expect(await store.delete('key')).toBe(true);
+    expect(await store.delete('key')).toBe(false);
+    expect(await store.get('key')).toBeUndefined();
+  });
+});
+
+describe('ClusterSharedStore', () => {
+  /**
+   * Wire a worker-side client to a primary-side store through in-memory channels
+   */
+  const connect = (primaryStore: SharedStore, timeoutMs = 1000) => {
+    const toWorker = new EventEmitter();
+    const primaryReply: MessageChannel = {
+      send: message => { setImmediate(() => toWorker.emit('message', message)); return true; },
+      on: () => primaryReply,
+    };
+    const workerChannel: MessageChannel = {
+      send: vi.fn(message => { void handleStoreMessage(primaryStore, message, primaryReply); return true; }),
+      on: (event, listener) => toWorker.on(event, listener),
+    };
+    return { client: new ClusterSharedStore(workerChannel, timeoutMs), workerChannel };
+  };
+
+  it('should forward operations to the primary store', async () => {
+    const primary = new MemorySharedStore();
+    const { client } = connect(primary);
+
+    expect(await client.incr('hits', 2, 60000)).toBe(2);
+    await client.set('cache', { ok: true });
+
+    expect(await client.get('cache')).toEqual({ ok: true });
+    expect(await primary.get('hits')).toBe(2);
+    expect(await client.delete('cache')).toBe(true);
+  });
+
+  it('should count atomically across workers', async () => {
+    const primary = new MemorySharedStore();
+    const workers = [connect(primary).client, connect(primary).client, connect(primary).client];
+
+    const results = await Promise.all(workers.flatMap(worker => [worker.incr('hits'), worker.incr('hits')]));
+
+    expect(results.sort()).toEqual([1, 2, 3, 4, 5, 6]);
+  });
+
+  it('should surface primary-side errors', async () => {
+    const primary = new MemorySharedStore();
+    await primary.set('name', 'bff');
+    const { client } = connect(primary);
+
+    await expect(client.incr('name')).rejects.toThrow('does not hold a number');
+  });
+
+  it('should time out when the primary does not answer', async () => {
+    vi.useFakeTimers();
+    const channel: MessageChannel = { send: () => true, on: () => channel };
+    const client = new ClusterSharedStore(channel, 50);
+
+    const pending = client.get('key');
+    vi.advanceTimersByTime(50);
+
+    await expect(pending).rejects.toThrow('Shared store get timed out after 50ms');
+    vi.useRealTimers();
+  });
+
+  it('should reject when the IPC channel is closed', async () => {
+    const channel: MessageChannel = { send: () => false, on: () => channel };
+    const client = new ClusterSharedStore(channel, 50);
+
+    await expect(client.get('key')).rejects.toThrow('Shared store primary is not reachable');
+  });
+
+  it('should ignore unrelated IPC messages', async () => {
+    const primary: SharedStore = { incr: vi.fn(), get: vi.fn(), set: vi.fn(), delete: vi.fn() };
+    const reply: MessageChannel = { send: vi.fn(() => true), on: () => reply };
+
+    await handleStoreMessage(primary, { cmd: 'NODE_CLUSTER' }, reply);
+
+    expect(reply.send).not.toHaveBeenCalled();
+  });
+});
+
+/**
+ * Redis stand-in speaking RESP over TCP - just the commands RedisSharedStore sends
+ */
+class RedisStandIn {
+  readonly commands: string[][] = [];
+  password?: string;
+  silent = false;
+  private store = new MemorySharedStore();
+  private sockets = new Set<net.Socket>();
+  private server = net.createServer(socket => {
+    this.sockets.add(socket);
+    socket.on('close', () => this.sockets.delete(socket));
+    let buffer = '';
+    socket.on('data', chunk => {
+      buffer += chunk.toString();
+      let parsed;
+      while ((parsed = this.parse(buffer))) {
+        buffer = buffer.slice(parsed.end);
+        this.commands.push(parsed.args);
+        if (!this.silent) {
+          void this.execute(parsed.args).then(reply => socket.write(reply));
+        }
+      }
+    });
+  });
+
+  async start(): Promise<string> {
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+    return `127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  dropConnections() {
+    for (const socket of this.sockets) socket.destroy();
+  }
+
+  stop() {
+    this.dropConnections();
+    this.server.close();
+  }
+
+  private parse(buffer: string): { args: string[]; end: number } | undefined {
+    const lines = buffer.split('\r\n');
+    const count = Number(lines[0].slice(1));
+    if (lines.length < 2 * count + 2) return undefined;
+    const args = Array.from({ length: count }, (_, i) => lines[2 + 2 * i]);
+    return { args, end: lines.slice(0, 2 * count + 1).join('\r\n').length + 2 };
+  }
+
+  private async execute([command, ...args]: string[]): Promise<string> {
+    const bulk = (value: unknown) => value === undefined ? '$-1\r\n' : `$${Buffer.byteLength(String(value))}\r\n${value}\r\n`;
+    switch (command) {
+      case 'AUTH':
+        return args[args.length - 1] === this.password ? '+OK\r\n' : '-WRONGPASS invalid password\r\n';
+      case 'SELECT':
+        return '+OK\r\n';
+      case 'GET':
+        return bulk(await this.store.get(args[0]));
+      case 'SET':
+        await this.store.set(args[0], args[1], args[2] === 'PX' ? Number(args[3]) : undefined);
+        return '+OK\r\n';
+      case 'DEL':
+        return `:${await this.store.delete(args[0]) ? 1 : 0}\r\n`;
+      case 'EVAL':
+        return `:${await this.store.incr(args[2], Number(args[3]), args[4] ? Number(args[4]) : undefined)}\r\n`;
+      default:
+        return `-ERR unknown command '${command}'\r\n`;
+    }
+  }
+}
+
+describe('RedisSharedStore', () => {
+  const server = new RedisStandIn();
+  let address: string;
+
+  beforeAll(async () => {
+    address = await server.start();
+  });
+
+  afterAll(() => {
+    server.stop();
+  });
+
+  it('should store JSON values and counters on the server', async () => {
+    const client = new RedisSharedStore(`redis://${address}`, 1000);
+
+    expect(await client.incr('hits', 2, 60000)).toBe(2);
+    expect(await client.incr('hits')).toBe(3);
+    await client.set('session:1', { subject: 'user-123' }, 60000);
+
+    expect(await client.get('session:1')).toEqual({ subject: 'user-123' });
+    expect(await client.get('hits')).toBe(3);
+    expect(await client.get('missing')).toBeUndefined();
+    expect(await client.delete('session:1')).toBe(true);
+    expect(await client.delete('session:1')).toBe(false);
+    expect(server.commands).toContainEqual(['SET', 'session:1', '{"subject":"user-123"}', 'PX', '60000']);
+    client.close();
+  });
+
+  it('should authenticate and select the database from the URL', async () => {
+    server.password = 's3cret';
+    const client = new RedisSharedStore(`redis://bff:s3cret@${address}/2`, 1000);
+
+    await client.set('key', 1);
+
+    expect(server.commands.slice(-3)).toEqual([['AUTH', 'bff', 's3cret'], ['SELECT', '2'], ['SET', 'key', '1']]);
+    client.close();
+
+    const wrongPassword = new RedisSharedStore(`redis://bff:wrong@${address}`, 1000);
+    await expect(wrongPassword.get('key')).rejects.toThrow(SharedStoreError);
+    server.password = undefined;
+  });
+
+  it('should fail pending calls when the connection drops and reconnect on the next call', async () => {
+    const client = new RedisSharedStore(`redis://${address}`, 1000);
+    await client.set('key', 'value');
+    server.silent = true;
+
+    const pending = client.get('key');
+    await vi.waitFor(() => expect(server.commands.at(-1)).toEqual(['GET', 'key']));
+    server.dropConnections();
+    server.silent = false;
+
+    await expect(pending).rejects.toThrow(new SharedStoreError('Shared store connection closed'));
+    expect(await client.get('key')).toBe('value');
+    client.close();
+  });
+
+  it('should time out when the server does not answer', async () => {
+    const client = new RedisSharedStore(`redis://${address}`, 50);
+    server.silent = true;
+
+    await expect(client.get('key')).rejects.toThrow('Shared store GET timed out after 50ms');
+    server.silent = false;
+    client.close();
+  });
+
+  it('should reset a stalled connection so later calls recover', async () => {
+    const client = new RedisSharedStore(`redis://${address}`, 50);
+    await client.set('key', 'value');
+    server.silent = true;
+
+    const stalled = client.get('key');
+    const behind = client.get('key');
+    await expect(stalled).rejects.toThrow('Shared store GET timed out after 50ms');
+    await expect(behind).rejects.toThrow(SharedStoreError);
+    server.silent = false;
+
+    expect(await client.get('key')).toBe('value');
+    client.close();
+  });
+});
+
+describe('workerChannel', () => {
+  it('should only exist in a cluster worker', () => {
+    expect(workerChannel()).toBeUndefined();
+  });
+});
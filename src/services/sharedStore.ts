@@ -0,0 +1,507 @@
+import cluster from 'cluster';
+import net from 'net';
+import tls from 'tls';
+import { config } from '../config/index.js';
+
+/**
+ * Key-value store shared by every worker
+ * Redis-shaped so a Redis client (or a local Redis-compatible stand-in)
+ * can implement it directly: incr -> INCRBY + PEXPIRE NX, get -> GET,
+ * set -> SET PX, delete -> DEL. Values must be JSON-serializable.
+ */
+export interface SharedStore {
+  /**
+   * Atomically add to a counter, creating it at 0 - the TTL is only set on creation
+   * @returns The counter value after the increment
+   */
+  incr(key: string, by?: number, ttlMs?: number): Promise<number>;
+  get<T = unknown>(key: string): Promise<T | undefined>;
+  set(key: string, value: unknown, ttlMs?: number): Promise<void>;
+  delete(key: string): Promise<boolean>;
+}
+
+/**
+ * The store could not be reached or did not answer in time - the operation may not have run
+ */
+export class SharedStoreError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SharedStoreError';
+  }
+}
+
+interface Entry {
+  value: unknown;
+  expiresAt?: number;
+}
+
+/**
+ * In-process store - the single source of truth when hosted in the cluster primary,
+ * and the store for single-process (development) runs
+ */
+export class MemorySharedStore implements SharedStore {
+  private entries = new Map<string, Entry>();
+  private lastSweep = Date.now();
+
+  constructor(private sweepIntervalMs = 60000) {}
+
+  async incr(key: string, by = 1, ttlMs?: number): Promise<number> {
+    const entry = this.read(key);
+    if (entry && typeof entry.value !== 'number') {
+      throw new Error(`Shared store key ${key} does not hold a number`);
+    }
+
+    const value = (entry ? entry.value as number : 0) + by;
+    this.write(key, { value, expiresAt: entry ? entry.expiresAt : expiry(ttlMs) });
+    return value;
+  }
+
+  async get<T = unknown>(key: string): Promise<T | undefined> {
+    return this.read(key)?.value as T | undefined;
+  }
+
+  async set(key: string, value: unknown, ttlMs?: number): Promise<void> {
+    this.write(key, { value, expiresAt: expiry(ttlMs) });
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return this.read(key) !== undefined && this.entries.delete(key);
+  }
+
+  private read(key: string): Entry | undefined {
+    const entry = this.entries.get(key);
+    if (entry?.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  private write(key: string, entry: Entry): void {
+    this.entries.set(key, entry);
+    this.sweep();
+  }
+
+  /**
+   * Drop expired entries that were never read again - at most once per interval
+   */
+  private sweep(): void {
+    const now = Date.now();
+    if (now - this.lastSweep < this.sweepIntervalMs) {
+      return;
+    }
+    this.lastSweep = now;
+
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt !== undefined && entry.expiresAt <= now) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
+
+const expiry = (ttlMs?: number) => (ttlMs === undefined ? undefined : Date.now() + ttlMs);
+
+// IPC protocol between workers and the primary
+const CHANNEL = 'shared-store';
+
+type Operation =
+  | { op: 'incr'; key: string; by?: number; ttlMs?: number }
+  | { op: 'get'; key: string }
+  | { op: 'set'; key: string; value: unknown; ttlMs?: number }
+  | { op: 'delete'; key: string };
+
+interface StoreRequest {
+  channel: typeof CHANNEL;
+  id: number;
+  operation: Operation;
+}
+
+interface StoreResponse {
+  channel: typeof CHANNEL;
+  id: number;
+  result?: unknown;
+  error?: string;
+}
+
+/**
+ * Minimal message channel - `process` in a worker, a cluster worker in the primary
+ */
+export interface MessageChannel {
+  send(message: unknown): boolean;
+  on(event: 'message', listener: (message: unknown) => void): unknown;
+}
+
+/**
+ * This worker's IPC channel to the primary - undefined outside a cluster worker
+ */
+export function workerChannel(): MessageChannel | undefined {
+  const send = process.send;
+  if (!cluster.isWorker || !send) {
+    return undefined;
+  }
+  return {
+    send: message => send.call(process, message),
+    on: (event, listener) => process.on(event, listener),
+  };
+}
+
+const isMessage = (message: unknown): message is { channel: string; id: number } =>
+  typeof message === 'object' && message !== null && (message as { channel?: unknown }).channel === CHANNEL;
+
+function execute(store: SharedStore, operation: Operation): Promise<unknown> {
+  switch (operation.op) {
+    case 'incr':
+      return store.incr(operation.key, operation.by, operation.ttlMs);
+    case 'get':
+      return store.get(operation.key);
+    case 'set':
+      return store.set(operation.key, operation.value, operation.ttlMs);
+    case 'delete':
+      return store.delete(operation.key);
+  }
+}
+
+/**
+ * Apply one worker request to the store and send back the result
+ * Operations run one at a time on the primary's event loop, so each is atomic
+ */
+export async function handleStoreMessage(store: SharedStore, message: unknown, reply: MessageChannel): Promise<void> {
+  if (!isMessage(message) || !('operation' in message)) {
+    return;
+  }
+  const { id, operation } = message as StoreRequest;
+
+  let response: StoreResponse;
+  try {
+    response = { channel: CHANNEL, id, result: await execute(store, operation) };
+  } catch (error) {
+    response = { channel: CHANNEL, id, error: error instanceof Error ? error.message : String(error) };
+  }
+  reply.send(response);
+}
+
+/**
+ * Serve the shared store to every worker - call once in the cluster primary
+ */
+export function hostSharedStore(store: SharedStore = new MemorySharedStore()): SharedStore {
+  cluster.on('message', (worker, message) => {
+    if (worker.isConnected()) {
+      void handleStoreMessage(store, message, worker);
+    }
+  });
+  return store;
+}
+
+/**
+ * Worker-side client - forwards every operation to the primary over IPC
+ * Rejects after timeoutMs so callers can fail open when the primary is busy
+ */
+export class ClusterSharedStore implements SharedStore {
+  private nextId = 1;
+  private pending = new Map<number, { resolve: (value: unknown) => void; reject: (error: Error) => void; timer: NodeJS.Timeout }>();
+
+  constructor(private channel: MessageChannel, private timeoutMs: number) {
+    channel.on('message', message => this.onResponse(message));
+  }
+
+  incr(key: string, by?: number, ttlMs?: number): Promise<number> {
+    return this.call({ op: 'incr', key, by, ttlMs }) as Promise<number>;
+  }
+
+  get<T = unknown>(key: string): Promise<T | undefined> {
+    return this.call({ op: 'get', key }) as Promise<T | undefined>;
+  }
+
+  async set(key: string, value: unknown, ttlMs?: number): Promise<void> {
+    await this.call({ op: 'set', key, value, ttlMs });
+  }
+
+  delete(key: string): Promise<boolean> {
+    return this.call({ op: 'delete', key }) as Promise<boolean>;
+  }
+
+  private call(operation: Operation): Promise<unknown> {
+    const id = this.nextId++;
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new SharedStoreError(`Shared store ${operation.op} timed out after ${this.timeoutMs}ms`));
+      }, this.timeoutMs);
+      this.pending.set(id, { resolve, reject, timer });
+
+      const request: StoreRequest = { channel: CHANNEL, id, operation };
+      if (!this.channel.send(request)) {
+        clearTimeout(timer);
+        this.pending.delete(id);
+        reject(new SharedStoreError('Shared store primary is not reachable'));
+      }
+    });
+  }
+
+  private onResponse(message: unknown): void {
+    if (!isMessage(message) || !this.pending.has(message.id)) {
+      return;
+    }
+    const { id, result, error } = message as StoreResponse;
+    const call = this.pending.get(id)!;
+    this.pending.delete(id);
+    clearTimeout(call.timer);
+
+    if (error !== undefined) {
+      call.reject(new Error(error));
+    } else {
+      call.resolve(result);
+    }
+  }
+}
+
+// RESP protocol for Redis-compatible servers
+type Reply = string | number | null | Reply[] | Error;
+
+/**
+ * INCRBY that sets the TTL only when it creates the counter, in one round trip
+ */
+const INCR_SCRIPT = `
+local value = redis.call('INCRBY', KEYS[1], ARGV[1])
+if ARGV[2] ~= '' and redis.call('PTTL', KEYS[1]) == -1 then
+  redis.call('PEXPIRE', KEYS[1], ARGV[2])
+end
+return value`;
+
+/**
+ * Encode a command as a RESP array of bulk strings
+ */
+function encode(args: string[]): Buffer {
+  const parts = args.map(arg => `$${Buffer.byteLength(arg)}\r\n${arg}\r\n`);
+  return Buffer.from(`*${args.length}\r\n${parts.join('')}`);
+}
+
+/**
+ * Parse one RESP reply from the start of the buffer
+ * @returns The reply and the bytes it used - undefined until the reply is complete
+ */
+function parseReply(buffer: Buffer, offset = 0): { reply: Reply; end: number } | undefined {
+  const lineEnd = buffer.indexOf('\r\n', offset);
+  if (lineEnd === -1) {
+    return undefined;
+  }
+  const type = String.fromCharCode(buffer[offset]);
+  const line = buffer.toString('utf8', offset + 1, lineEnd);
+
+  switch (type) {
+    case '+':
+      return { reply: line, end: lineEnd + 2 };
+    case '-':
+      return { reply: new Error(line), end: lineEnd + 2 };
+    case ':':
+      return { reply: Number(line), end: lineEnd + 2 };
+    case '$': {
+      const length = Number(line);
+      if (length === -1) {
+        return { reply: null, end: lineEnd + 2 };
+      }
+      const end = lineEnd + 2 + length;
+      return buffer.length < end + 2 ? undefined : { reply: buffer.toString('utf8', lineEnd + 2, end), end: end + 2 };
+    }
+    case '*': {
+      const count = Number(line);
+      if (count === -1) {
+        return { reply: null, end: lineEnd + 2 };
+      }
+      const items: Reply[] = [];
+      let end = lineEnd + 2;
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buffer, end);
+        if (!item) {
+          return undefined;
+        }
+        items.push(item.reply);
+        end = item.end;
+      }
+      return { reply: items, end };
+    }
+    default:
+      throw new Error(`Unexpected reply type "${type}" from the shared store`);
+  }
+}
+
+interface PendingCall {
+  resolve: (reply: Reply) => void;
+  reject: (error: Error) => void;
+  settled: boolean;
+}
+
+/**
+ * One socket and the calls waiting for its replies, in command order
+ */
+interface Connection {
+  socket: net.Socket;
+  queue: PendingCall[];
+  buffer: Buffer;
+}
+
+/**
+ * Shared store on a Redis-compatible server (SHARED_STORE_URL), shared by
+ * every worker of every pod - state outlives primary restarts and rollouts
+ * Replies arrive in command order, so calls are matched to them FIFO. A call
+ * that times out resets the connection rather than queueing every later call
+ * behind a reply that may never come.
+ */
+export class RedisSharedStore implements SharedStore {
+  private current?: Connection;
+
+  constructor(private url: string, private timeoutMs: number) {}
+
+  async incr(key: string, by = 1, ttlMs?: number): Promise<number> {
+    return await this.command('EVAL', INCR_SCRIPT, '1', key, String(by), ttlMs === undefined ? '' : String(ttlMs)) as number;
+  }
+
+  async get<T = unknown>(key: string): Promise<T | undefined> {
+    const value = await this.command('GET', key);
+    return typeof value === 'string' ? JSON.parse(value) as T : undefined;
+  }
+
+  async set(key: string, value: unknown, ttlMs?: number): Promise<void> {
+    const args = ['SET', key, JSON.stringify(value)];
+    await this.command(...(ttlMs === undefined ? args : [...args, 'PX', String(Math.max(1, Math.ceil(ttlMs)))]));
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return await this.command('DEL', key) as number > 0;
+  }
+
+  /**
+   * Close the connection - the next call reconnects
+   */
+  close(): void {
+    this.current?.socket.end();
+    this.current = undefined;
+  }
+
+  private command(...args: string[]): Promise<Reply> {
+    const connection = this.connection();
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        call.settled = true;
+        reject(new SharedStoreError(`Shared store ${args[0]} timed out after ${this.timeoutMs}ms`));
+        // A stalled server or connection - later replies can no longer be
+        // matched, so drop it (failing the calls behind this one) and reconnect
+        // on the next call
+        connection.socket.destroy();
+      }, this.timeoutMs);
+      const call: PendingCall = {
+        resolve: reply => { clearTimeout(timer); resolve(reply); },
+        reject: error => { clearTimeout(timer); reject(error); },
+        settled: false,
+      };
+
+      connection.queue.push(call);
+      connection.socket.write(encode(args));
+    });
+  }
+
+  /**
+   * Open connection, connecting (and authenticating) on first use or after a failure
+   * Commands written before the socket is up are buffered by the socket
+   */
+  private connection(): Connection {
+    if (this.current && !this.current.socket.destroyed) {
+      return this.current;
+    }
+
+    const url = new URL(this.url);
+    const port = Number(url.port || 6379);
+    const socket = url.protocol === 'rediss:'
+      ? tls.connect({ host: url.hostname, port, servername: url.hostname })
+      : net.connect({ host: url.hostname, port });
+    socket.setNoDelay(true);
+    socket.setKeepAlive(true, 10000);
+    const connection: Connection = { socket, queue: [], buffer: Buffer.alloc(0) };
+    this.current = connection;
+
+    socket.on('data', chunk => onData(connection, chunk));
+    socket.on('error', () => undefined); // Reported through close
+    socket.on('close', () => {
+      if (this.current === connection) {
+        this.current = undefined;
+      }
+      failPending(connection, new SharedStoreError('Shared store connection closed'));
+    });
+
+    // Handshake replies are matched like any other - a failure drops the connection
+    const handshake = (args: string[]) => {
+      connection.queue.push({
+        resolve: () => undefined,
+        reject: error => socket.destroy(new SharedStoreError(`Shared store ${args[0]} failed: ${error.message}`)),
+        settled: false,
+      });
+      socket.write(encode(args));
+    };
+    if (url.password) {
+      const password = decodeURIComponent(url.password);
+      handshake(url.username ? ['AUTH', decodeURIComponent(url.username), password] : ['AUTH', password]);
+    }
+    const database = url.pathname.slice(1);
+    if (database) {
+      handshake(['SELECT', database]);
+    }
+
+    return connection;
+  }
+}
+
+/**
+ * Settle waiting calls with the replies received so far
+ */
+function onData(connection: Connection, chunk: Buffer): void {
+  connection.buffer = connection.buffer.length === 0 ? chunk : Buffer.concat([connection.buffer, chunk]);
+
+  try {
+    let parsed;
+    // A failed handshake destroys the socket - later replies are not trusted
+    while (!connection.socket.destroyed && (parsed = parseReply(connection.buffer))) {
+      connection.buffer = connection.buffer.subarray(parsed.end);
+      const call = connection.queue.shift();
+      if (!call || call.settled) {
+        continue;
+      }
+      call.settled = true;
+      if (parsed.reply instanceof Error) {
+        call.reject(parsed.reply);
+      } else {
+        call.resolve(parsed.reply);
+      }
+    }
+  } catch (error) {
+    connection.socket.destroy(error as Error);
+  }
+}
+
+function failPending(connection: Connection, error: Error): void {
+  const pending = connection.queue;
+  connection.queue = [];
+  for (const call of pending) {
+    if (!call.settled) {
+      call.settled = true;
+      call.reject(error);
+    }
+  }
+}
+
+/**
+ * Shared store for this process - the Redis-compatible server when
+ * SHARED_STORE_URL is set, else the primary's store over IPC in a cluster
+ * worker, an in-process store otherwise
+ */
+function createSharedStore(): SharedStore {
+  if (config.sharedStore.url) {
+    return new RedisSharedStore(config.sharedStore.url, config.sharedStore.timeoutMs);
+  }
+  const channel = workerChannel();
+  return channel ? new ClusterSharedStore(channel, config.sharedStore.timeoutMs) : new MemorySharedStore();
+}
+
+export const sharedStore = createSharedStore();
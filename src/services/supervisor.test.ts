@@ -0,0 +1,193 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { EventEmitter } from 'events';
+
+const clusterMock = vi.hoisted(() => ({
+  workers: {} as Record<string, any>,
+  on: vi.fn(),
+  fork: vi.fn(),
+}));
+
+vi.mock('cluster', () => ({ default: clusterMock }));
+
+import { ClusterSupervisor, cpuQuota, resolveWorkerCount, restartDelay, receiveStatus, getClusterStatus } from './supervisor.js';
+import type { SupervisorOptions } from './supervisor.js';
+
+const files = (contents: Record<string, string>) => (path: string) => {
+  if (!(path in contents)) throw new Error(`ENOENT: ${path}`);
+  return contents[path]!;
+};
+
+describe('Worker count', () => {
+  it('should read the cgroup v2 quota', () => {
+    expect(cpuQuota(files({ '/sys/fs/cgroup/cpu.max': '20000 100000\n' }))).toBe(0.2);
+    expect(cpuQuota(files({ '/sys/fs/cgroup/cpu.max': 'max 100000\n' }))).toBeUndefined();
+  });
+
+  it('should fall back to the cgroup v1 quota', () => {
+    expect(cpuQuota(files({
+      '/sys/fs/cgroup/cpu/cpu.cfs_quota_us': '250000\n',
+      '/sys/fs/cgroup/cpu/cpu.cfs_period_us': '100000\n',
+    }))).toBe(2.5);
+    expect(cpuQuota(files({
+      '/sys/fs/cgroup/cpu/cpu.cfs_quota_us': '-1\n',
+      '/sys/fs/cgroup/cpu/cpu.cfs_period_us': '100000\n',
+    }))).toBeUndefined();
+    expect(cpuQuota(files({}))).toBeUndefined();
+  });
+
+  it('should run one worker per whole CPU of the quota', () => {
+    expect(resolveWorkerCount(undefined, 0.2, 16)).toBe(1);
+    expect(resolveWorkerCount(undefined, 2.5, 16)).toBe(2);
+    expect(resolveWorkerCount(undefined, 32, 16)).toBe(16);
+    expect(resolveWorkerCount(undefined, undefined, 4)).toBe(4);
+  });
+
+  it('should prefer the configured worker count', () => {
+    expect(resolveWorkerCount(3, 0.2, 16)).toBe(3);
+  });
+});
+
+describe('Restart delay', () => {
+  it('should double per recent crash up to the maximum', () => {
+    const options = { restartBaseDelayMs: 1000, restartMaxDelayMs: 5000 };
+
+    expect([1, 2, 3, 4].map(crashes => restartDelay(crashes, options))).toEqual([1000, 2000, 4000, 5000]);
+  });
+});
+
+describe('ClusterSupervisor', () => {
+  const options: SupervisorOptions = {
+    workers: 2,
+    restartBaseDelayMs: 1000,
+    restartMaxDelayMs: 30000,
+    crashLimit: 3,
+    crashWindowMs: 60000,
+  };
+
+  let nextId: number;
+  let onExit: (worker: any, code: number, signal: string) => void;
+
+  const fakeWorker = () => Object.assign(new EventEmitter(), { id: nextId, process: { pid: 1000 + nextId++ } });
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    nextId = 1;
+    clusterMock.fork.mockReset().mockImplementation(fakeWorker);
+    clusterMock.on.mockReset().mockImplementation((event: string, listener: any) => {
+      if (event === 'exit') onExit = listener;
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should fork the desired workers and track when they listen', () => {
+    const supervisor = new ClusterSupervisor(options);
+    supervisor.start();
+
+    const [first] = clusterMock.fork.mock.results.map(result => result.value);
+    first.emit('listening');
+
+    expect(clusterMock.fork).toHaveBeenCalledTimes(2);
+    expect(supervisor.status()).toMatchObject({
+      state: 'running',
+      desiredWorkers: 2,
+      workers: [
+        { id: 1, pid: 1001, state: 'listening' },
+        { id: 2, pid: 1002, state: 'starting' },
+      ],
+      pendingRestarts: 0,
+      recentCrashes: 0,
+    });
+  });
+
+  it('should restart crashed workers with exponential backoff', () => {
+    const supervisor = new ClusterSupervisor(options);
+    supervisor.start();
+
+    onExit({ id: 1, process: { pid: 1001 } }, 1, '');
+    expect(supervisor.status()).toMatchObject({ pendingRestarts: 1, recentCrashes: 1 });
+
+    vi.advanceTimersByTime(999);
+    expect(clusterMock.fork).toHaveBeenCalledTimes(2);
+    vi.advanceTimersByTime(1);
+    expect(clusterMock.fork).toHaveBeenCalledTimes(3);
+
+    onExit({ id: 3, process: { pid: 1003 } }, 1, '');
+    vi.advanceTimersByTime(1999);
+    expect(clusterMock.fork).toHaveBeenCalledTimes(3);
+    vi.advanceTimersByTime(1);
+    expect(clusterMock.fork).toHaveBeenCalledTimes(4);
+  });
+
+  it('should forget crashes that fall out of the window', () => {
+    const supervisor = new ClusterSupervisor(options);
+    supervisor.start();
+
+    onExit({ id: 1, process: { pid: 1001 } }, 1, '');
+    vi.advanceTimersByTime(options.crashWindowMs);
+    onExit({ id: 2, process: { pid: 1002 } }, 1, '');
+
+    expect(supervisor.status().recentCrashes).toBe(1);
+    vi.advanceTimersByTime(1000);
+    expect(clusterMock.fork).toHaveBeenCalledTimes(4);
+  });
+
+  it('should give up after the crash limit within the window', () => {
+    const onGiveUp = vi.fn();
+    const supervisor = new ClusterSupervisor(options, { onGiveUp });
+    supervisor.start();
+
+    onExit({ id: 1, process: { pid: 1001 } }, 1, '');
+    onExit({ id: 2, process: { pid: 1002 } }, 1, '');
+    expect(onGiveUp).not.toHaveBeenCalled();
+    onExit({ id: 3, process: { pid: 1003 } }, 1, '');
+
+    expect(onGiveUp).toHaveBeenCalledTimes(1);
+    expect(supervisor.status()).toMatchObject({ state: 'failed', pendingRestarts: 0 });
+    vi.advanceTimersByTime(options.restartMaxDelayMs);
+    expect(clusterMock.fork).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not replace workers once stopped', () => {
+    const supervisor = new ClusterSupervisor(options);
+    supervisor.start();
+
+    onExit({ id: 1, process: { pid: 1001 } }, 1, '');
+    supervisor.stop();
+    onExit({ id: 2, process: { pid: 1002 } }, 0, 'SIGTERM');
+    vi.advanceTimersByTime(options.restartMaxDelayMs);
+
+    expect(clusterMock.fork).toHaveBeenCalledTimes(2);
+    expect(supervisor.status()).toMatchObject({ state: 'stopping', workers: [], pendingRestarts: 0, recentCrashes: 1 });
+  });
+
+  it('should report every status change', () => {
+    const onChange = vi.fn();
+    const supervisor = new ClusterSupervisor(options, { onChange });
+    supervisor.start();
+    onExit({ id: 1, process: { pid: 1001 } }, 1, '');
+
+    expect(onChange).toHaveBeenCalledTimes(3);
+    expect(onChange).toHaveBeenLastCalledWith(expect.objectContaining({ workers: [expect.objectContaining({ id: 2 })] }));
+  });
+});
+
+describe('Cluster status', () => {
+  it('should keep the latest status sent by the primary', () => {
+    const channel = new EventEmitter();
+    receiveStatus({ send: () => true, on: (event, listener) => channel.on(event, listener) });
+    const status = { state: 'running', desiredWorkers: 1, workers: [], pendingRestarts: 0, recentCrashes: 0, updatedAt: 'now' };
+
+    channel.emit('message', { channel: 'shared-store', id: 1, result: 1 });
+    expect(getClusterStatus()).toBeUndefined();
+
+    channel.emit('message', { channel: 'cluster-status', status });
+    expect(getClusterStatus()).toEqual(status);
+  });
+});
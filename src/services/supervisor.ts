@@ -0,0 +1,236 @@
+import cluster from 'cluster';
+import type { Worker } from 'cluster';
+import { readFileSync } from 'fs';
+import { availableParallelism } from 'os';
+import { logger } from './logger.js';
+import { workerChannel } from './sharedStore.js';
+import type { MessageChannel } from './sharedStore.js';
+
+export interface SupervisorOptions {
+  workers: number;
+  restartBaseDelayMs: number;   // Delay before replacing the first crashed worker
+  restartMaxDelayMs: number;    // The delay doubles per recent crash up to this bound
+  crashLimit: number;           // Give up once this many crashes fall within the window
+  crashWindowMs: number;
+}
+
+export interface WorkerStatus {
+  id: number;
+  pid?: number;
+  state: 'starting' | 'listening';
+  startedAt: string;
+}
+
+export interface SupervisorStatus {
+  state: 'running' | 'stopping' | 'failed';
+  desiredWorkers: number;
+  workers: WorkerStatus[];
+  pendingRestarts: number;
+  recentCrashes: number;        // Crashes within the crash window
+  updatedAt: string;
+}
+
+const readText = (path: string) => readFileSync(path, 'utf8');
+
+/**
+ * CPUs available under the container's cgroup quota (v2, then v1)
+ * @returns Fractional CPU count, or undefined when unlimited or not in a cgroup
+ */
+export function cpuQuota(read: (path: string) => string = readText): number | undefined {
+  try {
+    // cgroup v2: "<quota> <period>" or "max <period>"
+    const [quota, period] = read('/sys/fs/cgroup/cpu.max').trim().split(/\s+/);
+    return quota === 'max' ? undefined : Number(quota) / Number(period);
+  } catch {
+    // Not cgroup v2 - fall through
+  }
+
+  try {
+    const quota = Number(read('/sys/fs/cgroup/cpu/cpu.cfs_quota_us'));
+    const period = Number(read('/sys/fs/cgroup/cpu/cpu.cfs_period_us'));
+    return quota > 0 && period > 0 ? quota / period : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Workers to run - WORKERS when set, otherwise one per whole CPU of the
+ * quota (at least one), never more than the CPUs the host reports
+ */
+export function resolveWorkerCount(
+  configured: number | undefined,
+  quota: number | undefined = cpuQuota(),
+  cpuCount: number = availableParallelism()
+): number {
+  if (configured !== undefined) {
+    return configured;
+  }
+  return Math.max(1, Math.min(cpuCount, Math.floor(quota ?? cpuCount)));
+}
+
+/**
+ * Exponential restart delay for the nth crash within the window
+ */
+export function restartDelay(crashes: number, options: Pick<SupervisorOptions, 'restartBaseDelayMs' | 'restartMaxDelayMs'>): number {
+  return Math.min(options.restartMaxDelayMs, options.restartBaseDelayMs * 2 ** Math.max(0, crashes - 1));
+}
+
+/**
+ * Keeps the desired number of workers running in the cluster primary
+ * Crashed workers are replaced after an exponential backoff; once crashLimit
+ * crashes fall within crashWindowMs the supervisor stops replacing them and
+ * calls onGiveUp so the process can exit and let the orchestrator take over
+ */
+export class ClusterSupervisor {
+  private workers = new Map<number, WorkerStatus>();
+  private crashes: number[] = [];
+  private restarts = new Set<NodeJS.Timeout>();
+  private state: SupervisorStatus['state'] = 'running';
+
+  constructor(
+    private options: SupervisorOptions,
+    private hooks: {
+      onChange?: (status: SupervisorStatus) => void;
+      onGiveUp?: () => void;
+    } = {}
+  ) {}
+
+  start(): void {
+    cluster.on('exit', (worker, code, signal) => this.onExit(worker, code, signal));
+    for (let i = 0; i < this.options.workers; i++) {
+      this.fork();
+    }
+  }
+
+  /**
+   * Stop replacing workers - call when the primary starts shutting down
+   */
+  stop(): void {
+    if (this.state === 'running') {
+      this.state = 'stopping';
+    }
+    this.cancelRestarts();
+    this.changed();
+  }
+
+  status(): SupervisorStatus {
+    const now = Date.now();
+    return {
+      state: this.state,
+      desiredWorkers: this.options.workers,
+      workers: [...this.workers.values()],
+      pendingRestarts: this.restarts.size,
+      recentCrashes: this.crashes.filter(at => now - at < this.options.crashWindowMs).length,
+      updatedAt: new Date(now).toISOString(),
+    };
+  }
+
+  private fork(): void {
+    const worker = cluster.fork();
+    this.workers.set(worker.id, {
+      id: worker.id,
+      pid: worker.process.pid,
+      state: 'starting',
+      startedAt: new Date().toISOString(),
+    });
+    worker.on('listening', () => {
+      const status = this.workers.get(worker.id);
+      if (status) {
+        status.state = 'listening';
+        this.changed();
+      }
+    });
+    this.changed();
+  }
+
+  private onExit(worker: Worker, code: number, signal: string): void {
+    this.workers.delete(worker.id);
+    const reason = signal || code;
+
+    if (this.state !== 'running') {
+      logger.info('Worker exited', { workerPid: worker.process.pid, reason });
+      this.changed();
+      return;
+    }
+
+    const now = Date.now();
+    this.crashes = [...this.crashes.filter(at => now - at < this.options.crashWindowMs), now];
+
+    if (this.crashes.length >= this.options.crashLimit) {
+      this.state = 'failed';
+      this.cancelRestarts();
+      logger.error('Workers are crash looping, no longer restarting them', {
+        workerPid: worker.process.pid,
+        reason,
+        crashes: this.crashes.length,
+        crashWindowMs: this.options.crashWindowMs,
+      });
+      this.changed();
+      this.hooks.onGiveUp?.();
+      return;
+    }
+
+    const delayMs = restartDelay(this.crashes.length, this.options);
+    logger.warn('Worker died, restarting after backoff', {
+      workerPid: worker.process.pid,
+      reason,
+      delayMs,
+      recentCrashes: this.crashes.length,
+    });
+
+    const timer = setTimeout(() => {
+      this.restarts.delete(timer);
+      if (this.state === 'running') {
+        this.fork();
+      }
+    }, delayMs);
+    this.restarts.add(timer);
+    this.changed();
+  }
+
+  private cancelRestarts(): void {
+    for (const timer of this.restarts) {
+      clearTimeout(timer);
+    }
+    this.restarts.clear();
+  }
+
+  private changed(): void {
+    this.hooks.onChange?.(this.status());
+  }
+}
+
+// IPC channel carrying supervisor status from the primary to the workers
+const CHANNEL = 'cluster-status';
+
+let latestStatus: SupervisorStatus | undefined;
+
+/**
+ * Send the supervisor status to every connected worker
+ */
+export function broadcastStatus(status: SupervisorStatus): void {
+  for (const worker of Object.values(cluster.workers ?? {})) {
+    if (worker?.isConnected()) {
+      worker.send({ channel: CHANNEL, status });
+    }
+  }
+}
+
+/**
+ * Keep the latest status sent by the primary - call once in each worker
+ */
+export function receiveStatus(channel: MessageChannel | undefined = workerChannel()): void {
+  channel?.on('message', message => {
+    if (typeof message === 'object' && message !== null && (message as { channel?: unknown }).channel === CHANNEL) {
+      latestStatus = (message as { status: SupervisorStatus }).status;
+    }
+  });
+}
+
+/**
+ * Latest cluster status seen by this worker - undefined outside a cluster
+ */
+export function getClusterStatus(): SupervisorStatus | undefined {
+  return latestStatus;
+}
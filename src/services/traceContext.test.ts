@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createTraceContext,
+  getPropagationHeaders,
+  getTraceContext,
+  runWithTraceContext,
+} from './traceContext.js';
+
+const headersOf = (headers: Record<string, string>) => (name: string) => headers[name];
+
+describe('Trace Context', () => {
+  describe('createTraceContext', () => {
+    it('should use x-request-id when present', () => {
+      const trace = createTraceContext(headersOf({ 'x-request-id': 'req-123' }));
+
+      expect(trace.requestId).toBe('req-123');
+    });
+
+    it('should generate IDs when no headers are present', () => {
+      const trace = createTraceContext(headersOf({}));
+
+      expect(trace.requestId).toMatch(/^[0-9a-f-]{36}$/);
+      expect(trace.traceId).toMatch(/^[0-9a-f]{32}$/);
+      expect(trace.spanId).toMatch(/^[0-9a-f]{16}$/);
+      expect(trace.sampled).toBe(true);
+      expect(trace.root).toBe(true);
+    });
+
+    it('should parse a W3C traceparent header', () => {
+      const trace = createTraceContext(headersOf({
+        'traceparent': '00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-00',
+        'tracestate': 'congo=t61rcWkgMzE',
+      }));
+
+      expect(trace.traceId).toBe('0af7651916cd43dd8448eb211c80319c');
+      expect(trace.spanId).toBe('b7ad6b7169203331');
+      expect(trace.sampled).toBe(false);
+      expect(trace.traceState).toBe('congo=t61rcWkgMzE');
+    });
+
+    it('should ignore malformed or all-zero traceparent headers', () => {
+      const malformed = createTraceContext(headersOf({ 'traceparent': 'not-a-traceparent' }));
+      const zeroed = createTraceContext(headersOf({
+        'traceparent': '00-00000000000000000000000000000000-b7ad6b7169203331-01',
+      }));
+
+      expect(malformed.traceId).toMatch(/^[0-9a-f]{32}$/);
+      expect(zeroed.traceId).not.toBe('00000000000000000000000000000000');
+    });
+
+    it('should parse multi-header B3 and pad 64-bit trace IDs', () => {
+      const trace = createTraceContext(headersOf({
+        'x-b3-traceid': '463ac35c9f6413ad',
+        'x-b3-spanid': 'a2fb4a1d1a96d312',
+        'x-b3-sampled': '0',
+      }));
+
+      expect(trace.traceId).toBe('0000000000000000463ac35c9f6413ad');
+      expect(trace.spanId).toBe('a2fb4a1d1a96d312');
+      expect(trace.sampled).toBe(false);
+    });
+
+    it('should parse the single b3 header', () => {
+      const trace = createTraceContext(headersOf({
+        'b3': '80f198ee56343ba864fe8b2a57d3eff7-e457b5a2e4d86bd1-1',
+      }));
+
+      expect(trace.traceId).toBe('80f198ee56343ba864fe8b2a57d3eff7');
+      expect(trace.spanId).toBe('e457b5a2e4d86bd1');
+      expect(trace.sampled).toBe(true);
+    });
+
+    it('should prefer traceparent over B3', () => {
+      const trace = createTraceContext(headersOf({
+        'traceparent': '00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01',
+        'x-b3-traceid': '463ac35c9f6413ad',
+        'x-b3-spanid': 'a2fb4a1d1a96d312',
+      }));
+
+      expect(trace.traceId).toBe('0af7651916cd43dd8448eb211c80319c');
+    });
+  });
+
+  describe('getPropagationHeaders', () => {
+    it('should return no headers outside of a request', () => {
+      expect(getPropagationHeaders()).toEqual({});
+    });
+
+    it('should emit W3C and B3 headers for the bound trace', () => {
+      const trace = createTraceContext(headersOf({
+        'x-request-id': 'req-123',
+        'traceparent': '00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01',
+      }));
+
+      const headers = runWithTraceContext(trace, () => getPropagationHeaders());
+
+      expect(headers).toEqual({
+        'x-request-id': 'req-123',
+        'traceparent': '00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01',
+        'x-b3-traceid': '0af7651916cd43dd8448eb211c80319c',
+        'x-b3-spanid': 'b7ad6b7169203331',
+        'x-b3-sampled': '1',
+      });
+    });
+
+    it('should keep the trace bound across async boundaries', async () => {
+      const trace = createTraceContext(headersOf({ 'x-request-id': 'req-async' }));
+
+      const requestId = await runWithTraceContext(trace, async () => {
+        await new Promise(resolve => setTimeout(resolve, 1));
+        return getTraceContext()?.requestId;
+      });
+
+      expect(requestId).toBe('req-async');
+    });
+  });
+});
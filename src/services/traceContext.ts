@@ -0,0 +1,120 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomBytes, randomUUID } from 'crypto';
+
+/**
+ * Trace identifiers for a single inbound request
+ * Taken from x-request-id / W3C traceparent / B3 headers, or generated when absent
+ */
+export interface TraceContext {
+  requestId: string;
+  traceId: string;      // 32 hex chars (64-bit B3 IDs are left-padded)
+  spanId: string;       // 16 hex chars - the current span: the caller's until a local span starts
+  sampled: boolean;
+  traceState?: string;  // Opaque W3C tracestate, forwarded unchanged
+  root?: boolean;       // Trace started here - spanId is a placeholder no span was recorded for
+}
+
+type HeaderGetter = (name: string) => string | null | undefined;
+
+const TRACEPARENT_PATTERN = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/;
+const HEX_ID_PATTERN = /^[0-9a-f]+$/;
+
+const storage = new AsyncLocalStorage<TraceContext>();
+
+function isValidId(id: string | undefined, length: number): id is string {
+  return !!id && id.length === length && HEX_ID_PATTERN.test(id) && !/^0+$/.test(id);
+}
+
+/**
+ * Parse a W3C traceparent header - returns undefined for malformed values
+ */
+function parseTraceparent(value: string | null | undefined) {
+  const match = value ? TRACEPARENT_PATTERN.exec(value.trim().toLowerCase()) : null;
+  if (!match) {
+    return undefined;
+  }
+
+  const [, version, traceId, spanId, flags] = match;
+  if (version === 'ff' || !isValidId(traceId, 32) || !isValidId(spanId, 16)) {
+    return undefined;
+  }
+
+  return { traceId, spanId, sampled: (parseInt(flags, 16) & 1) === 1 };
+}
+
+/**
+ * Parse B3 headers - single `b3` header or multi x-b3-* headers
+ */
+function parseB3(getHeader: HeaderGetter) {
+  const single = getHeader('b3')?.trim().toLowerCase();
+  const [singleTraceId, singleSpanId, singleSampled] = single ? single.split('-') : [];
+
+  const rawTraceId = (singleTraceId ?? getHeader('x-b3-traceid') ?? '').toLowerCase();
+  const spanId = (singleSpanId ?? getHeader('x-b3-spanid') ?? '').toLowerCase();
+  const sampledFlag = singleSampled ?? getHeader('x-b3-sampled') ?? undefined;
+
+  // B3 allows 64-bit trace IDs; W3C requires 128-bit
+  const traceId = rawTraceId.length === 16 ? rawTraceId.padStart(32, '0') : rawTraceId;
+  if (!isValidId(traceId, 32) || !isValidId(spanId, 16)) {
+    return undefined;
+  }
+
+  return { traceId, spanId, sampled: sampledFlag === undefined || sampledFlag === '1' || sampledFlag === 'd' };
+}
+
+/**
+ * Build a trace context from inbound request headers
+ * Precedence: W3C traceparent, then B3, then a freshly generated trace
+ */
+export function createTraceContext(getHeader: HeaderGetter): TraceContext {
+  const requestId = getHeader('x-request-id')?.trim() || randomUUID();
+  const parent = parseTraceparent(getHeader('traceparent')) ?? parseB3(getHeader);
+
+  return {
+    requestId,
+    traceId: parent?.traceId ?? randomBytes(16).toString('hex'),
+    spanId: parent?.spanId ?? randomBytes(8).toString('hex'),
+    sampled: parent?.sampled ?? true,
+    traceState: parent ? getHeader('tracestate') ?? undefined : undefined,
+    ...(!parent && { root: true }),
+  };
+}
+
+/**
+ * Run a callback with the given trace context bound to the async call chain
+ */
+export function runWithTraceContext<T>(trace: TraceContext, callback: () => T): T {
+  return storage.run(trace, callback);
+}
+
+/**
+ * Trace context of the request currently being handled, if any
+ */
+export function getTraceContext(): TraceContext | undefined {
+  return storage.getStore();
+}
+
+/**
+ * Headers to forward on downstream calls so the service mesh can stitch traces
+ * Emits both W3C and B3 formats; empty outside of a request
+ */
+export function getPropagationHeaders(trace: TraceContext | undefined = getTraceContext()): Record<string, string> {
+  if (!trace) {
+    return {};
+  }
+
+  const sampled = trace.sampled ? '1' : '0';
+  const headers: Record<string, string> = {
+    'x-request-id': trace.requestId,
+    'traceparent': `00-${trace.traceId}-${trace.spanId}-0${sampled}`,
+    'x-b3-traceid': trace.traceId,
+    'x-b3-spanid': trace.spanId,
+    'x-b3-sampled': sampled,
+  };
+
+  if (trace.traceState) {
+    headers['tracestate'] = trace.traceState;
+  }
+
+  return headers;
+}
@@ -0,0 +1,184 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createServer } from 'http';
+import type { AddressInfo } from 'net';
+import { SpanKind, SpanStatusCode } from '@opentelemetry/api';
+import { InMemorySpanExporter } from '@opentelemetry/sdk-trace-base';
+import type { ReadableSpan, SpanExporter } from '@opentelemetry/sdk-trace-base';
+import { RedactingSpanExporter, startTracing, tracer as processTracer, Tracer } from './tracing.js';
+import { createTraceContext, getPropagationHeaders, getTraceContext, runWithTraceContext } from './traceContext.js';
+import { REDACTED } from './redaction.js';
+
+const inboundTrace = (traceparent = '00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01') =>
+  createTraceContext(name => (name === 'traceparent' ? traceparent : undefined));
+
+describe('Tracer', () => {
+  let tracer: Tracer;
+  let exporter: InMemorySpanExporter;
+
+  beforeEach(() => {
+    tracer = new Tracer();
+    exporter = new InMemorySpanExporter();
+    tracer.start(exporter);
+  });
+
+  afterEach(async () => {
+    await tracer.shutdown();
+  });
+
+  const finishedSpans = async () => {
+    await tracer.forceFlush();
+    return exporter.getFinishedSpans();
+  };
+
+  it('should parent spans on the caller and on each other', async () => {
+    await runWithTraceContext(inboundTrace(), () =>
+      tracer.trace('server', { kind: SpanKind.SERVER }, () =>
+        tracer.trace('child', {}, () => undefined)));
+
+    const [child, server] = await finishedSpans();
+    expect(server.spanContext().traceId).toBe('0af7651916cd43dd8448eb211c80319c');
+    expect(server.parentSpanContext?.spanId).toBe('b7ad6b7169203331');
+    expect(child.spanContext().traceId).toBe(server.spanContext().traceId);
+    expect(child.parentSpanContext?.spanId).toBe(server.spanContext().spanId);
+  });
+
+  it('should propagate the active span downstream and in the trace context', async () => {
+    const { span, headers, active } = runWithTraceContext(inboundTrace(), () =>
+      tracer.trace('client', { kind: SpanKind.CLIENT }, span => ({ span, headers: getPropagationHeaders(), active: getTraceContext() })));
+
+    expect(headers.traceparent).toBe(`00-0af7651916cd43dd8448eb211c80319c-${span.spanContext().spanId}-01`);
+    expect(active?.spanId).toBe(span.spanContext().spanId);
+  });
+
+  it('should start a root span when the trace began here', async () => {
+    await runWithTraceContext(createTraceContext(() => undefined), () => tracer.trace('server', {}, () => undefined));
+    await tracer.trace('startup', {}, () => undefined);
+
+    const [server, startup] = await finishedSpans();
+    expect(server.parentSpanContext).toBeUndefined();
+    expect(startup.parentSpanContext).toBeUndefined();
+    expect(startup.spanContext().traceId).toMatch(/^[0-9a-f]{32}$/);
+  });
+
+  it('should keep trace IDs but record nothing for unsampled traces', async () => {
+    const unsampled = inboundTrace('00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-00');
+
+    const headers = runWithTraceContext(unsampled, () => tracer.trace('server', {}, () => getPropagationHeaders()));
+
+    expect(headers.traceparent).toMatch(/^00-0af7651916cd43dd8448eb211c80319c-(?!b7ad6b7169203331)[0-9a-f]{16}-00$/);
+    expect(await finishedSpans()).toEqual([]);
+  });
+
+  it('should leave the trace context alone while disabled', async () => {
+    const disabled = new Tracer();
+    const trace = inboundTrace();
+
+    const active = runWithTraceContext(trace, () => disabled.trace('server', {}, span => {
+      expect(span.isRecording()).toBe(false);
+      return getTraceContext();
+    }));
+
+    expect(active).toBe(trace);
+  });
+
+  it('should mark failed spans and rethrow', async () => {
+    const error = new TypeError('boom');
+
+    await expect(tracer.trace('async', {}, async () => { throw error; })).rejects.toBe(error);
+    expect(() => tracer.trace('sync', {}, () => { throw error; })).toThrow(error);
+
+    const spans = await finishedSpans();
+    expect(spans).toHaveLength(2);
+    for (const span of spans) {
+      expect(span.status).toEqual({ code: SpanStatusCode.ERROR, message: 'boom' });
+      expect(span.attributes['error.type']).toBe('TypeError');
+      expect(span.events[0]).toMatchObject({ name: 'exception', attributes: { 'exception.message': 'boom' } });
+    }
+  });
+
+  it('should leave out undefined attributes', async () => {
+    tracer.startSpan('once', { attributes: { kept: true, skipped: undefined } }).end();
+
+    const [finished] = await finishedSpans();
+    expect(finished.attributes).toEqual({ kept: true });
+  });
+
+  it('should export in batches when batch options are given', async () => {
+    const batches: number[] = [];
+    const counting: SpanExporter = {
+      export: (spans, resultCallback) => {
+        batches.push(spans.length);
+        resultCallback({ code: 0 });
+      },
+      shutdown: async () => undefined,
+    };
+    const batching = new Tracer();
+    batching.start(counting, { maxExportBatchSize: 2, scheduledDelayMillis: 60000, maxQueueSize: 10, exportTimeoutMillis: 1000 });
+
+    for (let i = 0; i < 3; i++) {
+      batching.startSpan(`span ${i}`).end();
+    }
+    await batching.shutdown();
+
+    expect(batches).toEqual([2, 1]);
+  });
+});
+
+describe('RedactingSpanExporter', () => {
+  it('should mask PII in attributes, events and the status message', async () => {
+    const memory = new InMemorySpanExporter();
+    const tracer = new Tracer();
+    tracer.start(new RedactingSpanExporter(memory));
+
+    const span = tracer.startSpan('lookup', { attributes: { 'customer.email': 'jane@example.com', 'http.response.status_code': 404 } });
+    span.addEvent('miss', { detail: 'no customer jane@example.com' });
+    span.setStatus({ code: SpanStatusCode.ERROR, message: 'jane@example.com not found' }).end();
+    await tracer.forceFlush();
+
+    const [exported] = memory.getFinishedSpans();
+    expect(exported.attributes).toEqual({ 'customer.email': REDACTED, 'http.response.status_code': 404 });
+    expect(exported.events[0].attributes).toEqual({ detail: `no customer ${REDACTED}` });
+    expect(exported.status.message).toBe(`${REDACTED} not found`);
+    expect(exported.spanContext()).toEqual(span.spanContext());
+    await tracer.shutdown();
+  });
+});
+
+describe('startTracing', () => {
+  it('should post batches to the collector over OTLP/HTTP', async () => {
+    const requests: Array<{ url?: string; body: string }> = [];
+    const collector = createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        requests.push({ url: req.url, body });
+        res.writeHead(200, { 'Content-Type': 'application/json' }).end('{}');
+      });
+    });
+    await new Promise<void>(resolve => collector.listen(0, '127.0.0.1', resolve));
+    const { port } = collector.address() as AddressInfo;
+
+    startTracing({
+      exporter: 'otlp',
+      otlpEndpoint: `http://127.0.0.1:${port}/v1/traces`,
+      exportIntervalMs: 60000,
+      maxBatchSize: 512,
+      maxQueueSize: 2048,
+      exportTimeoutMs: 1000,
+    });
+    await runWithTraceContext(inboundTrace(), () => processTracer.trace('GET /graphql', { kind: SpanKind.SERVER }, () => undefined));
+    await processTracer.shutdown();
+    collector.close();
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0].url).toBe('/v1/traces');
+    const [resourceSpans] = JSON.parse(requests[0].body).resourceSpans;
+    expect(resourceSpans.resource.attributes).toContainEqual({ key: 'service.name', value: { stringValue: expect.any(String) } });
+    expect(resourceSpans.scopeSpans[0].spans[0]).toMatchObject({
+      traceId: '0af7651916cd43dd8448eb211c80319c',
+      parentSpanId: 'b7ad6b7169203331',
+      name: 'GET /graphql',
+      kind: 2,
+    });
+  });
+});
@@ -0,0 +1,259 @@
+import { context, createTraceState, diag, DiagLogLevel, INVALID_SPAN_CONTEXT, ROOT_CONTEXT, SpanKind, SpanStatusCode, trace, TraceFlags } from '@opentelemetry/api';
+import type { Attributes, Context, Span } from '@opentelemetry/api';
+import { AsyncLocalStorageContextManager } from '@opentelemetry/context-async-hooks';
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+import { resourceFromAttributes } from '@opentelemetry/resources';
+import { BasicTracerProvider, BatchSpanProcessor, ConsoleSpanExporter, SimpleSpanProcessor } from '@opentelemetry/sdk-trace-base';
+import type { ReadableSpan, SpanExporter } from '@opentelemetry/sdk-trace-base';
+import { config } from '../config/index.js';
+import type { Config } from '../config/index.js';
+import { createTraceContext, getTraceContext, runWithTraceContext } from './traceContext.js';
+import type { TraceContext } from './traceContext.js';
+import { logger } from './logger.js';
+import { redactor } from './redaction.js';
+
+/**
+ * Where finished spans go - `none` creates no spans and only forwards the
+ * inbound trace headers
+ */
+export type TracingExporter = 'none' | 'otlp' | 'console';
+
+export interface SpanOptions {
+  kind?: SpanKind;                      // internal by default
+  attributes?: Attributes;              // Undefined values are left out
+  parent?: TraceContext;                // The active span, else the request's trace context
+}
+
+export interface BatchOptions {
+  maxExportBatchSize: number;     // Spans per export call
+  scheduledDelayMillis: number;   // Export at least this often while spans are queued
+  maxQueueSize: number;           // Spans beyond this are dropped until the queue drains
+  exportTimeoutMillis: number;
+}
+
+const isPromiseLike = (value: unknown): value is PromiseLike<unknown> =>
+  typeof (value as PromiseLike<unknown> | undefined)?.then === 'function';
+
+const noHeaders = () => undefined;
+
+/**
+ * OpenTelemetry parent for a request's trace context - none when the trace
+ * started here, so the span begins a new trace
+ */
+function parentContext(parent: TraceContext | undefined): Context {
+  if (!parent || parent.root) {
+    return ROOT_CONTEXT;
+  }
+  return trace.setSpanContext(ROOT_CONTEXT, {
+    traceId: parent.traceId,
+    spanId: parent.spanId,
+    traceFlags: parent.sampled ? TraceFlags.SAMPLED : TraceFlags.NONE,
+    traceState: parent.traceState ? createTraceState(parent.traceState) : undefined,
+    isRemote: true,
+  });
+}
+
+/**
+ * Spans of this process on the OpenTelemetry SDK, tied to the request's trace
+ * context so logs and downstream headers name the active span
+ * Disabled until start() is called - spans are then non-recording and the
+ * inbound trace headers are forwarded unchanged
+ */
+export class Tracer {
+  private provider?: BasicTracerProvider;
+
+  get enabled(): boolean {
+    return !!this.provider;
+  }
+
+  /**
+   * Record spans into the exporter - in batches when batch options are given,
+   * otherwise one export per span (console and tests)
+   */
+  start(exporter: SpanExporter, batch?: BatchOptions, resource: Attributes = {}): BasicTracerProvider {
+    this.provider = new BasicTracerProvider({
+      resource: resourceFromAttributes(resource),
+      spanProcessors: [batch ? new BatchSpanProcessor(exporter, batch) : new SimpleSpanProcessor(exporter)],
+    });
+    return this.provider;
+  }
+
+  /**
+   * Export queued spans and stop recording - call before the process exits
+   */
+  async shutdown(): Promise<void> {
+    const provider = this.provider;
+    this.provider = undefined;
+    await provider?.shutdown();
+  }
+
+  async forceFlush(): Promise<void> {
+    await this.provider?.forceFlush();
+  }
+
+  /**
+   * Start a span - end() it when the operation finishes
+   * Unsampled traces get a new span ID (so children link up) but record nothing
+   */
+  startSpan(name: string, options: SpanOptions = {}): Span {
+    if (!this.provider) {
+      return trace.wrapSpanContext(INVALID_SPAN_CONTEXT);
+    }
+
+    // A span active in this async chain wins over the inbound headers
+    const active = options.parent ? undefined : trace.getSpan(context.active());
+    const parent = active ? context.active() : parentContext(options.parent ?? getTraceContext());
+    return this.provider.getTracer(config.serviceMesh.serviceName).startSpan(name, {
+      kind: options.kind ?? SpanKind.INTERNAL,
+      attributes: options.attributes,
+    }, parent);
+  }
+
+  /**
+   * Run a callback with the span active - spans started inside become its
+   * children and downstream calls carry it as the traceparent
+   */
+  withSpan<T>(span: Span, callback: () => T): T {
+    const spanContext = span.spanContext();
+    if (!this.provider || !trace.isSpanContextValid(spanContext)) {
+      return callback();
+    }
+
+    // Outside a request (e.g. startup) the span keeps a fresh request ID
+    const { requestId, traceState } = getTraceContext() ?? createTraceContext(noHeaders);
+    const bound: TraceContext = {
+      requestId,
+      traceId: spanContext.traceId,
+      spanId: spanContext.spanId,
+      sampled: (spanContext.traceFlags & TraceFlags.SAMPLED) === TraceFlags.SAMPLED,
+      traceState,
+    };
+    return context.with(trace.setSpan(context.active(), span), () => runWithTraceContext(bound, callback));
+  }
+
+  /**
+   * Run a callback in a new active span that ends when the callback returns
+   * or its promise settles - errors mark the span failed and are rethrown
+   */
+  trace<T>(name: string, options: SpanOptions, callback: (span: Span) => T): T {
+    const span = this.startSpan(name, options);
+    const fail = (error: unknown) => {
+      span.recordException(error instanceof Error ? error : String(error));
+      span.setAttribute('error.type', error instanceof Error ? error.name : 'Error');
+      span.setStatus({ code: SpanStatusCode.ERROR, message: error instanceof Error ? error.message : String(error) });
+      span.end();
+    };
+
+    try {
+      const result = this.withSpan(span, () => callback(span));
+      if (isPromiseLike(result)) {
+        return Promise.resolve(result).then(
+          value => {
+            span.end();
+            return value;
+          },
+          error => {
+            fail(error);
+            throw error;
+          },
+        ) as T;
+      }
+      span.end();
+      return result;
+    } catch (error) {
+      fail(error);
+      throw error;
+    }
+  }
+}
+
+// Attribute strings can carry downstream error messages - mask PII before export
+function redactAttributes(attributes: Attributes): Attributes {
+  return Object.fromEntries(Object.entries(attributes).map(([key, value]) =>
+    [key, typeof value === 'string' ? redactor.redactText(value) : value]));
+}
+
+function redactSpan(span: ReadableSpan): ReadableSpan {
+  return {
+    name: span.name,
+    kind: span.kind,
+    spanContext: () => span.spanContext(),
+    parentSpanContext: span.parentSpanContext,
+    startTime: span.startTime,
+    endTime: span.endTime,
+    status: span.status.message ? { ...span.status, message: redactor.redactText(span.status.message) } : span.status,
+    attributes: redactAttributes(span.attributes),
+    links: span.links,
+    events: span.events.map(event => ({ ...event, attributes: event.attributes && redactAttributes(event.attributes) })),
+    duration: span.duration,
+    ended: span.ended,
+    resource: span.resource,
+    instrumentationScope: span.instrumentationScope,
+    droppedAttributesCount: span.droppedAttributesCount,
+    droppedEventsCount: span.droppedEventsCount,
+    droppedLinksCount: span.droppedLinksCount,
+  };
+}
+
+/**
+ * Masks PII in attribute values and status messages, then hands the spans on
+ */
+export class RedactingSpanExporter implements SpanExporter {
+  constructor(private exporter: SpanExporter) {}
+
+  export(spans: ReadableSpan[], resultCallback: Parameters<SpanExporter['export']>[1]): void {
+    this.exporter.export(spans.map(redactSpan), resultCallback);
+  }
+
+  async shutdown(): Promise<void> {
+    await this.exporter.shutdown();
+  }
+
+  async forceFlush(): Promise<void> {
+    await this.exporter.forceFlush?.();
+  }
+}
+
+// Spans of this process - every module starts its spans here
+export const tracer = new Tracer();
+
+/**
+ * Start exporting spans as configured - call once per serving process
+ * Also registers the provider and async context globally, so OpenTelemetry
+ * instrumentation libraries record into the same traces
+ */
+export function startTracing(settings: Config['tracing'] = config.tracing): void {
+  if (settings.exporter === 'none') {
+    return;
+  }
+
+  // Export failures and dropped spans surface through the SDK's diagnostics
+  diag.setLogger({
+    error: message => logger.warn(`Tracing: ${message}`),
+    warn: message => logger.warn(`Tracing: ${message}`),
+    info: () => undefined,
+    debug: () => undefined,
+    verbose: () => undefined,
+  }, DiagLogLevel.WARN);
+  context.setGlobalContextManager(new AsyncLocalStorageContextManager().enable());
+
+  const resource = {
+    'service.name': config.serviceMesh.serviceName,
+    'service.version': config.serviceMesh.serviceVersion,
+    'deployment.environment.name': config.environment,
+    'k8s.cluster.name': config.serviceMesh.clusterName,
+    'process.pid': process.pid,
+  };
+  const provider = settings.exporter === 'console'
+    ? tracer.start(new RedactingSpanExporter(new ConsoleSpanExporter()), undefined, resource)
+    : tracer.start(new RedactingSpanExporter(new OTLPTraceExporter({
+      url: settings.otlpEndpoint,
+      timeoutMillis: settings.exportTimeoutMs,
+    })), {
+      maxExportBatchSize: settings.maxBatchSize,
+      scheduledDelayMillis: settings.exportIntervalMs,
+      maxQueueSize: settings.maxQueueSize,
+      exportTimeoutMillis: settings.exportTimeoutMs,
+    }, resource);
+  trace.setGlobalTracerProvider(provider);
+}
@@ -1,5 +1,6 @@
 import { HttpClient } from './httpClient.js';
-import { appConfig } from '../config/index.js';
+import { credentialProvider } from './credentials.js';
+import { config } from '../config/index.js';
 
 export interface User {
   id: string;
@@ -25,16 +26,15 @@ class UserService {
   private client: HttpClient;
 
   constructor() {
-    this.client = new HttpClient(appConfig.services.userService);
+    this.client = new HttpClient(config.services.userService, {
+      serviceName: 'user-service',
+      credentials: credentialProvider(config.downstreamCredentials.userService),
+    });
   }
 
   async getUserById(id: string): Promise<User> {
     const response = await this.client.get<User>(`/users/${id}`);
     
-    if (response.error || !response.data) {
-      throw new Error(response.error || 'Failed to fetch user');
-    }
-    
     return response.data;
   }
 
@@ -47,45 +47,29 @@ class UserService {
     
     const response = await this.client.get<User[]>(`/users?${queryParams}`);
     
-    if (response.error || !response.data) {
-      throw new Error(response.error || 'Failed to fetch users');
-    }
-    
     return response.data;
   }
 
   async createUser(input: UserInput): Promise<User> {
     const response = await this.client.post<User>('/users', input);
     
-    if (response.error || !response.data) {
-      throw new Error(response.error || 'Failed to create user');
-    }
-    
     return response.data;
   }
 
   async updateUser(id: string, input: Partial<UserInput>): Promise<User> {
     const response = await this.client.put<User>(`/users/${id}`, input);
     
-    if (response.error || !response.data) {
-      throw new Error(response.error || 'Failed to update user');
-    }
-    
     return response.data;
   }
 
   async deleteUser(id: string): Promise<boolean> {
     const response = await this.client.delete(`/users/${id}`);
     
-    if (response.error) {
-      throw new Error(response.error);
-    }
-    
     return response.status === 204;
   }
 
-  async healthCheck() {
-    return this.client.healthCheck();
+  async healthCheck(timeoutMs?: number) {
+    return this.client.healthCheck(timeoutMs);
   }
 }
 
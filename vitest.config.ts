@@ -14,8 +14,11 @@ export default defineConfig({
     },
   },
   resolve: {
-    alias: {
-      '@/': './src/',
-    },
+    alias: [
+      { find: '@/', replacement: './src/' },
+      // Resolve graphql like Node does, so errors created by graphql-yoga
+      // (loaded natively) share the GraphQLError class used in src
+      { find: /^graphql$/, replacement: 'graphql/index.js' },
+    ],
   },
 });
\ No newline at end of file